@@ -1,11 +1,28 @@
 import React from "react";
 import * as teamsJs from "@microsoft/teams-js";
+import { PublicClientApplication } from "@azure/msal-browser";
+import { useMsal } from "@azure/msal-react";
 
+import { graphScopes } from "./authConfig";
+import { OffboardingProgressComponent } from "./components/OffboardingProgress";
+import { UserSearch } from "./components/UserSearch";
+import { WorkflowBuilder } from "./components/WorkflowBuilder";
+import { ApiTokenProvider } from "./services/apiTokenProvider";
+import { GraphService, MicrosoftGraphService } from "./services/graphService";
+import { MockGraphService } from "./services/mockGraphService";
+import { OffboardingService } from "./services/offboardingService";
+import { RetentionApiService } from "./services/retentionApiService";
+import { SessionApiService } from "./services/sessionApiService";
+import { WorkflowApiService } from "./services/workflowApiService";
+import { OffboardingSession, User } from "./types/offboarding";
 import "./App.css";
 
+// The mock directory is always offered in dev builds; set VITE_USE_MOCK_GRAPH=true to offer it elsewhere
+const mockGraphAvailable = import.meta.env.DEV || import.meta.env.VITE_USE_MOCK_GRAPH === "true";
+
 export default function App() {
   const [content, setContent] = React.useState("");
-  const [showDemo, setShowDemo] = React.useState(false);
+  const [showBuilder, setShowBuilder] = React.useState(false);
 
   React.useEffect(() => {
     (async () => {
@@ -19,62 +36,145 @@ export default function App() {
     })();
   }, []);
 
-  const demoUsers = [
-    {
-      id: "1",
-      displayName: "Sarah Johnson",
-      userPrincipalName: "sarah.johnson@contoso.com",
-      jobTitle: "Marketing Manager",
-      department: "Marketing",
-      accountEnabled: true,
-      assignedLicenses: ["Office 365 E3", "Project Plan 1"],
-      memberOf: ["Marketing Team", "Project Leads", "Office 365 Users"],
-      ownedDevices: ["DESKTOP-ABC123", "iPhone 13"]
-    },
-    {
-      id: "2", 
-      displayName: "Michael Chen",
-      userPrincipalName: "michael.chen@contoso.com",
-      jobTitle: "Software Developer",
-      department: "IT",
-      accountEnabled: true,
-      assignedLicenses: ["Office 365 E5", "Visual Studio"],
-      memberOf: ["Developers", "IT Team", "Office 365 Users"],
-      ownedDevices: ["LAPTOP-DEF456", "Surface Pro 9"]
+  const { instance } = useMsal();
+  const [graphService, setGraphService] = React.useState<GraphService | null>(null);
+  const [backend, setBackend] = React.useState<"graph" | "mock" | null>(null);
+  const [currentUser, setCurrentUser] = React.useState<User | null>(null);
+  const [session, setSession] = React.useState<OffboardingSession | null>(null);
+  const [storedSessions, setStoredSessions] = React.useState<OffboardingSession[]>([]);
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // The bot's API identifies the signed-in user from an MSAL token, whichever directory backs the Tab
+  const apiTokens = React.useMemo(() => new ApiTokenProvider(instance), [instance]);
+  const offboardingService = React.useMemo(
+    () => (graphService ? new OffboardingService(graphService, new RetentionApiService(apiTokens)) : null),
+    [graphService, apiTokens]
+  );
+  const sessionApi = React.useMemo(() => new SessionApiService(apiTokens), [apiTokens]);
+  const workflowApi = React.useMemo(() => new WorkflowApiService(apiTokens), [apiTokens]);
+
+  // Sessions started from the bot or another Tab; the store is optional when running the Tab alone
+  const loadStoredSessions = async () => {
+    try {
+      setStoredSessions(await sessionApi.listSessions());
+    } catch (error) {
+      console.warn("Session store unavailable:", error);
+      setStoredSessions([]);
     }
-  ];
+  };
 
-  const [selectedUser, setSelectedUser] = React.useState(null);
-  const [offboardingStarted, setOffboardingStarted] = React.useState(false);
-  const [progress, setProgress] = React.useState(0);
-  const [currentTask, setCurrentTask] = React.useState("");
+  React.useEffect(() => {
+    if (graphService && !session) {
+      loadStoredSessions();
+    }
+  }, [graphService, session]);
+
+  const connect = async (selected: "graph" | "mock") => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      let service: GraphService;
+      if (selected === "graph") {
+        // Reuse a cached account before prompting
+        const account = instance.getAllAccounts()[0]
+          || (await instance.loginPopup({ scopes: graphScopes.offboardingScopes })).account;
+        instance.setActiveAccount(account);
+        // MsalProvider hands back the PublicClientApplication created in client.tsx
+        service = new MicrosoftGraphService(instance as PublicClientApplication);
+      } else {
+        service = new MockGraphService();
+      }
 
-  const offboardingTasks = [
-    "Disabling user account",
-    "Revoking all active sessions", 
-    "Removing from security groups",
-    "Removing from Teams",
-    "Removing license assignments",
-    "Disabling devices",
-    "Preparing data backup",
-    "Sending notifications"
-  ];
+      await service.initializeGraphClient(graphScopes.offboardingScopes);
+      setCurrentUser(await service.getCurrentUser());
+      setGraphService(service);
+      setBackend(selected);
+    } catch (error: any) {
+      console.error("Sign-in failed:", error);
+      setError(error?.message || "Sign-in failed. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const disconnect = async () => {
+    if (backend === "graph") {
+      await instance.logoutPopup().catch((error) => console.error("Sign-out failed:", error));
+    }
+    setGraphService(null);
+    setBackend(null);
+    setCurrentUser(null);
+    setSession(null);
+  };
+
+  const createSession = async (user: User) => {
+    if (!offboardingService) return;
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const created = await offboardingService.createOffboardingSession(user.id);
+      try {
+        setSession(await sessionApi.createSession(created));
+      } catch (error) {
+        console.warn("Session store unavailable, keeping the session in this Tab only:", error);
+        setSession(created);
+      }
+    } catch (error: any) {
+      console.error("Failed to create offboarding session:", error);
+      setError(error?.message || "Failed to create offboarding session.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const openStoredSession = async (stored: OffboardingSession) => {
+    if (!offboardingService) return;
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const resumed = await offboardingService.resumeOffboardingSession(stored);
+      setSession(await sessionApi.updateSession(resumed));
+    } catch (error: any) {
+      console.error("Failed to open offboarding session:", error);
+      setError(error?.message || "Failed to open offboarding session.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
 
-  const startOffboarding = (user: any) => {
-    setSelectedUser(user);
-    setOffboardingStarted(true);
-    setProgress(0);
-    
-    // Simulate offboarding process
-    offboardingTasks.forEach((task, index) => {
-      setTimeout(() => {
-        setCurrentTask(task);
-        setProgress(((index + 1) / offboardingTasks.length) * 100);
-      }, (index + 1) * 2000);
-    });
+  const updateSession = (updated: OffboardingSession) => {
+    setSession(updated);
+    sessionApi.updateSession(updated).catch((error) => console.warn("Failed to save session:", error));
   };
 
-  if (!showDemo) {
+  if (showBuilder) {
+    return (
+      <div className="App" style={{ padding: '20px', maxWidth: '1400px', margin: '0 auto' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+          <h1 style={{ margin: 0, color: '#323130', fontSize: '24px' }}>Offboarding Workflows</h1>
+          <button
+            onClick={() => setShowBuilder(false)}
+            style={{
+              background: '#f3f2f1',
+              border: '1px solid #e1dfdd',
+              padding: '8px 16px',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            ← Back to Overview
+          </button>
+        </div>
+        <WorkflowBuilder api={workflowApi} />
+      </div>
+    );
+  }
+
+  if (!graphService || !offboardingService) {
     return (
       <div className="App" style={{ padding: '40px', maxWidth: '1000px', margin: '0 auto' }}>
         <div style={{ textAlign: 'center', marginBottom: '40px' }}>
@@ -130,7 +230,8 @@ export default function App() {
           </div>
           
           <button
-            onClick={() => setShowDemo(true)}
+            onClick={() => connect("graph")}
+            disabled={isBusy}
             style={{
               background: 'white',
               color: '#0078d4',
@@ -139,14 +240,52 @@ export default function App() {
               fontSize: '18px',
               fontWeight: 'bold',
               borderRadius: '6px',
+              cursor: 'pointer'
+            }}
+          >
+            🔐 Sign in with Microsoft
+          </button>
+          {mockGraphAvailable && (
+            <button
+              onClick={() => connect("mock")}
+              disabled={isBusy}
+              style={{
+                background: 'transparent',
+                color: 'white',
+                border: '2px solid white',
+                padding: '14px 30px',
+                fontSize: '18px',
+                fontWeight: 'bold',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                marginLeft: '16px'
+              }}
+            >
+              🧪 Use Mock Directory
+            </button>
+          )}
+          <button
+            onClick={() => setShowBuilder(true)}
+            style={{
+              background: 'transparent',
+              color: 'white',
+              border: '2px solid white',
+              padding: '14px 30px',
+              fontSize: '18px',
+              fontWeight: 'bold',
+              borderRadius: '6px',
               cursor: 'pointer',
-              transition: 'transform 0.2s'
+              marginLeft: '16px'
             }}
-            onMouseOver={(e) => e.target.style.transform = 'scale(1.05)'}
-            onMouseOut={(e) => e.target.style.transform = 'scale(1)'}
           >
-            🚀 Launch Interactive Demo
+            🧩 Open Workflow Builder
           </button>
+          {isBusy && <p style={{ margin: '16px 0 0 0' }}>Signing in...</p>}
+          {error && (
+            <p style={{ margin: '16px 0 0 0', background: 'rgba(255,255,255,0.15)', padding: '8px', borderRadius: '4px' }}>
+              {error}
+            </p>
+          )}
         </div>
 
         <div style={{ 
@@ -192,11 +331,14 @@ export default function App() {
           <span style={{ fontSize: '32px' }}>👤</span>
           <div>
             <h1 style={{ margin: 0, color: '#323130', fontSize: '24px' }}>Employee Offboarding Portal</h1>
-            <p style={{ margin: 0, color: '#605e5c' }}>Secure employee departure management</p>
+            <p style={{ margin: 0, color: '#605e5c' }}>
+              Signed in as {currentUser?.displayName}
+              {backend === "mock" && " • Mock directory"}
+            </p>
           </div>
         </div>
         <button
-          onClick={() => setShowDemo(false)}
+          onClick={disconnect}
           style={{
             background: '#f3f2f1',
             border: '1px solid #e1dfdd',
@@ -205,205 +347,88 @@ export default function App() {
             cursor: 'pointer'
           }}
         >
-          ← Back to Overview
+          Sign out
         </button>
       </div>
 
-      {!selectedUser ? (
+      {error && (
         <div style={{
-          background: 'white',
-          padding: '24px',
-          borderRadius: '8px',
-          boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
+          background: '#fde7e9',
+          border: '1px solid #f1bbbc',
+          color: '#a4262c',
+          padding: '12px 16px',
+          borderRadius: '4px',
+          marginBottom: '20px'
         }}>
-          <h2 style={{ color: '#323130', marginBottom: '20px' }}>Select Employee for Offboarding</h2>
-          
-          <div style={{ marginBottom: '20px' }}>
-            <input
-              type="text"
-              placeholder="Search by name, email, or username..."
-              style={{
-                width: '100%',
-                padding: '12px',
-                border: '2px solid #e1dfdd',
-                borderRadius: '4px',
-                fontSize: '16px'
-              }}
-            />
-          </div>
-
-          <div style={{ display: 'grid', gap: '16px' }}>
-            {demoUsers.map((user) => (
-              <div
-                key={user.id}
-                style={{
-                  border: '1px solid #e1dfdd',
-                  borderRadius: '8px',
-                  padding: '20px',
-                  cursor: 'pointer',
-                  transition: 'border-color 0.2s',
-                  background: '#fafafa'
-                }}
-                onClick={() => startOffboarding(user)}
-                onMouseOver={(e) => e.target.style.borderColor = '#0078d4'}
-                onMouseOut={(e) => e.target.style.borderColor = '#e1dfdd'}
-              >
-                <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
-                  <div style={{
-                    width: '48px',
-                    height: '48px',
-                    borderRadius: '50%',
-                    background: '#0078d4',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    color: 'white',
-                    fontSize: '20px',
-                    fontWeight: 'bold'
-                  }}>
-                    {user.displayName.split(' ').map(n => n[0]).join('')}
-                  </div>
-                  <div style={{ flex: 1 }}>
-                    <h3 style={{ margin: '0 0 4px 0', color: '#323130' }}>{user.displayName}</h3>
-                    <p style={{ margin: '0 0 4px 0', color: '#605e5c' }}>{user.userPrincipalName}</p>
-                    <p style={{ margin: 0, color: '#605e5c', fontSize: '14px' }}>
-                      {user.jobTitle} • {user.department}
-                    </p>
-                  </div>
-                  <div style={{ textAlign: 'right' }}>
-                    <div style={{ fontSize: '12px', color: '#605e5c', marginBottom: '8px' }}>
-                      {user.memberOf.length} groups • {user.assignedLicenses.length} licenses • {user.ownedDevices.length} devices
-                    </div>
-                    <span style={{
-                      background: '#d4edda',
-                      color: '#155724',
-                      padding: '4px 8px',
-                      borderRadius: '4px',
-                      fontSize: '12px'
-                    }}>
-                      Active
-                    </span>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
+          {error}
         </div>
-      ) : offboardingStarted ? (
-        <div style={{
-          background: 'white',
-          padding: '24px',
-          borderRadius: '8px',
-          boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
-        }}>
-          <h2 style={{ color: '#323130', marginBottom: '20px' }}>
-            Offboarding Progress: {selectedUser.displayName}
-          </h2>
+      )}
 
-          <div style={{
-            background: '#f3f2f1',
-            padding: '20px',
-            borderRadius: '8px',
-            marginBottom: '30px'
-          }}>
-            <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '10px' }}>
-              <span style={{ fontWeight: 'bold' }}>Overall Progress</span>
-              <span>{Math.round(progress)}% Complete</span>
-            </div>
+      {!session ? (
+        <>
+          {isBusy && <p style={{ color: '#605e5c' }}>Preparing offboarding session...</p>}
+          <UserSearch graphService={graphService} onUserSelected={createSession} />
+          {storedSessions.some((stored) => stored.status === "created" || stored.status === "in-progress") && (
             <div style={{
-              background: '#e1dfdd',
-              height: '20px',
-              borderRadius: '10px',
-              overflow: 'hidden'
-            }}>
-              <div
-                style={{
-                  background: progress === 100 ? '#107c10' : '#0078d4',
-                  height: '100%',
-                  width: `${progress}%`,
-                  transition: 'width 0.5s ease'
-                }}
-              />
-            </div>
-            {currentTask && (
-              <p style={{ margin: '10px 0 0 0', color: '#605e5c', fontStyle: 'italic' }}>
-                Current: {currentTask}...
-              </p>
-            )}
-          </div>
-
-          <div style={{ display: 'grid', gap: '12px' }}>
-            {offboardingTasks.map((task, index) => {
-              const isCompleted = (index + 1) / offboardingTasks.length * 100 <= progress;
-              const isCurrent = Math.ceil(progress / (100 / offboardingTasks.length)) - 1 === index && progress < 100;
-              
-              return (
-                <div
-                  key={index}
-                  style={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '12px',
-                    padding: '16px',
-                    border: '1px solid #e1dfdd',
-                    borderRadius: '6px',
-                    background: isCompleted ? '#d4edda' : isCurrent ? '#fff3cd' : '#fafafa'
-                  }}
-                >
-                  <div style={{
-                    width: '24px',
-                    height: '24px',
-                    borderRadius: '50%',
-                    background: isCompleted ? '#28a745' : isCurrent ? '#ffc107' : '#e1dfdd',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    color: 'white',
-                    fontSize: '12px',
-                    fontWeight: 'bold'
-                  }}>
-                    {isCompleted ? '✓' : isCurrent ? '●' : index + 1}
-                  </div>
-                  <span style={{
-                    color: isCompleted ? '#155724' : isCurrent ? '#856404' : '#605e5c',
-                    fontWeight: isCurrent ? 'bold' : 'normal'
-                  }}>
-                    {task}
-                  </span>
-                </div>
-              );
-            })}
-          </div>
-
-          {progress === 100 && (
-            <div style={{
-              background: '#d4edda',
-              border: '1px solid #c3e6cb',
-              color: '#155724',
+              background: 'white',
               padding: '20px',
               borderRadius: '8px',
-              marginTop: '30px',
-              textAlign: 'center'
+              marginTop: '20px',
+              boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
             }}>
-              <h3 style={{ margin: '0 0 10px 0' }}>✅ Offboarding Completed Successfully!</h3>
-              <p style={{ margin: 0 }}>
-                {selectedUser.displayName} has been securely offboarded. All access has been revoked and audit logs have been generated.
-              </p>
+              <h3 style={{ margin: '0 0 12px 0', color: '#323130' }}>Open offboarding sessions</h3>
+              {storedSessions
+                .filter((stored) => stored.status === "created" || stored.status === "in-progress")
+                .map((stored) => (
+                  <div
+                    key={stored.id}
+                    style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '8px 0', borderTop: '1px solid #edebe9' }}
+                  >
+                    <div>
+                      <strong>{stored.userDisplayName}</strong>
+                      <span style={{ color: '#605e5c' }}>
+                        {" "}• {stored.status} • started from {stored.source === "bot" ? "chat" : "the Tab"}
+                        {stored.createdBy && ` by ${stored.createdBy}`}
+                        {stored.lastWorkingDay && ` • last day ${stored.lastWorkingDay}`}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => openStoredSession(stored)}
+                      disabled={isBusy}
+                      style={{
+                        background: '#0078d4',
+                        color: 'white',
+                        border: 'none',
+                        padding: '6px 16px',
+                        borderRadius: '4px',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      Open
+                    </button>
+                  </div>
+                ))}
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          <OffboardingProgressComponent
+            session={session}
+            offboardingService={offboardingService}
+            onSessionUpdate={updateSession}
+          />
+          {(session.status === "completed" || session.status === "failed" || session.status === "rolled-back") && (
+            <div style={{ textAlign: 'center', marginTop: '20px' }}>
               <button
-                onClick={() => {
-                  setSelectedUser(null);
-                  setOffboardingStarted(false);
-                  setProgress(0);
-                  setCurrentTask('');
-                }}
+                onClick={() => setSession(null)}
                 style={{
-                  background: '#28a745',
+                  background: '#0078d4',
                   color: 'white',
                   border: 'none',
                   padding: '12px 24px',
                   borderRadius: '6px',
                   cursor: 'pointer',
-                  marginTop: '16px',
                   fontWeight: 'bold'
                 }}
               >
@@ -411,8 +436,8 @@ export default function App() {
               </button>
             </div>
           )}
-        </div>
-      ) : null}
+        </>
+      )}
     </div>
   );
 }
@@ -69,15 +69,30 @@ export const graphScopes = {
     
     // Device management
     deviceManagementManagedDevicesReadWriteAll: ["DeviceManagementManagedDevices.ReadWrite.All"],
+
+    // Intune retire and wipe
+    deviceManagementManagedDevicesPrivilegedOperationsAll: ["DeviceManagementManagedDevices.PrivilegedOperations.All"],
+
+    // Enabling and disabling device objects (delegated; also needs an admin role such as Cloud Device Administrator)
+    directoryAccessAsUserAll: ["Directory.AccessAsUser.All"],
     
     // Teams membership
     teamMemberReadWriteAll: ["TeamMember.ReadWrite.All"],
+
+    channelMemberReadWriteAll: ["ChannelMember.ReadWrite.All"],
+
+    applicationReadWriteAll: ["Application.ReadWrite.All"],
+
+    sitesReadAll: ["Sites.Read.All"],
     
     // Security groups
     groupMemberReadWriteAll: ["GroupMember.ReadWrite.All"],
     
     // Mail settings
     mailboxSettingsReadWrite: ["MailboxSettings.ReadWrite"],
+
+    // OneDrive inventory, sharing and handoff
+    filesReadWriteAll: ["Files.ReadWrite.All"],
     
     // Complete offboarding scope set
     offboardingScopes: [
@@ -86,12 +101,25 @@ export const graphScopes = {
         "Directory.ReadWrite.All",
         "GroupMember.ReadWrite.All",
         "TeamMember.ReadWrite.All",
+        "ChannelMember.ReadWrite.All",
+        "Application.ReadWrite.All",
+        "Sites.Read.All",
         "Organization.ReadWrite.All",
         "DeviceManagementManagedDevices.ReadWrite.All",
-        "MailboxSettings.ReadWrite"
+        "DeviceManagementManagedDevices.PrivilegedOperations.All",
+        "Directory.AccessAsUser.All",
+        "MailboxSettings.ReadWrite",
+        "Files.ReadWrite.All"
     ]
 };
 
+/**
+ * Scope the app registration exposes for the offboarding API served by the bot (src/index.ts)
+ */
+export const apiScopes = {
+    offboardingApi: [import.meta.env.VITE_API_SCOPE || `api://${import.meta.env.VITE_CLIENT_ID}/access_as_user`]
+};
+
 /**
  * Add here the endpoints and scopes when obtaining an access token for protected web APIs. For more information, see:
  * https://github.com/AzureAD/microsoft-authentication-library-for-js/blob/dev/lib/msal-browser/docs/resources-and-scopes.md
@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+    Text,
+    Card,
+    CardHeader,
+    Badge,
+    Button,
+    MessageBar
+} from '@fluentui/react-components';
+import {
+    ArrowDownload24Regular,
+    ClipboardTaskListLtr24Regular
+} from '@fluentui/react-icons';
+import { OffboardingPlan } from '../types/offboarding';
+
+interface OffboardingPlanViewProps {
+    plan: OffboardingPlan;
+    document: string; // Serialized plan, as attached to approval requests
+}
+
+export const OffboardingPlanView: React.FC<OffboardingPlanViewProps> = ({ plan, document: planDocument }) => {
+    const downloadPlan = () => {
+        const url = URL.createObjectURL(new Blob([planDocument], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `offboarding-plan-${plan.user.userPrincipalName}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <Card>
+            <CardHeader
+                header={
+                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                        <ClipboardTaskListLtr24Regular />
+                        <Text weight="semibold" size={400}>
+                            Dry Run: {plan.summary.totalCalls} Graph calls
+                        </Text>
+                    </div>
+                }
+                action={
+                    <Button icon={<ArrowDownload24Regular />} onClick={downloadPlan}>
+                        Download Plan
+                    </Button>
+                }
+            />
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                {plan.summary.failingCalls === 0 ? (
+                    <MessageBar intent="success">
+                        No problems found. Nothing has been changed yet.
+                    </MessageBar>
+                ) : (
+                    <MessageBar intent="warning">
+                        <strong>{plan.summary.failingCalls} calls will fail.</strong>
+                        {plan.summary.missingScopes.length > 0 && (
+                            <> Missing permissions: {plan.summary.missingScopes.join(', ')}.</>
+                        )}
+                    </MessageBar>
+                )}
+
+                {plan.tasks.map(task => (
+                    <Card key={task.taskId} appearance="outline">
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                <Text weight="semibold">{task.name}</Text>
+                                {task.willFail && <Badge appearance="filled" color="danger">Will fail</Badge>}
+                                {!task.automated && <Badge appearance="outline">Not automated</Badge>}
+                            </div>
+
+                            {task.calls.map((call, index) => (
+                                <Text
+                                    key={index}
+                                    size={200}
+                                    font="monospace"
+                                    style={{ color: call.willFail ? 'var(--colorPaletteRedForeground1)' : undefined }}
+                                >
+                                    {call.method} {call.path}
+                                    {call.failureReason && ` (${call.failureReason})`}
+                                </Text>
+                            ))}
+
+                            {task.targets.devices?.map(device => (
+                                <Text key={device.id} size={200}>
+                                    {device.displayName} ({device.operatingSystem})
+                                </Text>
+                            ))}
+
+                            {task.notes.map((note, index) => (
+                                <Text key={index} size={200} style={{ color: 'var(--colorNeutralForeground3)' }}>
+                                    {note}
+                                </Text>
+                            ))}
+                        </div>
+                    </Card>
+                ))}
+            </div>
+        </Card>
+    );
+};
@@ -1,30 +1,31 @@
 import React, { useEffect, useState } from 'react';
 import {
-    Stack,
     Text,
     ProgressBar,
     Card,
     CardHeader,
-    CardBody,
     Badge,
     Button,
     MessageBar,
-    MessageBarType
+    Field,
+    Input
 } from '@fluentui/react-components';
 import {
     CheckmarkCircle24Regular,
     ErrorCircle24Regular,
     Clock24Regular,
     Play24Regular,
-    Pause24Regular
+    ArrowUndo24Regular,
+    ClipboardTaskListLtr24Regular
 } from '@fluentui/react-icons';
 import { 
+    OffboardingPlan,
     OffboardingSession, 
-    OffboardingTask, 
-    OffboardingProgress,
     TaskStatus 
 } from '../types/offboarding';
 import { OffboardingService } from '../services/offboardingService';
+import { OffboardingPlanView } from './OffboardingPlanView';
+import { OwnershipAnalysisView } from './OwnershipAnalysisView';
 
 interface OffboardingProgressProps {
     session: OffboardingSession;
@@ -40,19 +41,39 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
     const [currentSession, setCurrentSession] = useState<OffboardingSession>(session);
     const [isExecuting, setIsExecuting] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [isRollingBack, setIsRollingBack] = useState(false);
+    const [confirmRollback, setConfirmRollback] = useState(false);
+    const [plan, setPlan] = useState<OffboardingPlan | null>(null);
+    const [isPlanning, setIsPlanning] = useState(false);
+    const [verifyingTaskId, setVerifyingTaskId] = useState<string | null>(null);
+    const [isAnalyzingOwnership, setIsAnalyzingOwnership] = useState(false);
+    const [overrideReason, setOverrideReason] = useState('');
 
     const progress = offboardingService.getOffboardingProgress(currentSession);
+    // Group and team removal waits for a finished ownership check with no sole-owned resources left, or a recorded override
+    const soleOwnerIssues = (currentSession.blockingIssues || []).filter(issue => issue.taskId === 'ownership-analysis');
+    const ownershipPending = !currentSession.ownershipOverride &&
+        (!currentSession.ownershipAnalysis || soleOwnerIssues.length > 0);
 
     useEffect(() => {
         setCurrentSession(session);
     }, [session]);
 
+    // Check for sole-owned resources before anything is removed
+    useEffect(() => {
+        if (session.status === 'created' && !session.ownershipAnalysis) {
+            analyzeOwnership();
+        }
+    }, [session.id]);
+
     const executeOffboarding = async () => {
         setIsExecuting(true);
         setError(null);
 
         try {
-            const updatedSession = await offboardingService.executeOffboarding(currentSession);
+            const updatedSession = await offboardingService.executeOffboarding(currentSession, {
+                onProgress: setCurrentSession
+            });
             setCurrentSession(updatedSession);
             onSessionUpdate(updatedSession);
         } catch (error) {
@@ -63,6 +84,104 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
         }
     };
 
+    const previewPlan = async () => {
+        setIsPlanning(true);
+        setError(null);
+
+        try {
+            setPlan(await offboardingService.planOffboarding(currentSession));
+        } catch (error) {
+            console.error('Offboarding plan error:', error);
+            setError(error instanceof Error ? error.message : 'Failed to build offboarding plan');
+        } finally {
+            setIsPlanning(false);
+        }
+    };
+
+    const analyzeOwnership = async () => {
+        setIsAnalyzingOwnership(true);
+        setError(null);
+
+        try {
+            const updatedSession = await offboardingService.analyzeOwnership(currentSession);
+            setCurrentSession(updatedSession);
+            onSessionUpdate(updatedSession);
+        } catch (error) {
+            console.error('Ownership analysis error:', error);
+            setError(error instanceof Error ? error.message : 'Failed to analyze ownership');
+        } finally {
+            setIsAnalyzingOwnership(false);
+        }
+    };
+
+    const reassignOwnership = async (resourceIds: string[], newOwner: string) => {
+        setIsAnalyzingOwnership(true);
+        setError(null);
+
+        try {
+            const updatedSession = await offboardingService.reassignOwnership(currentSession, resourceIds, newOwner);
+            setCurrentSession(updatedSession);
+            onSessionUpdate(updatedSession);
+        } catch (error) {
+            console.error('Ownership reassignment error:', error);
+            setError(error instanceof Error ? error.message : 'Failed to reassign ownership');
+        } finally {
+            setIsAnalyzingOwnership(false);
+        }
+    };
+
+    const overrideOwnershipBlock = async () => {
+        setError(null);
+
+        try {
+            const updatedSession = await offboardingService.overrideOwnershipBlock(currentSession, overrideReason);
+            setCurrentSession(updatedSession);
+            onSessionUpdate(updatedSession);
+            setOverrideReason('');
+        } catch (error) {
+            console.error('Ownership override error:', error);
+            setError(error instanceof Error ? error.message : 'Failed to record the override');
+        }
+    };
+
+    const verifyManualTask = async (taskId: string) => {
+        setVerifyingTaskId(taskId);
+        setError(null);
+
+        try {
+            const updatedSession = await offboardingService.verifyManualTask(currentSession, taskId);
+            setCurrentSession(updatedSession);
+            onSessionUpdate(updatedSession);
+        } catch (error) {
+            console.error('Manual step verification error:', error);
+            setError(error instanceof Error ? error.message : 'Failed to verify manual step');
+        } finally {
+            setVerifyingTaskId(null);
+        }
+    };
+
+    const rollbackOffboarding = async () => {
+        setConfirmRollback(false);
+        setIsRollingBack(true);
+        setError(null);
+
+        try {
+            const updatedSession = await offboardingService.rollbackOffboarding(currentSession, {
+                onProgress: setCurrentSession
+            });
+            setCurrentSession(updatedSession);
+            onSessionUpdate(updatedSession);
+        } catch (error) {
+            console.error('Offboarding rollback error:', error);
+            setError(error instanceof Error ? error.message : 'Failed to roll back offboarding');
+        } finally {
+            setIsRollingBack(false);
+        }
+    };
+
+    const canRollback = (currentSession.status === 'completed' || currentSession.status === 'failed')
+        && currentSession.tasks.some(t => t.changes);
+
     const getTaskStatusIcon = (status: TaskStatus) => {
         switch (status) {
             case 'completed':
@@ -86,6 +205,8 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
                 return <Badge appearance="filled" color="informative">In Progress</Badge>;
             case 'skipped':
                 return <Badge appearance="outline" color="warning">Skipped</Badge>;
+            case 'awaiting-manual':
+                return <Badge appearance="filled" color="warning">Awaiting Manual Step</Badge>;
             default:
                 return <Badge appearance="outline">Pending</Badge>;
         }
@@ -97,6 +218,7 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
             case 'groups': return 'var(--colorPaletteBlueForeground1)';
             case 'licenses': return 'var(--colorPaletteOrangeForeground1)';
             case 'devices': return 'var(--colorPalettePurpleForeground1)';
+            case 'mailbox': return 'var(--colorPaletteTealForeground2)';
             case 'data': return 'var(--colorPaletteGreenForeground1)';
             case 'cleanup': return 'var(--colorNeutralForeground2)';
             default: return 'var(--colorNeutralForeground2)';
@@ -104,52 +226,54 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
     };
 
     return (
-        <Stack tokens={{ childrenGap: 20 }}>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '20px' }}>
             {/* Session Overview */}
             <Card>
                 <CardHeader
                     header={
-                        <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
+                        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
                             <Text weight="semibold" size={500}>
                                 Offboarding Progress for {currentSession.userDisplayName}
                             </Text>
-                        </Stack>
+                        </div>
                     }
                 />
-                <CardBody>
-                    <Stack tokens={{ childrenGap: 16 }}>
-                        <Stack horizontal tokens={{ childrenGap: 24 }} verticalAlign="center">
-                            <Stack>
+                <div>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+                        <div style={{ display: 'flex', gap: '24px', alignItems: 'center' }}>
+                            <div style={{ display: 'flex', flexDirection: 'column' }}>
                                 <Text weight="semibold">Status</Text>
                                 <Text size={400} style={{ 
                                     color: currentSession.status === 'completed' 
                                         ? 'var(--colorPaletteGreenForeground1)' 
                                         : currentSession.status === 'failed'
                                         ? 'var(--colorPaletteRedForeground1)'
+                                        : currentSession.status === 'rolled-back'
+                                        ? 'var(--colorNeutralForeground2)'
                                         : 'var(--colorPaletteBlueForeground1)'
                                 }}>
                                     {currentSession.status.charAt(0).toUpperCase() + currentSession.status.slice(1)}
                                 </Text>
-                            </Stack>
-                            <Stack>
+                            </div>
+                            <div style={{ display: 'flex', flexDirection: 'column' }}>
                                 <Text weight="semibold">Progress</Text>
                                 <Text size={400}>{progress.completedTasks} of {progress.totalTasks} tasks</Text>
-                            </Stack>
-                            <Stack>
+                            </div>
+                            <div style={{ display: 'flex', flexDirection: 'column' }}>
                                 <Text weight="semibold">Created</Text>
                                 <Text size={400}>{currentSession.createdAt.toLocaleString()}</Text>
-                            </Stack>
+                            </div>
                             {currentSession.completedAt && (
-                                <Stack>
+                                <div style={{ display: 'flex', flexDirection: 'column' }}>
                                     <Text weight="semibold">Completed</Text>
                                     <Text size={400}>{currentSession.completedAt.toLocaleString()}</Text>
-                                </Stack>
+                                </div>
                             )}
-                        </Stack>
+                        </div>
 
                         <ProgressBar value={progress.progressPercentage / 100} />
                         
-                        <Stack horizontal tokens={{ childrenGap: 12 }}>
+                        <div style={{ display: 'flex', gap: '12px' }}>
                             <Text size={300}>
                                 {progress.progressPercentage}% Complete
                             </Text>
@@ -158,7 +282,7 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
                                     Current: {progress.currentTask}
                                 </Text>
                             )}
-                        </Stack>
+                        </div>
 
                         {error && (
                             <MessageBar intent="error">
@@ -166,21 +290,94 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
                             </MessageBar>
                         )}
 
+                        {currentSession.blockingIssues && currentSession.blockingIssues.length > 0 && (
+                            <MessageBar intent="error">
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                                    <strong>Blocking issues</strong>
+                                    {currentSession.blockingIssues.map(issue => (
+                                        <span key={issue.id}>{issue.message}</span>
+                                    ))}
+                                </div>
+                            </MessageBar>
+                        )}
+
                         {currentSession.status === 'created' && (
-                            <Button
-                                appearance="primary"
-                                size="large"
-                                onClick={executeOffboarding}
-                                disabled={isExecuting}
-                                icon={<Play24Regular />}
-                            >
-                                {isExecuting ? 'Executing Offboarding...' : 'Start Offboarding Process'}
-                            </Button>
+                            <div style={{ display: 'flex', gap: '12px' }}>
+                                <Button
+                                    appearance="primary"
+                                    size="large"
+                                    onClick={executeOffboarding}
+                                    disabled={isExecuting || isAnalyzingOwnership || ownershipPending}
+                                    icon={<Play24Regular />}
+                                >
+                                    {isExecuting ? 'Executing Offboarding...' : 'Start Offboarding Process'}
+                                </Button>
+                                <Button
+                                    size="large"
+                                    onClick={previewPlan}
+                                    disabled={isExecuting || isPlanning}
+                                    icon={<ClipboardTaskListLtr24Regular />}
+                                >
+                                    {isPlanning ? 'Building Plan...' : 'Preview Plan'}
+                                </Button>
+                            </div>
+                        )}
+
+                        {currentSession.status === 'created' && ownershipPending && !isAnalyzingOwnership && (
+                            <MessageBar intent="warning">
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                                    <span>
+                                        {currentSession.ownershipAnalysis
+                                            ? `Hand over the ${soleOwnerIssues.length} resources ${currentSession.userDisplayName} is the only owner of before starting.`
+                                            : 'Ownership has not been checked yet. Check it before starting.'}
+                                        {' '}To remove the user from groups and teams regardless, record why.
+                                    </span>
+                                    <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-end' }}>
+                                        {!currentSession.ownershipAnalysis && (
+                                            <Button onClick={analyzeOwnership}>Check Ownership</Button>
+                                        )}
+                                        <Field label="Reason for removing anyway" style={{ flex: 1 }}>
+                                            <Input value={overrideReason} onChange={(_, data) => setOverrideReason(data.value)} />
+                                        </Field>
+                                        <Button onClick={overrideOwnershipBlock} disabled={!overrideReason.trim()}>
+                                            Record Override
+                                        </Button>
+                                    </div>
+                                </div>
+                            </MessageBar>
+                        )}
+
+                        {currentSession.ownershipOverride && (
+                            <Text size={200} style={{ color: 'var(--colorNeutralForeground3)' }}>
+                                Removal without handing over ownership approved by {currentSession.ownershipOverride.overriddenBy}
+                                {' '}on {currentSession.ownershipOverride.overriddenAt.toLocaleString()}: {currentSession.ownershipOverride.reason}
+                            </Text>
                         )}
-                    </Stack>
-                </CardBody>
+                    </div>
+                </div>
             </Card>
 
+            {/* Sole Ownership Pre-flight */}
+            {currentSession.ownershipAnalysis ? (
+                <OwnershipAnalysisView
+                    analysis={currentSession.ownershipAnalysis}
+                    userDisplayName={currentSession.userDisplayName}
+                    canReassign={currentSession.status === 'created'}
+                    isBusy={isAnalyzingOwnership || isExecuting}
+                    onReassign={reassignOwnership}
+                    onRefresh={analyzeOwnership}
+                />
+            ) : isAnalyzingOwnership && (
+                <Card>
+                    <Text>Checking what {currentSession.userDisplayName} owns...</Text>
+                </Card>
+            )}
+
+            {/* Dry Run */}
+            {plan && currentSession.status === 'created' && (
+                <OffboardingPlanView plan={plan} document={offboardingService.formatOffboardingPlan(plan)} />
+            )}
+
             {/* Task List */}
             <Card>
                 <CardHeader
@@ -190,16 +387,16 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
                         </Text>
                     }
                 />
-                <CardBody>
-                    <Stack tokens={{ childrenGap: 12 }}>
+                <div>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
                         {currentSession.tasks.map((task) => (
                             <Card key={task.id} appearance="outline">
-                                <CardBody>
-                                    <Stack horizontal tokens={{ childrenGap: 12 }} verticalAlign="start">
+                                <div>
+                                    <div style={{ display: 'flex', gap: '12px', alignItems: 'flex-start' }}>
                                         {getTaskStatusIcon(task.status as TaskStatus)}
                                         
-                                        <Stack grow={1} tokens={{ childrenGap: 4 }}>
-                                            <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
+                                        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', flexGrow: 1 }}>
+                                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
                                                 <Text weight="semibold" size={400}>
                                                     {task.name}
                                                 </Text>
@@ -219,13 +416,13 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
                                                 >
                                                     {task.priority} priority
                                                 </Badge>
-                                            </Stack>
+                                            </div>
                                             
                                             <Text size={300} style={{ color: 'var(--colorNeutralForeground2)' }}>
                                                 {task.description}
                                             </Text>
                                             
-                                            <Stack horizontal tokens={{ childrenGap: 16 }}>
+                                            <div style={{ display: 'flex', gap: '16px' }}>
                                                 {task.estimatedDuration && (
                                                     <Text size={200}>
                                                         Duration: {task.estimatedDuration}
@@ -236,7 +433,7 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
                                                         Completed: {task.completedAt.toLocaleTimeString()}
                                                     </Text>
                                                 )}
-                                            </Stack>
+                                            </div>
                                             
                                             {task.error && (
                                                 <Text size={300} style={{ color: 'var(--colorPaletteRedForeground1)' }}>
@@ -244,22 +441,96 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
                                                 </Text>
                                             )}
                                             
+                                            {task.nextRetryAt && task.status === 'in-progress' && (
+                                                <Text size={300} style={{ color: 'var(--colorPaletteMarigoldForeground1)' }}>
+                                                    Retrying at {task.nextRetryAt.toLocaleTimeString()} after attempt {task.attempts?.length}
+                                                </Text>
+                                            )}
+
+                                            {task.attempts && task.attempts.length > 1 && (
+                                                <div style={{ display: 'flex', flexDirection: 'column' }}>
+                                                    {task.attempts.map(attempt => (
+                                                        <Text key={attempt.attempt} size={200} style={{ color: 'var(--colorNeutralForeground3)' }}>
+                                                            Attempt {attempt.attempt}: {attempt.status}
+                                                            {attempt.errorCode && ` (${attempt.errorCode}${attempt.retryable ? ', retryable' : ''})`}
+                                                        </Text>
+                                                    ))}
+                                                </div>
+                                            )}
+
+                                            {task.deviceResults && task.deviceResults.length > 0 && (
+                                                <div style={{ display: 'flex', flexDirection: 'column' }}>
+                                                    {task.deviceResults.map(result => (
+                                                        <Text
+                                                            key={result.deviceId}
+                                                            size={200}
+                                                            style={{ color: result.error ? 'var(--colorPaletteRedForeground1)' : 'var(--colorNeutralForeground2)' }}
+                                                        >
+                                                            {result.displayName} ({result.ownership}):
+                                                            {result.disabled ? ' disabled' : ''}
+                                                            {result.intuneActionIssued ? ` · ${result.intuneAction} issued` : ''}
+                                                            {result.note ? ` · ${result.note}` : ''}
+                                                            {result.error ? ` · ${result.error}` : ''}
+                                                        </Text>
+                                                    ))}
+                                                </div>
+                                            )}
+
+                                            {task.scheduledDeletion && (
+                                                <Text size={200} style={{ color: 'var(--colorNeutralForeground2)' }}>
+                                                    {task.scheduledDeletion.status === 'cancelled'
+                                                        ? 'Deletion cancelled'
+                                                        : `Account deletion ${task.scheduledDeletion.status} for ${new Date(task.scheduledDeletion.deleteAt).toLocaleDateString()}`}
+                                                </Text>
+                                            )}
+
+                                            {task.manualStep && task.status === 'awaiting-manual' && (
+                                                <MessageBar intent="warning">
+                                                    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                                                        <span>{task.manualStep.instructions}</span>
+                                                        {task.manualStep.command && (
+                                                            <Text font="monospace" size={200}>{task.manualStep.command}</Text>
+                                                        )}
+                                                        {task.manualStep.lastCheckResult && (
+                                                            <Text size={200}>
+                                                                Last checked {task.manualStep.lastCheckedAt?.toLocaleTimeString()}: {task.manualStep.lastCheckResult}
+                                                            </Text>
+                                                        )}
+                                                        <div>
+                                                            <Button
+                                                                size="small"
+                                                                onClick={() => verifyManualTask(task.id)}
+                                                                disabled={verifyingTaskId !== null}
+                                                            >
+                                                                {verifyingTaskId === task.id ? 'Verifying...' : 'Verify'}
+                                                            </Button>
+                                                        </div>
+                                                    </div>
+                                                </MessageBar>
+                                            )}
+
+                                            {task.blockedReason && (
+                                                <Text size={300} style={{ color: 'var(--colorPaletteMarigoldForeground1)' }}>
+                                                    Blocked: {task.blockedReason}
+                                                </Text>
+                                            )}
+
                                             {task.dependencies && task.dependencies.length > 0 && (
                                                 <Text size={200} style={{ color: 'var(--colorNeutralForeground3)' }}>
                                                     Depends on: {task.dependencies.join(', ')}
                                                 </Text>
                                             )}
-                                        </Stack>
-                                    </Stack>
-                                </CardBody>
+                                        </div>
+                                    </div>
+                                </div>
                             </Card>
                         ))}
-                    </Stack>
-                </CardBody>
+                    </div>
+                </div>
             </Card>
 
             {/* Summary */}
-            {currentSession.status === 'completed' || currentSession.status === 'failed' && (
+            {(currentSession.status === 'completed' || currentSession.status === 'failed') && (
                 <Card>
                     <CardHeader
                         header={
@@ -268,25 +539,53 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
                             </Text>
                         }
                     />
-                    <CardBody>
-                        <Stack tokens={{ childrenGap: 12 }}>
-                            <Stack horizontal tokens={{ childrenGap: 24 }}>
-                                <Stack>
+                    <div>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                            <div style={{ display: 'flex', gap: '24px' }}>
+                                <div style={{ display: 'flex', flexDirection: 'column' }}>
                                     <Text weight="semibold" style={{ color: 'var(--colorPaletteGreenForeground1)' }}>
                                         ✓ Completed Tasks
                                     </Text>
                                     <Text size={500}>{progress.completedTasks}</Text>
-                                </Stack>
+                                </div>
                                 {progress.failedTasks > 0 && (
-                                    <Stack>
+                                    <div style={{ display: 'flex', flexDirection: 'column' }}>
                                         <Text weight="semibold" style={{ color: 'var(--colorPaletteRedForeground1)' }}>
                                             ✗ Failed Tasks
                                         </Text>
                                         <Text size={500}>{progress.failedTasks}</Text>
-                                    </Stack>
+                                    </div>
                                 )}
-                            </Stack>
+                            </div>
                             
+                            {currentSession.backupLocations && currentSession.backupLocations.length > 0 && (
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                                    <Text weight="semibold">Backup Locations</Text>
+                                    {currentSession.backupLocations.map(location => (
+                                        <div key={`${location.type}:${location.location}`} style={{ display: 'flex', flexDirection: 'column' }}>
+                                            <a href={location.location} target="_blank" rel="noreferrer">
+                                                <Text size={300}>{location.location}</Text>
+                                            </a>
+                                            <Text size={200} style={{ color: 'var(--colorNeutralForeground3)' }}>
+                                                {[
+                                                    location.size,
+                                                    location.description,
+                                                    location.accessGrantedTo && `Shared with ${location.accessGrantedTo}`,
+                                                    location.capturedAt && `Captured ${location.capturedAt.toLocaleString()}`
+                                                ].filter(Boolean).join(' · ')}
+                                            </Text>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {currentSession.tasks.some(t => t.status === 'awaiting-manual') && (
+                                <MessageBar intent="info">
+                                    <strong>Manual steps outstanding.</strong>
+                                    {' '}Complete the tasks awaiting a manual step and verify them to finish offboarding.
+                                </MessageBar>
+                            )}
+
                             {currentSession.status === 'completed' && progress.failedTasks === 0 && (
                                 <MessageBar intent="success">
                                     <strong>Offboarding completed successfully!</strong> 
@@ -307,10 +606,94 @@ export const OffboardingProgressComponent: React.FC<OffboardingProgressProps> =
                                     {' '}Critical tasks could not be completed. Please review and retry.
                                 </MessageBar>
                             )}
-                        </Stack>
-                    </CardBody>
+
+                            {canRollback && !confirmRollback && (
+                                <Button
+                                    appearance="secondary"
+                                    onClick={() => setConfirmRollback(true)}
+                                    disabled={isRollingBack}
+                                    icon={<ArrowUndo24Regular />}
+                                >
+                                    {isRollingBack ? 'Rolling Back...' : 'Roll Back Offboarding'}
+                                </Button>
+                            )}
+
+                            {confirmRollback && (
+                                <MessageBar intent="warning">
+                                    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                                        <span>
+                                            This re-enables {currentSession.userDisplayName}'s account and restores the
+                                            removed group memberships and licenses.
+                                        </span>
+                                        <div style={{ display: 'flex', gap: '8px' }}>
+                                            <Button appearance="primary" size="small" onClick={rollbackOffboarding}>
+                                                Confirm Rollback
+                                            </Button>
+                                            <Button size="small" onClick={() => setConfirmRollback(false)}>
+                                                Cancel
+                                            </Button>
+                                        </div>
+                                    </div>
+                                </MessageBar>
+                            )}
+                        </div>
+                    </div>
+                </Card>
+            )}
+
+            {/* Rollback */}
+            {currentSession.rollback && (
+                <Card>
+                    <CardHeader
+                        header={
+                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                <ArrowUndo24Regular />
+                                <Text weight="semibold" size={400}>
+                                    Rollback ({currentSession.rollback.actions.filter(a => a.status === 'completed').length} of {currentSession.rollback.actions.filter(a => a.status !== 'skipped').length} actions)
+                                </Text>
+                            </div>
+                        }
+                    />
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                        {currentSession.rollback.actions.map(action => (
+                            <div key={action.id} style={{ display: 'flex', gap: '12px', alignItems: 'flex-start' }}>
+                                {getTaskStatusIcon(action.status as TaskStatus)}
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', flexGrow: 1 }}>
+                                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                        <Text weight="semibold">{action.name}</Text>
+                                        {getTaskStatusBadge(action.status as TaskStatus)}
+                                    </div>
+                                    <Text size={300}>{action.description}</Text>
+                                    {action.error && (
+                                        <Text size={300} style={{ color: 'var(--colorPaletteRedForeground1)' }}>
+                                            Error: {action.error}
+                                        </Text>
+                                    )}
+                                    {action.blockedReason && (
+                                        <Text size={200} style={{ color: 'var(--colorNeutralForeground3)' }}>
+                                            {action.blockedReason}
+                                        </Text>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+
+                        {currentSession.rollback.status === 'completed' && (
+                            <MessageBar intent="success">
+                                <strong>Offboarding rolled back.</strong>
+                                {' '}{currentSession.userDisplayName} can sign in again with their previous access.
+                            </MessageBar>
+                        )}
+
+                        {currentSession.rollback.status === 'failed' && (
+                            <MessageBar intent="error">
+                                <strong>Rollback incomplete.</strong>
+                                {' '}Some changes could not be restored. Review the failed actions and retry the rollback.
+                            </MessageBar>
+                        )}
+                    </div>
                 </Card>
             )}
-        </Stack>
+        </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,145 @@
+import React from 'react';
+import {
+    Text,
+    Card,
+    CardHeader,
+    Badge,
+    Button,
+    MessageBar
+} from '@fluentui/react-components';
+import {
+    ArrowSync24Regular,
+    PeopleTeam24Regular
+} from '@fluentui/react-icons';
+import { OwnedResource, OwnershipAnalysis } from '../types/offboarding';
+
+interface OwnershipAnalysisViewProps {
+    analysis: OwnershipAnalysis;
+    userDisplayName: string;
+    canReassign: boolean;
+    isBusy: boolean;
+    onReassign: (resourceIds: string[], newOwner: string) => void;
+    onRefresh: () => void;
+}
+
+const resourceTypeLabels: Record<OwnedResource['resourceType'], string> = {
+    group: 'Group',
+    team: 'Team',
+    application: 'App registration',
+    servicePrincipal: 'Enterprise app'
+};
+
+export const OwnershipAnalysisView: React.FC<OwnershipAnalysisViewProps> = ({
+    analysis,
+    userDisplayName,
+    canReassign,
+    isBusy,
+    onReassign,
+    onRefresh
+}) => {
+    const soleOwned = analysis.resources.filter(r => r.ownerCount <= 1);
+    const lastReassignment = (resourceId: string) =>
+        [...analysis.reassignments].reverse().find(r => r.resourceId === resourceId);
+
+    return (
+        <Card>
+            <CardHeader
+                header={
+                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                        <PeopleTeam24Regular />
+                        <Text weight="semibold" size={400}>
+                            Ownership ({analysis.resources.length} owned, {soleOwned.length} sole owner)
+                        </Text>
+                    </div>
+                }
+                action={
+                    <Button icon={<ArrowSync24Regular />} onClick={onRefresh} disabled={isBusy}>
+                        Re-check
+                    </Button>
+                }
+            />
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                {soleOwned.length === 0 ? (
+                    <MessageBar intent="success">
+                        Nothing depends on {userDisplayName} as its only owner.
+                    </MessageBar>
+                ) : (
+                    <MessageBar intent="warning">
+                        {soleOwned.length} resources would be left without an owner. Hand them over before removal runs.
+                    </MessageBar>
+                )}
+
+                <Text size={200} style={{ color: 'var(--colorNeutralForeground3)' }}>
+                    SharePoint sites without a Microsoft 365 group (communication and classic sites) are not checked.
+                    Review their owners and site admins in the SharePoint admin center.
+                </Text>
+
+                {soleOwned.length > 0 && canReassign && (
+                    analysis.candidates.length > 0 ? (
+                        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+                            {analysis.candidates.map(candidate => (
+                                <Button
+                                    key={candidate.userPrincipalName}
+                                    appearance="primary"
+                                    disabled={isBusy}
+                                    onClick={() => onReassign(soleOwned.map(r => r.id), candidate.userPrincipalName)}
+                                >
+                                    Add {candidate.displayName} ({candidate.role}) as owner of all
+                                </Button>
+                            ))}
+                        </div>
+                    ) : (
+                        <Text size={300} style={{ color: 'var(--colorNeutralForeground3)' }}>
+                            No manager or successor found. Set teamsSuccessor or oneDriveSuccessor, or add owners directly.
+                        </Text>
+                    )
+                )}
+
+                {analysis.resources.map(resource => {
+                    const reassignment = lastReassignment(resource.id);
+                    const isSoleOwner = resource.ownerCount <= 1;
+
+                    return (
+                        <Card key={resource.id} appearance="outline">
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                                <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                    <Text weight="semibold">{resource.displayName}</Text>
+                                    <Badge appearance="outline">{resourceTypeLabels[resource.resourceType]}</Badge>
+                                    {isSoleOwner && <Badge appearance="filled" color="danger">Only owner</Badge>}
+                                </div>
+                                <Text size={200} style={{ color: 'var(--colorNeutralForeground3)' }}>
+                                    {resource.ownerCount} owner{resource.ownerCount === 1 ? '' : 's'}
+                                    {resource.siteUrl && ` · SharePoint site ${resource.siteUrl}`}
+                                </Text>
+                                {reassignment && (
+                                    <Text
+                                        size={200}
+                                        style={{ color: reassignment.status === 'failed' ? 'var(--colorPaletteRedForeground1)' : 'var(--colorPaletteGreenForeground1)' }}
+                                    >
+                                        {reassignment.status === 'failed'
+                                            ? `Could not add ${reassignment.newOwner}: ${reassignment.error}`
+                                            : `${reassignment.newOwner} added as owner`}
+                                    </Text>
+                                )}
+                                {isSoleOwner && canReassign && analysis.candidates.length > 0 && (
+                                    <div style={{ display: 'flex', gap: '8px' }}>
+                                        {analysis.candidates.map(candidate => (
+                                            <Button
+                                                key={candidate.userPrincipalName}
+                                                size="small"
+                                                disabled={isBusy}
+                                                onClick={() => onReassign([resource.id], candidate.userPrincipalName)}
+                                            >
+                                                Add {candidate.displayName}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </Card>
+                    );
+                })}
+            </div>
+        </Card>
+    );
+};
@@ -2,17 +2,12 @@ import React, { useState, useCallback } from 'react';
 import {
     SearchBox,
     Persona,
-    PersonaSize,
-    PersonaPresence,
-    Stack,
     Text,
     Spinner,
     MessageBar,
-    MessageBarType,
     Button,
     Card,
-    CardHeader,
-    CardBody
+    CardHeader
 } from '@fluentui/react-components';
 import {
     Person24Regular,
@@ -20,10 +15,10 @@ import {
     PersonDelete24Regular
 } from '@fluentui/react-icons';
 import { User } from '../types/offboarding';
-import { MicrosoftGraphService } from '../services/graphService';
+import { GraphService } from '../services/graphService';
 
 interface UserSearchProps {
-    graphService: MicrosoftGraphService;
+    graphService: GraphService;
     onUserSelected: (user: User) => void;
 }
 
@@ -63,7 +58,6 @@ export const UserSearch: React.FC<UserSearchProps> = ({ graphService, onUserSele
             // Get full user details including groups, devices, etc.
             const fullUser = await graphService.getUser(user.id);
             setSelectedUser(fullUser);
-            onUserSelected(fullUser);
         } catch (error) {
             console.error('Error getting user details:', error);
             setError('Failed to get user details. Please try again.');
@@ -79,21 +73,21 @@ export const UserSearch: React.FC<UserSearchProps> = ({ graphService, onUserSele
     };
 
     return (
-        <Stack tokens={{ childrenGap: 20 }}>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '20px' }}>
             {/* Search Section */}
             <Card>
                 <CardHeader
                     header={
-                        <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
+                        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
                             <Person24Regular />
                             <Text weight="semibold" size={400}>
                                 Search Employee for Offboarding
                             </Text>
-                        </Stack>
+                        </div>
                     }
                 />
-                <CardBody>
-                    <Stack tokens={{ childrenGap: 16 }}>
+                <div>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
                         <SearchBox
                             placeholder="Search by name, email, or username..."
                             value={searchQuery}
@@ -112,13 +106,13 @@ export const UserSearch: React.FC<UserSearchProps> = ({ graphService, onUserSele
                         )}
 
                         {isSearching && (
-                            <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
+                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
                                 <Spinner size="tiny" />
                                 <Text>Searching...</Text>
-                            </Stack>
+                            </div>
                         )}
-                    </Stack>
-                </CardBody>
+                    </div>
+                </div>
             </Card>
 
             {/* Search Results */}
@@ -131,24 +125,24 @@ export const UserSearch: React.FC<UserSearchProps> = ({ graphService, onUserSele
                             </Text>
                         }
                     />
-                    <CardBody>
-                        <Stack tokens={{ childrenGap: 12 }}>
+                    <div>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
                             {searchResults.map((user) => (
                                 <Card
                                     key={user.id}
                                     style={{ cursor: 'pointer' }}
                                     onClick={() => handleUserSelection(user)}
                                 >
-                                    <CardBody>
-                                        <Stack horizontal tokens={{ childrenGap: 12 }} verticalAlign="center">
+                                    <div>
+                                        <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
                                             <Persona
                                                 name={user.displayName}
                                                 secondaryText={user.userPrincipalName}
                                                 tertiaryText={user.jobTitle}
-                                                size={PersonaSize.size48}
-                                                presence={user.accountEnabled ? PersonaPresence.online : PersonaPresence.busy}
+                                                size="extra-large"
+                                                presence={{ status: user.accountEnabled ? 'available' : 'busy' }}
                                             />
-                                            <Stack grow={1}>
+                                            <div style={{ display: 'flex', flexDirection: 'column', flexGrow: 1 }}>
                                                 <Text weight="semibold">{user.displayName}</Text>
                                                 <Text size={300}>{user.userPrincipalName}</Text>
                                                 {user.jobTitle && (
@@ -161,13 +155,13 @@ export const UserSearch: React.FC<UserSearchProps> = ({ graphService, onUserSele
                                                 }}>
                                                     {user.accountEnabled ? 'Active' : 'Disabled'}
                                                 </Text>
-                                            </Stack>
-                                        </Stack>
-                                    </CardBody>
+                                            </div>
+                                        </div>
+                                    </div>
                                 </Card>
                             ))}
-                        </Stack>
-                    </CardBody>
+                        </div>
+                    </div>
                 </Card>
             )}
 
@@ -176,25 +170,25 @@ export const UserSearch: React.FC<UserSearchProps> = ({ graphService, onUserSele
                 <Card>
                     <CardHeader
                         header={
-                            <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
+                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
                                 <PersonDelete24Regular />
                                 <Text weight="semibold" size={400}>
                                     Selected Employee for Offboarding
                                 </Text>
-                            </Stack>
+                            </div>
                         }
                     />
-                    <CardBody>
-                        <Stack tokens={{ childrenGap: 16 }}>
-                            <Stack horizontal tokens={{ childrenGap: 16 }} verticalAlign="start">
+                    <div>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+                            <div style={{ display: 'flex', gap: '16px', alignItems: 'flex-start' }}>
                                 <Persona
                                     name={selectedUser.displayName}
                                     secondaryText={selectedUser.userPrincipalName}
                                     tertiaryText={selectedUser.jobTitle}
-                                    size={PersonaSize.size72}
-                                    presence={selectedUser.accountEnabled ? PersonaPresence.online : PersonaPresence.busy}
+                                    size="huge"
+                                    presence={{ status: selectedUser.accountEnabled ? 'available' : 'busy' }}
                                 />
-                                <Stack grow={1} tokens={{ childrenGap: 8 }}>
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', flexGrow: 1 }}>
                                     <Text weight="semibold" size={500}>{selectedUser.displayName}</Text>
                                     <Text size={300}>{selectedUser.userPrincipalName}</Text>
                                     {selectedUser.jobTitle && (
@@ -206,24 +200,24 @@ export const UserSearch: React.FC<UserSearchProps> = ({ graphService, onUserSele
                                     {selectedUser.employeeId && (
                                         <Text size={300}>Employee ID: {selectedUser.employeeId}</Text>
                                     )}
-                                </Stack>
-                            </Stack>
+                                </div>
+                            </div>
 
                             {/* User Statistics */}
-                            <Stack horizontal tokens={{ childrenGap: 24 }}>
-                                <Stack>
+                            <div style={{ display: 'flex', gap: '24px' }}>
+                                <div style={{ display: 'flex', flexDirection: 'column' }}>
                                     <Text weight="semibold">Group Memberships</Text>
                                     <Text size={400}>{selectedUser.memberOf?.length || 0} groups</Text>
-                                </Stack>
-                                <Stack>
+                                </div>
+                                <div style={{ display: 'flex', flexDirection: 'column' }}>
                                     <Text weight="semibold">Licenses</Text>
                                     <Text size={400}>{selectedUser.assignedLicenses?.length || 0} licenses</Text>
-                                </Stack>
-                                <Stack>
+                                </div>
+                                <div style={{ display: 'flex', flexDirection: 'column' }}>
                                     <Text weight="semibold">Devices</Text>
                                     <Text size={400}>{selectedUser.ownedDevices?.length || 0} devices</Text>
-                                </Stack>
-                                <Stack>
+                                </div>
+                                <div style={{ display: 'flex', flexDirection: 'column' }}>
                                     <Text weight="semibold">Status</Text>
                                     <Text 
                                         size={400}
@@ -235,8 +229,8 @@ export const UserSearch: React.FC<UserSearchProps> = ({ graphService, onUserSele
                                     >
                                         {selectedUser.accountEnabled ? 'Active' : 'Disabled'}
                                     </Text>
-                                </Stack>
-                            </Stack>
+                                </div>
+                            </div>
 
                             {selectedUser.accountEnabled && (
                                 <MessageBar intent="warning">
@@ -254,10 +248,10 @@ export const UserSearch: React.FC<UserSearchProps> = ({ graphService, onUserSele
                             >
                                 {selectedUser.accountEnabled ? 'Start Offboarding Process' : 'User Already Disabled'}
                             </Button>
-                        </Stack>
-                    </CardBody>
+                        </div>
+                    </div>
                 </Card>
             )}
-        </Stack>
+        </div>
     );
 };
\ No newline at end of file
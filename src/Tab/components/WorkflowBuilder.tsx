@@ -0,0 +1,728 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+    Badge,
+    Button,
+    Card,
+    CardHeader,
+    Checkbox,
+    Field,
+    Input,
+    MessageBar,
+    Select,
+    Spinner,
+    Text,
+    Textarea
+} from '@fluentui/react-components';
+import {
+    Add16Regular,
+    Delete16Regular,
+    Flowchart24Regular,
+    Save16Regular
+} from '@fluentui/react-icons';
+import { Workflow, WorkflowDiagnostic, WorkflowStep, WorkflowStepType } from '../types/workflow';
+import { WorkflowApiService } from '../services/workflowApiService';
+
+interface WorkflowBuilderProps {
+    api: WorkflowApiService;
+    initialWorkflowId?: string;
+}
+
+interface Edge {
+    from: WorkflowStep;
+    to: WorkflowStep;
+    label?: string;
+    isLoop: boolean;
+}
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 64;
+const CANVAS_MARGIN = 200;
+
+const STEP_COLORS: Record<WorkflowStepType, string> = {
+    task: '#0078d4',
+    approval: '#8764b8',
+    notification: '#038387',
+    integration: '#ca5010',
+    condition: '#c19c00',
+    delay: '#69797e'
+};
+
+const STEP_ICONS: Record<WorkflowStepType, string> = {
+    task: '✅',
+    approval: '🖊️',
+    notification: '📣',
+    integration: '🔌',
+    condition: '🔀',
+    delay: '⏳'
+};
+
+const DEFAULT_CONFIGS: Record<WorkflowStepType, WorkflowStep['config']> = {
+    task: { taskType: 'custom', assignedTo: 'hr', dueInDays: 1 },
+    approval: { approvalTemplate: 'standard-offboarding' },
+    notification: { notificationType: 'email', recipients: [] },
+    integration: { integrationType: 'custom', endpoint: '/', method: 'POST' },
+    condition: {
+        condition: { field: 'employee.department', operator: 'equals', value: '', trueStep: '', falseStep: '' }
+    },
+    delay: { delayDays: 1 }
+};
+
+/**
+ * Visual workflow builder
+ *
+ * Renders workflow steps as draggable nodes on a canvas with their
+ * connections drawn as edges. Every change is saved straight away through
+ * the workflow API and re-validated, so diagnostics stay live.
+ */
+export const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({
+    api,
+    initialWorkflowId
+}) => {
+    const canvasRef = useRef<HTMLDivElement>(null);
+
+    const [workflows, setWorkflows] = useState<Workflow[]>([]);
+    const [workflowId, setWorkflowId] = useState<string | undefined>(initialWorkflowId);
+    const [workflow, setWorkflow] = useState<Workflow | null>(null);
+    const [diagnostics, setDiagnostics] = useState<WorkflowDiagnostic[]>([]);
+    const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+    const [connectingFrom, setConnectingFrom] = useState<string | null>(null);
+    const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+    const [dragging, setDragging] = useState<{ stepId: string; offsetX: number; offsetY: number; moved: boolean } | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async (id: string) => {
+        try {
+            const [loaded, validation] = await Promise.all([api.getWorkflow(id), api.validateWorkflow(id)]);
+            setWorkflow(loaded);
+            setDiagnostics(validation.diagnostics);
+            setError(null);
+        } catch (error) {
+            console.error('Failed to load workflow:', error);
+            setError(error instanceof Error ? error.message : 'Failed to load workflow');
+        }
+    }, [api]);
+
+    // Run a change against the API, then reload the workflow and its diagnostics
+    const apply = useCallback(async (change: () => Promise<unknown>) => {
+        if (!workflowId) return;
+        setIsLoading(true);
+        try {
+            await change();
+        } catch (error) {
+            console.error('Workflow change failed:', error);
+            setError(error instanceof Error ? error.message : 'Failed to save workflow');
+        } finally {
+            await refresh(workflowId);
+            setIsLoading(false);
+        }
+    }, [workflowId, refresh]);
+
+    useEffect(() => {
+        api.listWorkflows()
+            .then(list => {
+                setWorkflows(list);
+                if (!workflowId && list.length > 0) {
+                    setWorkflowId(list[0].id);
+                }
+            })
+            .catch(error => setError(error instanceof Error ? error.message : 'Failed to load workflows'));
+    }, [api]);
+
+    useEffect(() => {
+        if (workflowId) {
+            setSelectedStepId(null);
+            setConnectingFrom(null);
+            refresh(workflowId);
+        }
+    }, [workflowId, refresh]);
+
+    useEffect(() => {
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') setConnectingFrom(null);
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, []);
+
+    const toCanvasPoint = (event: React.MouseEvent) => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        return {
+            x: event.clientX - rect.left + canvasRef.current!.scrollLeft,
+            y: event.clientY - rect.top + canvasRef.current!.scrollTop
+        };
+    };
+
+    const handleNodeMouseDown = (event: React.MouseEvent, step: WorkflowStep) => {
+        if (connectingFrom) return;
+        event.stopPropagation();
+        const point = toCanvasPoint(event);
+        setSelectedStepId(step.id);
+        setDragging({ stepId: step.id, offsetX: point.x - step.position.x, offsetY: point.y - step.position.y, moved: false });
+    };
+
+    const handleCanvasMouseMove = (event: React.MouseEvent) => {
+        const point = toCanvasPoint(event);
+        if (connectingFrom) {
+            setPointer(point);
+        }
+        if (!dragging || !workflow) return;
+
+        const position = {
+            x: Math.max(0, Math.round(point.x - dragging.offsetX)),
+            y: Math.max(0, Math.round(point.y - dragging.offsetY))
+        };
+        setDragging({ ...dragging, moved: true });
+        setWorkflow({
+            ...workflow,
+            steps: workflow.steps.map(s => (s.id === dragging.stepId ? { ...s, position } : s))
+        });
+    };
+
+    const handleCanvasMouseUp = () => {
+        if (!dragging || !workflow) return;
+        const step = workflow.steps.find(s => s.id === dragging.stepId);
+        setDragging(null);
+        if (step && dragging.moved) {
+            apply(() => api.updateWorkflowStep(workflow.id, step.id, { position: step.position }));
+        }
+    };
+
+    const handleNodeClick = (event: React.MouseEvent, step: WorkflowStep) => {
+        event.stopPropagation();
+        if (!connectingFrom || !workflow) return;
+
+        const fromStepId = connectingFrom;
+        setConnectingFrom(null);
+        setPointer(null);
+        if (fromStepId !== step.id) {
+            apply(() => api.connectWorkflowSteps(workflow.id, fromStepId, step.id));
+        }
+    };
+
+    const addStep = (type: WorkflowStepType) => {
+        if (!workflow) return;
+        const rightmost = workflow.steps.reduce((max, s) => Math.max(max, s.position.x), -NODE_WIDTH);
+        apply(async () => {
+            const step = await api.addWorkflowStep(workflow.id, {
+                type,
+                name: `New ${type} step`,
+                config: JSON.parse(JSON.stringify(DEFAULT_CONFIGS[type])),
+                position: { x: rightmost + NODE_WIDTH + 60, y: 100 },
+                connections: []
+            });
+            setSelectedStepId(step.id);
+        });
+    };
+
+    const publish = () => {
+        if (!workflow) return;
+        apply(() => api.publishWorkflow(workflow.id));
+    };
+
+    const edges = workflow ? getEdges(workflow) : [];
+    const selectedStep = workflow?.steps.find(s => s.id === selectedStepId) || null;
+    const connectingStep = workflow?.steps.find(s => s.id === connectingFrom);
+    const canvasWidth = Math.max(1000, ...(workflow?.steps.map(s => s.position.x + NODE_WIDTH + CANVAS_MARGIN) || []));
+    const canvasHeight = Math.max(560, ...(workflow?.steps.map(s => s.position.y + NODE_HEIGHT + CANVAS_MARGIN) || []));
+    const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+            {/* Toolbar */}
+            <Card>
+                <CardHeader
+                    header={
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                            <Flowchart24Regular />
+                            <Text weight="semibold" size={400}>Workflow Builder</Text>
+                            {workflow && (
+                                <Badge appearance="tint" color={workflow.status === 'draft' ? 'warning' : 'success'}>
+                                    v{workflow.version} {workflow.status}
+                                </Badge>
+                            )}
+                            {isLoading && <Spinner size="tiny" />}
+                        </div>
+                    }
+                    action={
+                        <Button
+                            appearance="primary"
+                            onClick={publish}
+                            disabled={!workflow || workflow.status !== 'draft' || errorCount > 0 || isLoading}
+                        >
+                            Publish
+                        </Button>
+                    }
+                />
+                <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px', padding: '0 12px 12px' }}>
+                    <Select
+                        value={workflowId || ''}
+                        onChange={(_, data) => setWorkflowId(data.value)}
+                        aria-label="Workflow"
+                    >
+                        {workflows.map(w => (
+                            <option key={w.id} value={w.id}>
+                                {w.name}{w.isTemplate ? ' (template)' : ''}
+                            </option>
+                        ))}
+                    </Select>
+                    {(Object.keys(STEP_COLORS) as WorkflowStepType[]).map(type => (
+                        <Button
+                            key={type}
+                            size="small"
+                            icon={<Add16Regular />}
+                            onClick={() => addStep(type)}
+                            disabled={!workflow || isLoading}
+                        >
+                            {type}
+                        </Button>
+                    ))}
+                    {connectingStep && (
+                        <Text size={200} style={{ color: '#605e5c' }}>
+                            Click a step to connect it after "{connectingStep.name}" (Esc to cancel)
+                        </Text>
+                    )}
+                </div>
+            </Card>
+
+            {error && <MessageBar intent="error">{error}</MessageBar>}
+
+            <div style={{ display: 'flex', gap: '16px', alignItems: 'flex-start' }}>
+                {/* Canvas */}
+                <div
+                    ref={canvasRef}
+                    onMouseMove={handleCanvasMouseMove}
+                    onMouseUp={handleCanvasMouseUp}
+                    onMouseLeave={handleCanvasMouseUp}
+                    onClick={() => {
+                        setConnectingFrom(null);
+                        setSelectedStepId(null);
+                    }}
+                    style={{
+                        flex: 1,
+                        height: '600px',
+                        overflow: 'auto',
+                        position: 'relative',
+                        border: '1px solid #e1dfdd',
+                        borderRadius: '8px',
+                        background: '#faf9f8',
+                        backgroundImage: 'radial-gradient(#e1dfdd 1px, transparent 1px)',
+                        backgroundSize: '20px 20px',
+                        cursor: connectingFrom ? 'crosshair' : 'default',
+                        userSelect: 'none'
+                    }}
+                >
+                    <svg
+                        width={canvasWidth}
+                        height={canvasHeight}
+                        style={{ position: 'absolute', top: 0, left: 0, pointerEvents: 'none' }}
+                    >
+                        <defs>
+                            <marker id="workflow-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+                                <path d="M 0 0 L 10 5 L 0 10 z" fill="#8a8886" />
+                            </marker>
+                        </defs>
+                        {edges.map(edge => {
+                            const start = { x: edge.from.position.x + NODE_WIDTH, y: edge.from.position.y + NODE_HEIGHT / 2 };
+                            const end = { x: edge.to.position.x, y: edge.to.position.y + NODE_HEIGHT / 2 };
+                            return (
+                                <g key={`${edge.from.id}-${edge.to.id}-${edge.label || ''}`}>
+                                    <path
+                                        d={curve(start, end)}
+                                        fill="none"
+                                        stroke={edge.isLoop ? '#c19c00' : '#8a8886'}
+                                        strokeWidth={2}
+                                        strokeDasharray={edge.isLoop ? '6 4' : undefined}
+                                        markerEnd="url(#workflow-arrow)"
+                                    />
+                                    {edge.label && (
+                                        <text x={(start.x + end.x) / 2} y={(start.y + end.y) / 2 - 6} fontSize="11" fill="#605e5c">
+                                            {edge.label}
+                                        </text>
+                                    )}
+                                </g>
+                            );
+                        })}
+                        {connectingStep && pointer && (
+                            <path
+                                d={curve(
+                                    { x: connectingStep.position.x + NODE_WIDTH, y: connectingStep.position.y + NODE_HEIGHT / 2 },
+                                    pointer
+                                )}
+                                fill="none"
+                                stroke="#0078d4"
+                                strokeWidth={2}
+                                strokeDasharray="4 4"
+                            />
+                        )}
+                    </svg>
+
+                    {workflow?.steps.map(step => {
+                        const stepDiagnostics = diagnostics.filter(d => d.stepId === step.id);
+                        const hasError = stepDiagnostics.some(d => d.severity === 'error');
+                        const hasWarning = stepDiagnostics.length > 0;
+                        const isSelected = step.id === selectedStepId;
+
+                        return (
+                            <div
+                                key={step.id}
+                                onMouseDown={(e) => handleNodeMouseDown(e, step)}
+                                onClick={(e) => handleNodeClick(e, step)}
+                                title={stepDiagnostics.map(d => d.message).join('\n') || step.description}
+                                style={{
+                                    position: 'absolute',
+                                    left: step.position.x,
+                                    top: step.position.y,
+                                    width: NODE_WIDTH,
+                                    height: NODE_HEIGHT,
+                                    boxSizing: 'border-box',
+                                    background: 'white',
+                                    borderRadius: '6px',
+                                    border: `2px solid ${hasError ? '#d13438' : hasWarning ? '#ffaa44' : isSelected ? '#0078d4' : '#e1dfdd'}`,
+                                    borderLeft: `6px solid ${STEP_COLORS[step.type]}`,
+                                    boxShadow: isSelected ? '0 4px 12px rgba(0,0,0,0.15)' : '0 1px 3px rgba(0,0,0,0.1)',
+                                    padding: '8px 10px',
+                                    cursor: connectingFrom ? 'crosshair' : 'move'
+                                }}
+                            >
+                                <div style={{ fontSize: '11px', color: '#605e5c' }}>
+                                    {STEP_ICONS[step.type]} {step.type}
+                                    {step.id === workflow.startStepId && ' • start'}
+                                </div>
+                                <div style={{
+                                    fontWeight: 600,
+                                    color: '#323130',
+                                    overflow: 'hidden',
+                                    textOverflow: 'ellipsis',
+                                    whiteSpace: 'nowrap'
+                                }}>
+                                    {step.name}
+                                </div>
+                                {/* Output handle: click to start a connection */}
+                                <div
+                                    onMouseDown={(e) => e.stopPropagation()}
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        setConnectingFrom(step.id);
+                                        setPointer(null);
+                                    }}
+                                    title="Connect to another step"
+                                    style={{
+                                        position: 'absolute',
+                                        right: -8,
+                                        top: NODE_HEIGHT / 2 - 10,
+                                        width: 12,
+                                        height: 12,
+                                        borderRadius: '50%',
+                                        background: connectingFrom === step.id ? '#0078d4' : 'white',
+                                        border: '2px solid #0078d4',
+                                        cursor: 'crosshair'
+                                    }}
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Side panel */}
+                <div style={{ width: '320px', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+                    {workflow && selectedStep && (
+                        <StepConfigPanel
+                            key={`${selectedStep.id}:${JSON.stringify([selectedStep.name, selectedStep.description, selectedStep.config])}`}
+                            workflow={workflow}
+                            step={selectedStep}
+                            disabled={isLoading}
+                            onSave={(updates) => apply(() => api.updateWorkflowStep(workflow.id, selectedStep.id, updates))}
+                            onRemove={() => apply(async () => {
+                                await api.removeWorkflowStep(workflow.id, selectedStep.id);
+                                setSelectedStepId(null);
+                            })}
+                        />
+                    )}
+
+                    <Card>
+                        <CardHeader
+                            header={
+                                <Text weight="semibold">
+                                    Validation {diagnostics.length === 0 ? '✓' : `(${errorCount} errors, ${diagnostics.length - errorCount} warnings)`}
+                                </Text>
+                            }
+                        />
+                        <div style={{ padding: '0 12px 12px', display: 'flex', flexDirection: 'column', gap: '8px', maxHeight: '260px', overflowY: 'auto' }}>
+                            {diagnostics.length === 0 && (
+                                <Text size={200} style={{ color: '#107c10' }}>No problems found</Text>
+                            )}
+                            {diagnostics.map((diagnostic, index) => (
+                                <MessageBar
+                                    key={`${diagnostic.code}-${diagnostic.stepId || ''}-${index}`}
+                                    intent={diagnostic.severity === 'error' ? 'error' : 'warning'}
+                                    onClick={() => diagnostic.stepId && setSelectedStepId(diagnostic.stepId)}
+                                    style={{ cursor: diagnostic.stepId ? 'pointer' : 'default' }}
+                                >
+                                    {diagnostic.message}
+                                </MessageBar>
+                            ))}
+                        </div>
+                    </Card>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface StepConfigPanelProps {
+    workflow: Workflow;
+    step: WorkflowStep;
+    disabled: boolean;
+    onSave: (updates: Partial<Omit<WorkflowStep, 'id'>>) => void;
+    onRemove: () => void;
+}
+
+/**
+ * Side panel for editing a step's name, configuration and connections
+ */
+const StepConfigPanel: React.FC<StepConfigPanelProps> = ({ workflow, step, disabled, onSave, onRemove }) => {
+    const [name, setName] = useState(step.name);
+    const [description, setDescription] = useState(step.description || '');
+    const [config, setConfig] = useState<WorkflowStep['config']>(JSON.parse(JSON.stringify(step.config)));
+    const { trueStep = '', falseStep = '', ...expression } = step.config.condition || { trueStep: '', falseStep: '' };
+    const [conditionText, setConditionText] = useState(JSON.stringify(expression, null, 2));
+    const [conditionError, setConditionError] = useState<string | null>(null);
+    const [branches, setBranches] = useState({ trueStep, falseStep });
+
+    const setField = (key: keyof WorkflowStep['config'], value: any) => {
+        setConfig(current => ({ ...current, [key]: value === '' ? undefined : value }));
+    };
+
+    const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+    const toList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+    const otherSteps = workflow.steps.filter(s => s.id !== step.id);
+
+    const save = () => {
+        const updates: Partial<Omit<WorkflowStep, 'id'>> = { name, description: description || undefined, config };
+
+        if (step.type === 'condition') {
+            try {
+                updates.config = { ...config, condition: { ...JSON.parse(conditionText), ...branches } };
+                setConditionError(null);
+            } catch (error) {
+                setConditionError(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+                return;
+            }
+        }
+
+        onSave(updates);
+    };
+
+    const removeConnection = (targetId: string) => {
+        onSave({
+            connections: step.connections.filter(c => c !== targetId),
+            loopConnections: step.loopConnections?.filter(c => c !== targetId)
+        });
+    };
+
+    const toggleLoop = (targetId: string) => {
+        const loops = step.loopConnections || [];
+        onSave({
+            loopConnections: loops.includes(targetId) ? loops.filter(c => c !== targetId) : [...loops, targetId]
+        });
+    };
+
+    const stepName = (id: string) => workflow.steps.find(s => s.id === id)?.name || id;
+
+    return (
+        <Card>
+            <CardHeader
+                header={<Text weight="semibold">{STEP_ICONS[step.type]} Edit {step.type} step</Text>}
+                description={<Text size={200} style={{ color: '#605e5c' }}>{step.id}</Text>}
+            />
+            <div style={{ padding: '0 12px 12px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                <Field label="Name" required>
+                    <Input value={name} onChange={(_, data) => setName(data.value)} />
+                </Field>
+                <Field label="Description">
+                    <Textarea value={description} onChange={(_, data) => setDescription(data.value)} resize="vertical" />
+                </Field>
+
+                {step.type === 'task' && (
+                    <>
+                        <Field label="Task type">
+                            <Select value={config.taskType || 'custom'} onChange={(_, data) => setField('taskType', data.value)}>
+                                <option value="revoke_access">Revoke access</option>
+                                <option value="transfer_data">Transfer data</option>
+                                <option value="collect_asset">Collect asset</option>
+                                <option value="custom">Custom</option>
+                            </Select>
+                        </Field>
+                        <Field label="Assigned to">
+                            <Input value={config.assignedTo || ''} onChange={(_, data) => setField('assignedTo', data.value)} />
+                        </Field>
+                        <Field label="Due in days">
+                            <Input type="number" value={String(config.dueInDays ?? '')} onChange={(_, data) => setField('dueInDays', toNumber(data.value))} />
+                        </Field>
+                    </>
+                )}
+
+                {step.type === 'approval' && (
+                    <Field label="Approval template">
+                        <Select value={config.approvalTemplate || ''} onChange={(_, data) => setField('approvalTemplate', data.value)}>
+                            <option value="">Default</option>
+                            <option value="standard-offboarding">Standard offboarding</option>
+                            <option value="high-risk-offboarding">High-risk offboarding</option>
+                        </Select>
+                    </Field>
+                )}
+
+                {step.type === 'notification' && (
+                    <>
+                        <Field label="Channel">
+                            <Select value={config.notificationType || 'email'} onChange={(_, data) => setField('notificationType', data.value)}>
+                                <option value="email">Email</option>
+                                <option value="teams">Teams</option>
+                                <option value="slack">Slack</option>
+                                <option value="sms">SMS</option>
+                            </Select>
+                        </Field>
+                        <Field label="Recipients" hint="Comma separated, e.g. {{managerEmail}}">
+                            <Input
+                                value={(config.recipients || []).join(', ')}
+                                onChange={(_, data) => setField('recipients', toList(data.value))}
+                            />
+                        </Field>
+                        <Field label="Template">
+                            <Input value={config.template || ''} onChange={(_, data) => setField('template', data.value)} />
+                        </Field>
+                    </>
+                )}
+
+                {step.type === 'integration' && (
+                    <>
+                        <Field label="System">
+                            <Select value={config.integrationType || 'custom'} onChange={(_, data) => setField('integrationType', data.value)}>
+                                <option value="workday">Workday</option>
+                                <option value="servicenow">ServiceNow</option>
+                                <option value="bamboohr">BambooHR</option>
+                                <option value="slack">Slack</option>
+                                <option value="custom">Custom</option>
+                            </Select>
+                        </Field>
+                        <Field label="Method">
+                            <Select value={config.method || 'POST'} onChange={(_, data) => setField('method', data.value)}>
+                                <option value="GET">GET</option>
+                                <option value="POST">POST</option>
+                                <option value="PUT">PUT</option>
+                                <option value="DELETE">DELETE</option>
+                            </Select>
+                        </Field>
+                        <Field label="Endpoint">
+                            <Input value={config.endpoint || ''} onChange={(_, data) => setField('endpoint', data.value)} />
+                        </Field>
+                        <Checkbox
+                            label="Skip when no integration of this kind is enabled"
+                            checked={!!config.optional}
+                            onChange={(_, data) => setField('optional', data.checked === true || undefined)}
+                        />
+                    </>
+                )}
+
+                {step.type === 'condition' && (
+                    <>
+                        <Field
+                            label="Expression (JSON)"
+                            hint='e.g. { "field": "employee.department", "operator": "equals", "value": "Finance" }'
+                            validationMessage={conditionError || undefined}
+                        >
+                            <Textarea
+                                value={conditionText}
+                                onChange={(_, data) => setConditionText(data.value)}
+                                rows={6}
+                                style={{ fontFamily: 'monospace' }}
+                            />
+                        </Field>
+                        <Field label="If true, go to">
+                            <Select value={branches.trueStep} onChange={(_, data) => setBranches({ ...branches, trueStep: data.value })}>
+                                <option value="">Select a step…</option>
+                                {otherSteps.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </Select>
+                        </Field>
+                        <Field label="If false, go to">
+                            <Select value={branches.falseStep} onChange={(_, data) => setBranches({ ...branches, falseStep: data.value })}>
+                                <option value="">Select a step…</option>
+                                {otherSteps.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </Select>
+                        </Field>
+                    </>
+                )}
+
+                {step.type === 'delay' && (
+                    <>
+                        <Field label="Delay (days)">
+                            <Input type="number" value={String(config.delayDays ?? '')} onChange={(_, data) => setField('delayDays', toNumber(data.value))} />
+                        </Field>
+                        <Field label="Delay (hours)">
+                            <Input type="number" value={String(config.delayHours ?? '')} onChange={(_, data) => setField('delayHours', toNumber(data.value))} />
+                        </Field>
+                    </>
+                )}
+
+                {step.connections.length > 0 && (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                        <Text weight="semibold" size={200}>Connections</Text>
+                        {step.connections.map(targetId => (
+                            <div key={targetId} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                                <Text size={200} style={{ flex: 1 }}>→ {stepName(targetId)}</Text>
+                                <Button size="small" appearance="subtle" onClick={() => toggleLoop(targetId)} disabled={disabled}>
+                                    {step.loopConnections?.includes(targetId) ? 'Loop ✓' : 'Loop'}
+                                </Button>
+                                <Button
+                                    size="small"
+                                    appearance="subtle"
+                                    icon={<Delete16Regular />}
+                                    onClick={() => removeConnection(targetId)}
+                                    disabled={disabled}
+                                    aria-label={`Remove connection to ${stepName(targetId)}`}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    <Button appearance="primary" icon={<Save16Regular />} onClick={save} disabled={disabled || !name.trim()}>
+                        Save
+                    </Button>
+                    <Button icon={<Delete16Regular />} onClick={onRemove} disabled={disabled}>
+                        Delete step
+                    </Button>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+function getEdges(workflow: Workflow): Edge[] {
+    const byId = new Map(workflow.steps.map(s => [s.id, s]));
+    const edges: Edge[] = [];
+
+    workflow.steps.forEach(step => {
+        const add = (targetId: string, label?: string) => {
+            const target = byId.get(targetId);
+            if (target) {
+                edges.push({ from: step, to: target, label, isLoop: !!step.loopConnections?.includes(targetId) });
+            }
+        };
+
+        step.connections.forEach(targetId => add(targetId));
+        if (step.config.condition) {
+            add(step.config.condition.trueStep, 'true');
+            add(step.config.condition.falseStep, 'false');
+        }
+    });
+
+    return edges;
+}
+
+function curve(start: { x: number; y: number }, end: { x: number; y: number }): string {
+    const bend = Math.max(40, Math.abs(end.x - start.x) / 2);
+    return `M ${start.x} ${start.y} C ${start.x + bend} ${start.y}, ${end.x - bend} ${end.y}, ${end.x} ${end.y}`;
+}
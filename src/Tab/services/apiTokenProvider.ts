@@ -0,0 +1,27 @@
+import { IPublicClientApplication, InteractionRequiredAuthError } from '@azure/msal-browser';
+import { apiScopes } from '../authConfig';
+
+/**
+ * Access tokens for the bot's HTTP API (src/index.ts), which identifies the caller from the token
+ */
+export class ApiTokenProvider {
+    constructor(private msalInstance: IPublicClientApplication) {}
+
+    async getToken(): Promise<string> {
+        const account = this.msalInstance.getActiveAccount() || this.msalInstance.getAllAccounts()[0];
+        if (!account) {
+            throw new Error('Sign in with your Microsoft account to use the offboarding API');
+        }
+
+        try {
+            const result = await this.msalInstance.acquireTokenSilent({ account, scopes: apiScopes.offboardingApi });
+            return result.accessToken;
+        } catch (error) {
+            if (!(error instanceof InteractionRequiredAuthError)) {
+                throw error;
+            }
+            const result = await this.msalInstance.acquireTokenPopup({ account, scopes: apiScopes.offboardingApi });
+            return result.accessToken;
+        }
+    }
+}
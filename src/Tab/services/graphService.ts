@@ -1,13 +1,55 @@
 import { Client } from '@microsoft/microsoft-graph-client';
 import { AuthCodeMSALBrowserAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/authCodeMsalBrowser';
-import { PublicClientApplication, AccountInfo } from '@azure/msal-browser';
-import { User, GroupMembership, Device, AssignedLicense, GraphError } from '../types/offboarding';
+import { PublicClientApplication, AccountInfo, InteractionType } from '@azure/msal-browser';
+import { User, GroupMembership, Device, DeviceOwnership, GraphError, AssignedLicense, DriveInventory, DriveSharingLink, TeamMembership, ChannelMembership, OwnedResource } from '../types/offboarding';
+
+/**
+ * Directory operations used by the offboarding pipeline
+ * Implemented by the real Graph client and by MockGraphService for local development
+ */
+export interface GraphService {
+    initializeGraphClient(scopes?: string[]): Promise<void>;
+    getUser(userIdOrUpn: string): Promise<User>;
+    searchUsers(query: string): Promise<User[]>;
+    disableUser(userId: string): Promise<void>;
+    enableUser(userId: string): Promise<void>;
+    revokeUserSessions(userId: string): Promise<void>;
+    addUserToGroup(userId: string, groupId: string): Promise<void>;
+    removeUserFromGroup(userId: string, groupId: string): Promise<void>;
+    removeUserFromAllGroups(userId: string): Promise<{ success: GroupMembership[], failed: GroupMembership[] }>;
+    getJoinedTeams(userId: string): Promise<TeamMembership[]>;
+    getManager(userId: string): Promise<User | null>;
+    getOwnedResources(userId: string): Promise<OwnedResource[]>;
+    addOwner(resourceType: OwnedResource['resourceType'], resourceId: string, userIdOrUpn: string): Promise<void>;
+    addTeamMember(teamId: string, userIdOrUpn: string, asOwner: boolean): Promise<void>;
+    removeTeamMember(teamId: string, membershipId: string): Promise<void>;
+    addChannelMember(teamId: string, channelId: string, userIdOrUpn: string, asOwner: boolean): Promise<void>;
+    removeChannelMember(teamId: string, channelId: string, membershipId: string): Promise<void>;
+    assignUserLicenses(userId: string, licenses: AssignedLicense[]): Promise<void>;
+    removeUserLicenses(userId: string, licenseSkuIds?: string[]): Promise<AssignedLicense[]>;
+    disableDevice(deviceObjectId: string): Promise<void>;
+    enableDevice(deviceObjectId: string): Promise<void>;
+    retireManagedDevice(managedDeviceId: string): Promise<void>;
+    wipeManagedDevice(managedDeviceId: string): Promise<void>;
+    setAutomaticReplies(userId: string, message: string): Promise<void>;
+    disableAutomaticReplies(userId: string): Promise<void>;
+    createForwardingRule(userId: string, forwardTo: string): Promise<string>;
+    deleteMessageRule(userId: string, ruleId: string): Promise<void>;
+    getMailboxPurpose(userId: string): Promise<string>;
+    getDriveInventory(userId: string): Promise<DriveInventory>;
+    grantDriveAccess(userId: string, recipient: string): Promise<string[]>;
+    copyDriveToUser(userId: string, targetUser: string, folderName: string): Promise<{ folderWebUrl: string; itemCount: number }>;
+    removeDrivePermission(userId: string, itemId: string, permissionId: string): Promise<void>;
+    deleteUser(userId: string): Promise<void>;
+    getCurrentUser(): Promise<User>;
+    getGrantedScopes(): Promise<string[]>;
+}
 
 /**
  * Microsoft Graph Service for handling all Graph API operations
  * Follows Microsoft best practices for authentication and error handling
  */
-export class MicrosoftGraphService {
+export class MicrosoftGraphService implements GraphService {
     private graphClient: Client | null = null;
     private msalInstance: PublicClientApplication;
     private account: AccountInfo | null = null;
@@ -35,7 +77,7 @@ export class MicrosoftGraphService {
             const authProvider = new AuthCodeMSALBrowserAuthenticationProvider(this.msalInstance, {
                 account: this.account,
                 scopes: scopes,
-                interactionType: 'popup'
+                interactionType: InteractionType.Popup
             });
 
             this.graphClient = Client.initWithMiddleware({ authProvider });
@@ -192,20 +234,125 @@ export class MicrosoftGraphService {
                 ].join(','))
                 .get();
 
-            return result.value.map((device: any) => ({
-                id: device.id,
-                displayName: device.displayName,
-                deviceId: device.deviceId,
-                operatingSystem: device.operatingSystem,
-                accountEnabled: device.accountEnabled,
-                isManaged: false // Would need Intune API for this
-            }));
+            const managedDevices = await this.getUserManagedDevices(userIdOrUpn);
+
+            return result.value.map((device: any) => {
+                const managed = managedDevices.get(device.deviceId);
+                return {
+                    id: device.id,
+                    displayName: device.displayName,
+                    deviceId: device.deviceId,
+                    operatingSystem: device.operatingSystem,
+                    accountEnabled: device.accountEnabled,
+                    isManaged: !!managed,
+                    ownership: managed?.ownership ?? 'unknown',
+                    managedDeviceId: managed?.id
+                };
+            });
         } catch (error) {
             console.error('Error getting user devices:', error);
             return [];
         }
     }
 
+    /**
+     * Get the user's Intune managed devices, keyed by their Entra ID device ID
+     * Returns an empty map when Intune is unavailable or not permitted
+     */
+    private async getUserManagedDevices(userIdOrUpn: string): Promise<Map<string, { id: string; ownership: DeviceOwnership }>> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            const result = await this.graphClient
+                .api(`/users/${userIdOrUpn}/managedDevices`)
+                .select(['id', 'azureADDeviceId', 'managedDeviceOwnerType'].join(','))
+                .get();
+
+            return new Map(result.value.map((device: any): [string, { id: string; ownership: DeviceOwnership }] => [
+                device.azureADDeviceId,
+                {
+                    id: device.id,
+                    ownership: device.managedDeviceOwnerType === 'company'
+                        ? 'corporate'
+                        : device.managedDeviceOwnerType === 'personal' ? 'personal' : 'unknown'
+                }
+            ]));
+        } catch (error) {
+            console.error('Error getting user managed devices:', error);
+            return new Map();
+        }
+    }
+
+    /**
+     * Disable a device object so it can no longer authenticate
+     */
+    async disableDevice(deviceObjectId: string): Promise<void> {
+        await this.setDeviceEnabled(deviceObjectId, false);
+    }
+
+    /**
+     * Re-enable a disabled device object
+     */
+    async enableDevice(deviceObjectId: string): Promise<void> {
+        await this.setDeviceEnabled(deviceObjectId, true);
+    }
+
+    private async setDeviceEnabled(deviceObjectId: string, accountEnabled: boolean): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            await this.graphClient
+                .api(`/devices/${deviceObjectId}`)
+                .patch({ accountEnabled });
+        } catch (error) {
+            console.error(`Error ${accountEnabled ? 'enabling' : 'disabling'} device:`, error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Retire an Intune managed device, removing company data and apps but leaving personal data
+     */
+    async retireManagedDevice(managedDeviceId: string): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            await this.graphClient
+                .api(`/deviceManagement/managedDevices/${managedDeviceId}/retire`)
+                .post({});
+        } catch (error) {
+            console.error('Error retiring managed device:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Wipe an Intune managed device back to factory settings
+     */
+    async wipeManagedDevice(managedDeviceId: string): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            await this.graphClient
+                .api(`/deviceManagement/managedDevices/${managedDeviceId}/wipe`)
+                .post({
+                    keepEnrollmentData: false,
+                    keepUserData: false
+                });
+        } catch (error) {
+            console.error('Error wiping managed device:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
     /**
      * Disable user account
      */
@@ -226,6 +373,26 @@ export class MicrosoftGraphService {
         }
     }
 
+    /**
+     * Re-enable a disabled user account
+     */
+    async enableUser(userId: string): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            await this.graphClient
+                .api(`/users/${userId}`)
+                .patch({
+                    accountEnabled: true
+                });
+        } catch (error) {
+            console.error('Error enabling user:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
     /**
      * Revoke all user sessions
      */
@@ -244,6 +411,26 @@ export class MicrosoftGraphService {
         }
     }
 
+    /**
+     * Add user to a group
+     */
+    async addUserToGroup(userId: string, groupId: string): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            await this.graphClient
+                .api(`/groups/${groupId}/members/$ref`)
+                .post({
+                    '@odata.id': `https://graph.microsoft.com/v1.0/directoryObjects/${userId}`
+                });
+        } catch (error) {
+            console.error('Error adding user to group:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
     /**
      * Remove user from a group
      */
@@ -265,51 +452,601 @@ export class MicrosoftGraphService {
     /**
      * Remove user from all groups
      */
-    async removeUserFromAllGroups(userId: string): Promise<{ success: string[], failed: string[] }> {
+    async removeUserFromAllGroups(userId: string): Promise<{ success: GroupMembership[], failed: GroupMembership[] }> {
         const user = await this.getUser(userId);
-        const results: { success: string[], failed: string[] } = { success: [], failed: [] };
+        const results: { success: GroupMembership[], failed: GroupMembership[] } = { success: [], failed: [] };
 
         if (!user.memberOf) return results;
 
         for (const group of user.memberOf) {
             try {
                 await this.removeUserFromGroup(userId, group.id);
-                results.success.push(group.displayName);
+                results.success.push(group);
             } catch (error) {
                 console.error(`Failed to remove user from group ${group.displayName}:`, error);
-                results.failed.push(group.displayName);
+                results.failed.push(group);
             }
         }
 
         return results;
     }
 
+    /**
+     * Get the user's manager, or null when none is set
+     */
+    async getManager(userId: string): Promise<User | null> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            const manager = await this.graphClient
+                .api(`/users/${userId}/manager`)
+                .select('id,displayName,userPrincipalName,mail,accountEnabled')
+                .get();
+            return {
+                id: manager.id,
+                displayName: manager.displayName,
+                userPrincipalName: manager.userPrincipalName,
+                mail: manager.mail,
+                accountEnabled: manager.accountEnabled,
+                assignedLicenses: []
+            };
+        } catch (error) {
+            const graphError = this.handleGraphError(error);
+            if (graphError.statusCode === 404) return null;
+            console.error('Error getting manager:', error);
+            throw graphError;
+        }
+    }
+
+    /**
+     * Get the groups, app registrations and service principals the user owns, with their owner counts.
+     * Microsoft 365 groups include the URL of their SharePoint site. Sites without a group are not
+     * directory objects, so their owners and site admins are not covered here.
+     */
+    async getOwnedResources(userId: string): Promise<OwnedResource[]> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        const collections: Record<string, { path: string; resourceType: OwnedResource['resourceType'] }> = {
+            '#microsoft.graph.group': { path: 'groups', resourceType: 'group' },
+            '#microsoft.graph.application': { path: 'applications', resourceType: 'application' },
+            '#microsoft.graph.servicePrincipal': { path: 'servicePrincipals', resourceType: 'servicePrincipal' }
+        };
+
+        try {
+            const owned: any[] = [];
+            let page = await this.graphClient.api(`/users/${userId}/ownedObjects`).get();
+            while (page) {
+                owned.push(...page.value);
+                page = page['@odata.nextLink'] ? await this.graphClient.api(page['@odata.nextLink']).get() : null;
+            }
+
+            const resources: OwnedResource[] = [];
+            for (const object of owned) {
+                const collection = collections[object['@odata.type']];
+                if (!collection) continue;
+
+                let ownerCount = 0;
+                let owners = await this.graphClient
+                    .api(`/${collection.path}/${object.id}/owners`)
+                    .select('id')
+                    .get();
+                while (owners) {
+                    ownerCount += owners.value.length;
+                    owners = owners['@odata.nextLink'] ? await this.graphClient.api(owners['@odata.nextLink']).get() : null;
+                }
+
+                const resource: OwnedResource = {
+                    id: object.id,
+                    displayName: object.displayName,
+                    resourceType: object.resourceProvisioningOptions?.includes('Team') ? 'team' : collection.resourceType,
+                    ownerCount
+                };
+
+                if (object.groupTypes?.includes('Unified')) {
+                    try {
+                        const site = await this.graphClient.api(`/groups/${object.id}/sites/root`).select('webUrl').get();
+                        resource.siteUrl = site.webUrl;
+                    } catch (error) {
+                        console.warn(`Could not get the SharePoint site of ${object.displayName}:`, error);
+                    }
+                }
+
+                resources.push(resource);
+            }
+
+            return resources;
+        } catch (error) {
+            console.error('Error getting owned resources:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Add an owner to a group (or team), app registration or service principal
+     */
+    async addOwner(resourceType: OwnedResource['resourceType'], resourceId: string, userIdOrUpn: string): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        const path = resourceType === 'application'
+            ? 'applications'
+            : resourceType === 'servicePrincipal' ? 'servicePrincipals' : 'groups';
+
+        try {
+            const user = await this.graphClient.api(`/users/${userIdOrUpn}`).select('id').get();
+            await this.graphClient
+                .api(`/${path}/${resourceId}/owners/$ref`)
+                .post({
+                    '@odata.id': `https://graph.microsoft.com/v1.0/directoryObjects/${user.id}`
+                });
+        } catch (error) {
+            console.error('Error adding owner:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Get the teams the user belongs to, with the team's owner count and the user's
+     * private and shared channel memberships
+     */
+    async getJoinedTeams(userId: string): Promise<TeamMembership[]> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            const joined = await this.graphClient
+                .api(`/users/${userId}/joinedTeams`)
+                .select('id,displayName')
+                .get();
+
+            const teams: TeamMembership[] = [];
+            for (const team of joined.value) {
+                const members = await this.graphClient.api(`/teams/${team.id}/members`).get();
+                const membership = members.value.find((m: any) => m.userId === userId);
+                if (!membership) continue;
+
+                const channels = await this.graphClient
+                    .api(`/teams/${team.id}/channels`)
+                    .filter("membershipType ne 'standard'")
+                    .select('id,displayName,membershipType')
+                    .get();
+
+                const channelMemberships: ChannelMembership[] = [];
+                for (const channel of channels.value) {
+                    const channelMembers = await this.graphClient
+                        .api(`/teams/${team.id}/channels/${channel.id}/members`)
+                        .get();
+                    const channelMembership = channelMembers.value.find((m: any) => m.userId === userId);
+                    if (channelMembership) {
+                        channelMemberships.push({
+                            channelId: channel.id,
+                            displayName: channel.displayName,
+                            membershipType: channel.membershipType,
+                            membershipId: channelMembership.id,
+                            isOwner: channelMembership.roles?.includes('owner') ?? false
+                        });
+                    }
+                }
+
+                teams.push({
+                    teamId: team.id,
+                    displayName: team.displayName,
+                    membershipId: membership.id,
+                    isOwner: membership.roles?.includes('owner') ?? false,
+                    ownerCount: members.value.filter((m: any) => m.roles?.includes('owner')).length,
+                    channels: channelMemberships
+                });
+            }
+
+            return teams;
+        } catch (error) {
+            console.error('Error getting joined teams:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Add a user to a team, or promote an existing member when `asOwner` is set
+     */
+    async addTeamMember(teamId: string, userIdOrUpn: string, asOwner: boolean): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            const user = await this.graphClient.api(`/users/${userIdOrUpn}`).select('id').get();
+            const members = await this.graphClient.api(`/teams/${teamId}/members`).get();
+            const existing = members.value.find((m: any) => m.userId === user.id);
+            const member = {
+                '@odata.type': '#microsoft.graph.aadUserConversationMember',
+                roles: asOwner ? ['owner'] : []
+            };
+
+            if (existing) {
+                if (asOwner && !existing.roles?.includes('owner')) {
+                    await this.graphClient.api(`/teams/${teamId}/members/${existing.id}`).patch(member);
+                }
+                return;
+            }
+
+            await this.graphClient
+                .api(`/teams/${teamId}/members`)
+                .post({ ...member, 'user@odata.bind': `https://graph.microsoft.com/v1.0/users('${user.id}')` });
+        } catch (error) {
+            console.error('Error adding team member:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Remove a member (or owner) from a team
+     */
+    async removeTeamMember(teamId: string, membershipId: string): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            await this.graphClient
+                .api(`/teams/${teamId}/members/${membershipId}`)
+                .delete();
+        } catch (error) {
+            console.error('Error removing team member:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Add a user to a private or shared channel
+     */
+    async addChannelMember(teamId: string, channelId: string, userIdOrUpn: string, asOwner: boolean): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            await this.graphClient
+                .api(`/teams/${teamId}/channels/${channelId}/members`)
+                .post({
+                    '@odata.type': '#microsoft.graph.aadUserConversationMember',
+                    roles: asOwner ? ['owner'] : [],
+                    'user@odata.bind': `https://graph.microsoft.com/v1.0/users('${userIdOrUpn}')`
+                });
+        } catch (error) {
+            console.error('Error adding channel member:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Remove a member from a private or shared channel
+     */
+    async removeChannelMember(teamId: string, channelId: string, membershipId: string): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            await this.graphClient
+                .api(`/teams/${teamId}/channels/${channelId}/members/${membershipId}`)
+                .delete();
+        } catch (error) {
+            console.error('Error removing channel member:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Assign licenses, keeping each license's disabled plans
+     */
+    async assignUserLicenses(userId: string, licenses: AssignedLicense[]): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        if (licenses.length === 0) return;
+
+        try {
+            await this.graphClient
+                .api(`/users/${userId}/assignLicense`)
+                .post({
+                    addLicenses: licenses.map(l => ({ skuId: l.skuId, disabledPlans: l.disabledPlans })),
+                    removeLicenses: []
+                });
+        } catch (error) {
+            console.error('Error assigning user licenses:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
     /**
      * Remove user licenses
+     * Returns the removed assignments so they can be restored
      */
-    async removeUserLicenses(userId: string, licenseSkuIds?: string[]): Promise<void> {
+    async removeUserLicenses(userId: string, licenseSkuIds?: string[]): Promise<AssignedLicense[]> {
         if (!this.graphClient) {
             throw new Error('Graph client not initialized');
         }
 
         try {
             const user = await this.getUser(userId);
-            const licensesToRemove = licenseSkuIds || user.assignedLicenses.map(l => l.skuId);
+            const licensesToRemove = licenseSkuIds
+                ? user.assignedLicenses.filter(l => licenseSkuIds.includes(l.skuId))
+                : user.assignedLicenses;
 
             if (licensesToRemove.length > 0) {
                 await this.graphClient
                     .api(`/users/${userId}/assignLicense`)
                     .post({
                         addLicenses: [],
-                        removeLicenses: licensesToRemove
+                        removeLicenses: licensesToRemove.map(l => l.skuId)
                     });
             }
+
+            return licensesToRemove;
         } catch (error) {
             console.error('Error removing user licenses:', error);
             throw this.handleGraphError(error);
         }
     }
 
+    /**
+     * Turn on automatic replies to internal and external senders
+     */
+    async setAutomaticReplies(userId: string, message: string): Promise<void> {
+        await this.updateMailboxSettings(userId, {
+            automaticRepliesSetting: {
+                status: 'alwaysEnabled',
+                externalAudience: 'all',
+                internalReplyMessage: message,
+                externalReplyMessage: message
+            }
+        });
+    }
+
+    /**
+     * Turn off automatic replies
+     */
+    async disableAutomaticReplies(userId: string): Promise<void> {
+        await this.updateMailboxSettings(userId, {
+            automaticRepliesSetting: { status: 'disabled' }
+        });
+    }
+
+    private async updateMailboxSettings(userId: string, settings: Record<string, any>): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            await this.graphClient
+                .api(`/users/${userId}/mailboxSettings`)
+                .patch(settings);
+        } catch (error) {
+            console.error('Error updating mailbox settings:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Redirect all incoming mail to another address with an inbox rule
+     * Returns the rule ID so the rule can be removed later
+     */
+    async createForwardingRule(userId: string, forwardTo: string): Promise<string> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            const rule = await this.graphClient
+                .api(`/users/${userId}/mailFolders/inbox/messageRules`)
+                .post({
+                    displayName: 'Offboarding: redirect incoming mail',
+                    sequence: 1,
+                    isEnabled: true,
+                    actions: {
+                        redirectTo: [{ emailAddress: { address: forwardTo } }],
+                        stopProcessingRules: false
+                    }
+                });
+            return rule.id;
+        } catch (error) {
+            console.error('Error creating forwarding rule:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Delete an inbox rule
+     */
+    async deleteMessageRule(userId: string, ruleId: string): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            await this.graphClient
+                .api(`/users/${userId}/mailFolders/inbox/messageRules/${ruleId}`)
+                .delete();
+        } catch (error) {
+            console.error('Error deleting message rule:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Get the mailbox type: user, shared, room, equipment, linked or others
+     */
+    async getMailboxPurpose(userId: string): Promise<string> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            const settings = await this.graphClient
+                .api(`/users/${userId}/mailboxSettings`)
+                .select('userPurpose')
+                .get();
+            return settings.userPurpose;
+        } catch (error) {
+            console.error('Error getting mailbox purpose:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Walk the user's OneDrive and summarize its contents and sharing links
+     */
+    async getDriveInventory(userId: string): Promise<DriveInventory> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            const drive = await this.graphClient
+                .api(`/users/${userId}/drive`)
+                .select('id,webUrl,quota,lastModifiedDateTime')
+                .get();
+
+            const inventory: DriveInventory = {
+                driveId: drive.id,
+                webUrl: drive.webUrl,
+                fileCount: 0,
+                folderCount: 0,
+                sizeBytes: drive.quota?.used ?? 0,
+                lastModified: drive.lastModifiedDateTime,
+                sharingLinks: []
+            };
+
+            // delta from the root returns every item in the drive, page by page
+            const sharedItems: { id: string; name: string }[] = [];
+            let page = await this.graphClient
+                .api(`/users/${userId}/drive/root/delta`)
+                .select('id,name,file,folder,shared,root,deleted')
+                .get();
+            while (page) {
+                for (const item of page.value) {
+                    if (item.root || item.deleted) continue;
+                    if (item.folder) inventory.folderCount++;
+                    if (item.file) inventory.fileCount++;
+                    if (item.shared) sharedItems.push({ id: item.id, name: item.name });
+                }
+                page = page['@odata.nextLink'] ? await this.graphClient.api(page['@odata.nextLink']).get() : null;
+            }
+
+            for (const item of sharedItems) {
+                const permissions = await this.graphClient
+                    .api(`/users/${userId}/drive/items/${item.id}/permissions`)
+                    .get();
+                for (const permission of permissions.value) {
+                    if (!permission.link) continue;
+                    const link: DriveSharingLink = {
+                        itemId: item.id,
+                        itemName: item.name,
+                        permissionId: permission.id,
+                        scope: permission.link.scope,
+                        type: permission.link.type,
+                        external: permission.link.scope === 'anonymous'
+                    };
+                    inventory.sharingLinks.push(link);
+                }
+            }
+
+            return inventory;
+        } catch (error) {
+            console.error('Error getting drive inventory:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Give another user edit access to the whole drive without sending an invitation email
+     * Returns the created permission IDs so the access can be removed later
+     */
+    async grantDriveAccess(userId: string, recipient: string): Promise<string[]> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            const result = await this.graphClient
+                .api(`/users/${userId}/drive/root/invite`)
+                .post({
+                    recipients: [{ email: recipient }],
+                    roles: ['write'],
+                    requireSignIn: true,
+                    sendInvitation: false
+                });
+            return result.value.map((permission: any) => permission.id);
+        } catch (error) {
+            console.error('Error granting drive access:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Copy the top level of a user's drive into a new folder in another user's drive
+     * Copies run asynchronously in SharePoint; this returns once each copy has been accepted
+     */
+    async copyDriveToUser(userId: string, targetUser: string, folderName: string): Promise<{ folderWebUrl: string; itemCount: number }> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            const targetDrive = await this.graphClient.api(`/users/${targetUser}/drive`).select('id').get();
+            const folder = await this.graphClient
+                .api(`/users/${targetUser}/drive/root/children`)
+                .post({
+                    name: folderName,
+                    folder: {},
+                    '@microsoft.graph.conflictBehavior': 'rename'
+                });
+
+            const children = await this.graphClient
+                .api(`/users/${userId}/drive/root/children`)
+                .select('id,name')
+                .get();
+            for (const item of children.value) {
+                await this.graphClient
+                    .api(`/users/${userId}/drive/items/${item.id}/copy`)
+                    .post({
+                        parentReference: { driveId: targetDrive.id, id: folder.id },
+                        name: item.name
+                    });
+            }
+
+            return { folderWebUrl: folder.webUrl, itemCount: children.value.length };
+        } catch (error) {
+            console.error('Error copying drive:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
+    /**
+     * Remove a sharing permission from a drive item
+     */
+    async removeDrivePermission(userId: string, itemId: string, permissionId: string): Promise<void> {
+        if (!this.graphClient) {
+            throw new Error('Graph client not initialized');
+        }
+
+        try {
+            await this.graphClient
+                .api(`/users/${userId}/drive/items/${itemId}/permissions/${permissionId}`)
+                .delete();
+        } catch (error) {
+            console.error('Error removing drive permission:', error);
+            throw this.handleGraphError(error);
+        }
+    }
+
     /**
      * Delete user account
      */
@@ -363,22 +1100,71 @@ export class MicrosoftGraphService {
         }
     }
 
+    /**
+     * Get the Graph permissions consented for the signed-in account
+     */
+    async getGrantedScopes(): Promise<string[]> {
+        if (!this.account) {
+            throw new Error('Graph client not initialized');
+        }
+
+        // .default returns a token carrying every permission already consented for the app
+        const result = await this.msalInstance.acquireTokenSilent({
+            account: this.account,
+            scopes: ['https://graph.microsoft.com/.default']
+        });
+
+        return result.scopes
+            .map(scope => scope.replace(/^https:\/\/graph\.microsoft\.com\//i, ''))
+            .filter(scope => !['openid', 'profile', 'email', 'offline_access', '.default'].includes(scope));
+    }
+
     /**
      * Handle Graph API errors and convert to our custom error format
+     * Throttling (429), transient 5xx and network failures are classified as retryable
      */
     private handleGraphError(error: any): GraphError {
-        if (error.code) {
-            return {
-                code: error.code,
-                message: error.message,
-                details: error
-            };
-        }
+        const statusCode: number | undefined = typeof error?.statusCode === 'number' && error.statusCode > 0
+            ? error.statusCode
+            : undefined;
+        const code: string = error?.code || (statusCode ? `HTTP_${statusCode}` : 'UNKNOWN_ERROR');
 
         return {
-            code: 'UNKNOWN_ERROR',
-            message: error.message || 'An unknown error occurred',
+            code,
+            message: error?.message || 'An unknown error occurred',
+            statusCode,
+            retryable: this.isRetryable(statusCode, code, error),
+            retryAfterMs: this.parseRetryAfter(error?.headers),
             details: error
         };
     }
-}
\ No newline at end of file
+
+    private isRetryable(statusCode: number | undefined, code: string, error: any): boolean {
+        if (statusCode !== undefined) {
+            return statusCode === 429 || statusCode === 408 || (statusCode >= 500 && statusCode !== 501 && statusCode !== 505);
+        }
+
+        if (['TooManyRequests', 'activityLimitReached', 'serviceNotAvailable', 'timeout'].includes(code)) {
+            return true;
+        }
+
+        // fetch rejects with a TypeError when the request never reached Graph
+        return error instanceof TypeError;
+    }
+
+    /**
+     * Retry-After is either a number of seconds or an HTTP date
+     */
+    private parseRetryAfter(headers: any): number | undefined {
+        const value: string | null | undefined = typeof headers?.get === 'function'
+            ? headers.get('Retry-After')
+            : headers?.['Retry-After'] ?? headers?.['retry-after'];
+        if (!value) return undefined;
+
+        const seconds = Number(value);
+        if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+        const date = Date.parse(value);
+        return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+}
@@ -0,0 +1,607 @@
+import { AssignedLicense, Device, DriveInventory, GraphError, GroupMembership, OwnedResource, TeamMembership, User } from '../types/offboarding';
+import { GraphService } from './graphService';
+import { graphScopes } from '../authConfig';
+
+interface MockDrive {
+    items: { id: string; name: string; size: number; folder?: boolean; links: { permissionId: string; scope: string; type: string }[] }[];
+    grants: Map<string, string>; // Root permission ID -> recipient
+}
+
+interface MockTeamMember {
+    id: string;
+    userId: string;
+    owner: boolean;
+}
+
+interface MockTeam {
+    id: string;
+    displayName: string;
+    members: MockTeamMember[];
+    channels: { id: string; displayName: string; membershipType: 'private' | 'shared'; members: MockTeamMember[] }[];
+}
+
+/**
+ * In-memory directory that stands in for Microsoft Graph during local development
+ * Changes (disabled accounts, removed groups and licenses) persist until the page reloads
+ */
+export class MockGraphService implements GraphService {
+    private users: User[] = [
+        {
+            id: 'mock-user-1',
+            displayName: 'Sarah Johnson',
+            userPrincipalName: 'sarah.johnson@contoso.com',
+            mail: 'sarah.johnson@contoso.com',
+            jobTitle: 'Marketing Manager',
+            department: 'Marketing',
+            employeeId: 'E1001',
+            accountEnabled: true,
+            assignedLicenses: [
+                { skuId: 'office-365-e3', disabledPlans: [] },
+                { skuId: 'project-plan-1', disabledPlans: [] }
+            ],
+            memberOf: [
+                { id: 'group-marketing', displayName: 'Marketing Team', securityEnabled: false, mailEnabled: true },
+                { id: 'group-project-leads', displayName: 'Project Leads', securityEnabled: true, mailEnabled: false },
+                { id: 'group-all-users', displayName: 'Office 365 Users', groupType: 'DynamicMembership', securityEnabled: true, mailEnabled: false }
+            ],
+            ownedDevices: [
+                { id: 'device-1', displayName: 'DESKTOP-ABC123', deviceId: 'd-abc123', operatingSystem: 'Windows', accountEnabled: true, isManaged: true, ownership: 'corporate', managedDeviceId: 'managed-1' },
+                { id: 'device-2', displayName: 'iPhone 13', deviceId: 'd-iphone13', operatingSystem: 'iOS', accountEnabled: true, isManaged: true, ownership: 'personal', managedDeviceId: 'managed-2' }
+            ]
+        },
+        {
+            id: 'mock-user-2',
+            displayName: 'Michael Chen',
+            userPrincipalName: 'michael.chen@contoso.com',
+            mail: 'michael.chen@contoso.com',
+            jobTitle: 'Software Developer',
+            department: 'IT',
+            employeeId: 'E1002',
+            accountEnabled: true,
+            assignedLicenses: [
+                { skuId: 'office-365-e5', disabledPlans: [] },
+                { skuId: 'visual-studio', disabledPlans: [] }
+            ],
+            memberOf: [
+                { id: 'group-developers', displayName: 'Developers', securityEnabled: true, mailEnabled: false },
+                { id: 'group-it', displayName: 'IT Team', securityEnabled: false, mailEnabled: true },
+                { id: 'group-all-users', displayName: 'Office 365 Users', groupType: 'DynamicMembership', securityEnabled: true, mailEnabled: false }
+            ],
+            ownedDevices: [
+                { id: 'device-3', displayName: 'LAPTOP-DEF456', deviceId: 'd-def456', operatingSystem: 'Windows', accountEnabled: true, isManaged: true, ownership: 'corporate', managedDeviceId: 'managed-3' },
+                { id: 'device-4', displayName: 'Surface Pro 9', deviceId: 'd-surface9', operatingSystem: 'Windows', accountEnabled: true, isManaged: false, ownership: 'unknown' }
+            ]
+        },
+        {
+            id: 'mock-user-3',
+            displayName: 'Priya Patel',
+            userPrincipalName: 'priya.patel@contoso.com',
+            mail: 'priya.patel@contoso.com',
+            jobTitle: 'Financial Analyst',
+            department: 'Finance',
+            employeeId: 'E1003',
+            accountEnabled: true,
+            assignedLicenses: [{ skuId: 'office-365-e3', disabledPlans: [] }],
+            memberOf: [
+                { id: 'group-finance', displayName: 'Finance', securityEnabled: true, mailEnabled: true }
+            ],
+            ownedDevices: []
+        }
+    ];
+
+    private currentUser: User = {
+        id: 'mock-admin',
+        displayName: 'Local Admin',
+        userPrincipalName: 'admin@contoso.com',
+        mail: 'admin@contoso.com',
+        jobTitle: 'IT Administrator',
+        accountEnabled: true,
+        assignedLicenses: []
+    };
+
+    // Retire and wipe requests issued so far; the mock devices themselves are left in place
+    intuneActions: { managedDeviceId: string; action: 'retire' | 'wipe' }[] = [];
+
+    private drives = new Map<string, MockDrive>();
+
+    // Owners of the groups, apps and service principals the mock users own; team owners live in `teams`
+    private ownedResources: { resource: Omit<OwnedResource, 'ownerCount'>; ownerIds: string[] }[] = [
+        {
+            resource: { id: 'group-project-leads', displayName: 'Project Leads', resourceType: 'group' },
+            ownerIds: ['mock-user-1', 'mock-user-2']
+        },
+        {
+            resource: { id: 'app-campaign-analytics', displayName: 'Campaign Analytics', resourceType: 'application' },
+            ownerIds: ['mock-user-1']
+        },
+        {
+            resource: { id: 'sp-campaign-analytics', displayName: 'Campaign Analytics', resourceType: 'servicePrincipal' },
+            ownerIds: ['mock-user-1']
+        },
+        {
+            resource: { id: 'app-build-bot', displayName: 'Build Bot', resourceType: 'application' },
+            ownerIds: ['mock-user-2']
+        }
+    ];
+
+    private managers = new Map<string, string>([
+        ['mock-user-1', 'mock-user-3'],
+        ['mock-user-2', 'mock-user-3']
+    ]);
+
+    // Sarah is the only owner of Marketing, so removing her needs a successor
+    private teams: MockTeam[] = [
+        {
+            id: 'team-marketing',
+            displayName: 'Marketing',
+            members: [this.teamMember('mock-user-1', true), this.teamMember('mock-user-3', false)],
+            channels: [
+                { id: 'channel-campaigns', displayName: 'Campaign Planning', membershipType: 'private', members: [this.teamMember('mock-user-1', true)] }
+            ]
+        },
+        {
+            id: 'team-launch',
+            displayName: 'Product Launch',
+            members: [this.teamMember('mock-user-1', true), this.teamMember('mock-user-2', true), this.teamMember('mock-user-3', false)],
+            channels: []
+        },
+        {
+            id: 'team-engineering',
+            displayName: 'Engineering',
+            members: [this.teamMember('mock-admin', true), this.teamMember('mock-user-2', false)],
+            channels: [
+                { id: 'channel-releases', displayName: 'Release Coordination', membershipType: 'shared', members: [this.teamMember('mock-user-2', false)] }
+            ]
+        }
+    ];
+
+    private mailboxes = new Map<string, { purpose: string; autoReply?: string; rules: Map<string, string> }>();
+
+    // Every group any mock user starts in, so removed memberships can be restored
+    private groups = new Map<string, GroupMembership>(
+        this.users.flatMap(u => u.memberOf || []).map(g => [g.id, g])
+    );
+
+    constructor(
+        private latencyMs: number = 400,
+        private grantedScopes: string[] = graphScopes.offboardingScopes
+    ) {}
+
+    async initializeGraphClient(): Promise<void> {
+        await this.delay();
+    }
+
+    async getUser(userIdOrUpn: string): Promise<User> {
+        await this.delay();
+        return this.clone(this.findUser(userIdOrUpn));
+    }
+
+    async searchUsers(query: string): Promise<User[]> {
+        await this.delay();
+        const q = query.toLowerCase();
+        return this.users
+            .filter(u =>
+                u.displayName.toLowerCase().startsWith(q) ||
+                u.userPrincipalName.toLowerCase().startsWith(q) ||
+                u.mail?.toLowerCase().startsWith(q)
+            )
+            .map(u => ({ ...this.clone(u), memberOf: undefined, ownedDevices: undefined, assignedLicenses: [] }));
+    }
+
+    async disableUser(userId: string): Promise<void> {
+        await this.delay();
+        this.findUser(userId).accountEnabled = false;
+    }
+
+    async enableUser(userId: string): Promise<void> {
+        await this.delay();
+        this.findUser(userId).accountEnabled = true;
+    }
+
+    async revokeUserSessions(userId: string): Promise<void> {
+        await this.delay();
+        this.findUser(userId);
+    }
+
+    async addUserToGroup(userId: string, groupId: string): Promise<void> {
+        await this.delay();
+        const user = this.findUser(userId);
+        const group = this.groups.get(groupId);
+        if (!group) {
+            const error: GraphError = {
+                code: 'Request_ResourceNotFound',
+                message: `Group ${groupId} not found`,
+                statusCode: 404,
+                retryable: false
+            };
+            throw error;
+        }
+        if (!user.memberOf?.some(g => g.id === groupId)) {
+            user.memberOf = [...(user.memberOf || []), { ...group }];
+        }
+    }
+
+    async removeUserFromGroup(userId: string, groupId: string): Promise<void> {
+        await this.delay();
+        const user = this.findUser(userId);
+        if (this.groups.get(groupId)?.groupType?.includes('DynamicMembership')) {
+            const error: GraphError = {
+                code: 'Request_BadRequest',
+                message: 'Members of a dynamic group cannot be changed directly',
+                statusCode: 400,
+                retryable: false
+            };
+            throw error;
+        }
+        user.memberOf = (user.memberOf || []).filter(g => g.id !== groupId);
+    }
+
+    async removeUserFromAllGroups(userId: string): Promise<{ success: GroupMembership[], failed: GroupMembership[] }> {
+        const user = this.findUser(userId);
+        const results: { success: GroupMembership[], failed: GroupMembership[] } = { success: [], failed: [] };
+
+        for (const group of [...(user.memberOf || [])]) {
+            try {
+                await this.removeUserFromGroup(userId, group.id);
+                results.success.push(group);
+            } catch {
+                results.failed.push(group);
+            }
+        }
+
+        return results;
+    }
+
+    async getManager(userId: string): Promise<User | null> {
+        await this.delay();
+        const managerId = this.managers.get(this.findUser(userId).id);
+        return managerId ? this.clone(this.findUser(managerId)) : null;
+    }
+
+    async getOwnedResources(userId: string): Promise<OwnedResource[]> {
+        await this.delay();
+        const user = this.findUser(userId);
+        const teams: OwnedResource[] = this.teams
+            .filter(team => team.members.some(m => m.userId === user.id && m.owner))
+            .map(team => ({
+                id: team.id,
+                displayName: team.displayName,
+                resourceType: 'team',
+                ownerCount: team.members.filter(m => m.owner).length,
+                siteUrl: `https://contoso.sharepoint.com/sites/${team.displayName.replace(/\s/g, '')}`
+            }));
+        const others = this.ownedResources
+            .filter(entry => entry.ownerIds.includes(user.id))
+            .map(entry => ({ ...entry.resource, ownerCount: entry.ownerIds.length }));
+        return [...teams, ...others];
+    }
+
+    async addOwner(resourceType: OwnedResource['resourceType'], resourceId: string, userIdOrUpn: string): Promise<void> {
+        const user = this.findUser(userIdOrUpn);
+        if (resourceType === 'team') {
+            await this.addTeamMember(resourceId, user.id, true);
+            return;
+        }
+
+        await this.delay();
+        const entry = this.ownedResources.find(e => e.resource.id === resourceId);
+        if (!entry) {
+            const error: GraphError = {
+                code: 'Request_ResourceNotFound',
+                message: `Resource ${resourceId} not found`,
+                statusCode: 404,
+                retryable: false
+            };
+            throw error;
+        }
+        if (!entry.ownerIds.includes(user.id)) {
+            entry.ownerIds.push(user.id);
+        }
+    }
+
+    async getJoinedTeams(userId: string): Promise<TeamMembership[]> {
+        await this.delay();
+        const user = this.findUser(userId);
+        return this.teams.flatMap(team => {
+            const membership = team.members.find(m => m.userId === user.id);
+            if (!membership) return [];
+            return [{
+                teamId: team.id,
+                displayName: team.displayName,
+                membershipId: membership.id,
+                isOwner: membership.owner,
+                ownerCount: team.members.filter(m => m.owner).length,
+                channels: team.channels.flatMap(channel => {
+                    const channelMembership = channel.members.find(m => m.userId === user.id);
+                    return channelMembership
+                        ? [{
+                            channelId: channel.id,
+                            displayName: channel.displayName,
+                            membershipType: channel.membershipType,
+                            membershipId: channelMembership.id,
+                            isOwner: channelMembership.owner
+                        }]
+                        : [];
+                })
+            }];
+        });
+    }
+
+    async addTeamMember(teamId: string, userIdOrUpn: string, asOwner: boolean): Promise<void> {
+        await this.delay();
+        const team = this.findTeam(teamId);
+        const user = this.findUser(userIdOrUpn);
+        const existing = team.members.find(m => m.userId === user.id);
+        if (existing) {
+            existing.owner = existing.owner || asOwner;
+        } else {
+            team.members.push(this.teamMember(user.id, asOwner));
+        }
+    }
+
+    async removeTeamMember(teamId: string, membershipId: string): Promise<void> {
+        await this.delay();
+        const team = this.findTeam(teamId);
+        const membership = team.members.find(m => m.id === membershipId);
+        team.members = team.members.filter(m => m.id !== membershipId);
+        // Leaving a team also removes the user from its private and shared channels
+        team.channels.forEach(channel => {
+            channel.members = channel.members.filter(m => m.userId !== membership?.userId);
+        });
+    }
+
+    async addChannelMember(teamId: string, channelId: string, userIdOrUpn: string, asOwner: boolean): Promise<void> {
+        await this.delay();
+        const channel = this.findChannel(teamId, channelId);
+        const user = this.findUser(userIdOrUpn);
+        if (!channel.members.some(m => m.userId === user.id)) {
+            channel.members.push(this.teamMember(user.id, asOwner));
+        }
+    }
+
+    async removeChannelMember(teamId: string, channelId: string, membershipId: string): Promise<void> {
+        await this.delay();
+        const channel = this.findChannel(teamId, channelId);
+        channel.members = channel.members.filter(m => m.id !== membershipId);
+    }
+
+    async assignUserLicenses(userId: string, licenses: AssignedLicense[]): Promise<void> {
+        await this.delay();
+        const user = this.findUser(userId);
+        const added = licenses.filter(l => !user.assignedLicenses.some(a => a.skuId === l.skuId));
+        user.assignedLicenses = [...user.assignedLicenses, ...added.map(l => ({ ...l, disabledPlans: [...l.disabledPlans] }))];
+    }
+
+    async removeUserLicenses(userId: string, licenseSkuIds?: string[]): Promise<AssignedLicense[]> {
+        await this.delay();
+        const user = this.findUser(userId);
+        const removed = licenseSkuIds
+            ? user.assignedLicenses.filter(l => licenseSkuIds.includes(l.skuId))
+            : user.assignedLicenses;
+        user.assignedLicenses = user.assignedLicenses.filter(l => !removed.includes(l));
+        return removed;
+    }
+
+    async disableDevice(deviceObjectId: string): Promise<void> {
+        await this.delay();
+        this.findDevice(device => device.id === deviceObjectId).accountEnabled = false;
+    }
+
+    async enableDevice(deviceObjectId: string): Promise<void> {
+        await this.delay();
+        this.findDevice(device => device.id === deviceObjectId).accountEnabled = true;
+    }
+
+    async retireManagedDevice(managedDeviceId: string): Promise<void> {
+        await this.delay();
+        this.findDevice(device => device.managedDeviceId === managedDeviceId);
+        this.intuneActions.push({ managedDeviceId, action: 'retire' });
+    }
+
+    async wipeManagedDevice(managedDeviceId: string): Promise<void> {
+        await this.delay();
+        this.findDevice(device => device.managedDeviceId === managedDeviceId);
+        this.intuneActions.push({ managedDeviceId, action: 'wipe' });
+    }
+
+    async setAutomaticReplies(userId: string, message: string): Promise<void> {
+        await this.delay();
+        this.mailbox(userId).autoReply = message;
+    }
+
+    async disableAutomaticReplies(userId: string): Promise<void> {
+        await this.delay();
+        this.mailbox(userId).autoReply = undefined;
+    }
+
+    async createForwardingRule(userId: string, forwardTo: string): Promise<string> {
+        await this.delay();
+        const ruleId = `rule-${Date.now()}`;
+        this.mailbox(userId).rules.set(ruleId, forwardTo);
+        return ruleId;
+    }
+
+    async deleteMessageRule(userId: string, ruleId: string): Promise<void> {
+        await this.delay();
+        this.mailbox(userId).rules.delete(ruleId);
+    }
+
+    async getMailboxPurpose(userId: string): Promise<string> {
+        await this.delay();
+        return this.mailbox(userId).purpose;
+    }
+
+    async getDriveInventory(userId: string): Promise<DriveInventory> {
+        await this.delay();
+        const user = this.findUser(userId);
+        const drive = this.drive(user.id);
+        return {
+            driveId: `drive-${user.id}`,
+            webUrl: this.driveUrl(user),
+            fileCount: drive.items.filter(i => !i.folder).length,
+            folderCount: drive.items.filter(i => i.folder).length,
+            sizeBytes: drive.items.reduce((total, i) => total + i.size, 0),
+            lastModified: '2024-05-02T16:20:00Z',
+            sharingLinks: drive.items.flatMap(item => item.links.map(link => ({
+                itemId: item.id,
+                itemName: item.name,
+                permissionId: link.permissionId,
+                scope: link.scope,
+                type: link.type,
+                external: link.scope === 'anonymous'
+            })))
+        };
+    }
+
+    async grantDriveAccess(userId: string, recipient: string): Promise<string[]> {
+        await this.delay();
+        const drive = this.drive(this.findUser(userId).id);
+        const permissionId = `perm-${drive.grants.size + 1}`;
+        drive.grants.set(permissionId, recipient);
+        return [permissionId];
+    }
+
+    async copyDriveToUser(userId: string, targetUser: string, folderName: string): Promise<{ folderWebUrl: string; itemCount: number }> {
+        await this.delay();
+        const source = this.findUser(userId);
+        const target = this.findUser(targetUser);
+        const topLevel = this.drive(source.id).items.filter(i => !i.name.includes('/'));
+        this.drive(target.id).items.push(...topLevel.map(i => ({ ...i, id: `${i.id}-copy`, name: `${folderName}/${i.name}`, links: [] })));
+        return { folderWebUrl: `${this.driveUrl(target)}/${encodeURIComponent(folderName)}`, itemCount: topLevel.length };
+    }
+
+    async removeDrivePermission(userId: string, itemId: string, permissionId: string): Promise<void> {
+        await this.delay();
+        const drive = this.drive(this.findUser(userId).id);
+        if (itemId === 'root') {
+            drive.grants.delete(permissionId);
+            return;
+        }
+        const item = drive.items.find(i => i.id === itemId);
+        if (item) {
+            item.links = item.links.filter(l => l.permissionId !== permissionId);
+        }
+    }
+
+    /**
+     * Simulate an administrator converting the mailbox in Exchange Online
+     */
+    convertMailboxToShared(userId: string): void {
+        this.mailbox(userId).purpose = 'shared';
+    }
+
+    async deleteUser(userId: string): Promise<void> {
+        await this.delay();
+        const user = this.findUser(userId);
+        this.users = this.users.filter(u => u.id !== user.id);
+    }
+
+    async getCurrentUser(): Promise<User> {
+        await this.delay();
+        return this.clone(this.currentUser);
+    }
+
+    async getGrantedScopes(): Promise<string[]> {
+        await this.delay();
+        return [...this.grantedScopes];
+    }
+
+    private findUser(userIdOrUpn: string): User {
+        const user = this.users.find(u => u.id === userIdOrUpn || u.userPrincipalName === userIdOrUpn);
+        if (!user) {
+            const error: GraphError = {
+                code: 'Request_ResourceNotFound',
+                message: `User ${userIdOrUpn} not found`,
+                statusCode: 404,
+                retryable: false
+            };
+            throw error;
+        }
+        return user;
+    }
+
+    private mailbox(userId: string): { purpose: string; autoReply?: string; rules: Map<string, string> } {
+        const user = this.findUser(userId);
+        let mailbox = this.mailboxes.get(user.id);
+        if (!mailbox) {
+            mailbox = { purpose: 'user', rules: new Map() };
+            this.mailboxes.set(user.id, mailbox);
+        }
+        return mailbox;
+    }
+
+    private drive(userId: string): MockDrive {
+        let drive = this.drives.get(userId);
+        if (!drive) {
+            drive = {
+                items: [
+                    { id: `${userId}-docs`, name: 'Documents', size: 0, folder: true, links: [] },
+                    { id: `${userId}-plan`, name: 'Documents/Plan.docx', size: 48_000, links: [{ permissionId: 'link-org', scope: 'organization', type: 'view' }] },
+                    { id: `${userId}-budget`, name: 'Budget.xlsx', size: 1_250_000, links: [{ permissionId: 'link-anon', scope: 'anonymous', type: 'edit' }] },
+                    { id: `${userId}-deck`, name: 'Quarterly Review.pptx', size: 8_400_000, links: [] }
+                ],
+                grants: new Map()
+            };
+            this.drives.set(userId, drive);
+        }
+        return drive;
+    }
+
+    private driveUrl(user: User): string {
+        return `https://contoso-my.sharepoint.com/personal/${user.userPrincipalName.replace(/[@.]/g, '_')}/Documents`;
+    }
+
+    private findTeam(teamId: string): MockTeam {
+        const team = this.teams.find(t => t.id === teamId);
+        if (!team) {
+            const error: GraphError = {
+                code: 'NotFound',
+                message: `Team ${teamId} not found`,
+                statusCode: 404,
+                retryable: false
+            };
+            throw error;
+        }
+        return team;
+    }
+
+    private findChannel(teamId: string, channelId: string): MockTeam['channels'][number] {
+        const channel = this.findTeam(teamId).channels.find(c => c.id === channelId);
+        if (!channel) {
+            const error: GraphError = {
+                code: 'NotFound',
+                message: `Channel ${channelId} not found`,
+                statusCode: 404,
+                retryable: false
+            };
+            throw error;
+        }
+        return channel;
+    }
+
+    private teamMember(userId: string, owner: boolean): MockTeamMember {
+        return { id: `member-${userId}`, userId, owner };
+    }
+
+    private findDevice(predicate: (device: Device) => boolean): Device {
+        const device = this.users.flatMap(u => u.ownedDevices || []).find(predicate);
+        if (!device) {
+            const error: GraphError = {
+                code: 'Request_ResourceNotFound',
+                message: 'Device not found',
+                statusCode: 404,
+                retryable: false
+            };
+            throw error;
+        }
+        return device;
+    }
+
+    private clone(user: User): User {
+        return JSON.parse(JSON.stringify(user));
+    }
+
+    private delay(): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+}
@@ -3,19 +3,59 @@ import {
     OffboardingTask, 
     OffboardingConfig, 
     OffboardingProgress,
-    TaskStatus,
-    TaskCategory,
-    TaskPriority,
+    OffboardingExecutionOptions,
+    RetryPolicy,
+    RollbackAction,
+    RollbackOptions,
+    OffboardingRollback,
+    OffboardingPlan,
+    BackupLocation,
+    Device,
+    DriveInventory,
+    DeviceActionResult,
+    DeviceOffboardingPolicy,
+    PlannedGraphCall,
+    PlannedTask,
+    TaskAttempt,
+    TaskChanges,
+    GraphError,
+    BlockingIssue,
+    OwnedResource,
+    OwnershipCandidate,
+    OwnershipReassignment,
+    TeamMembership,
     User
 } from '../types/offboarding';
-import { MicrosoftGraphService } from './graphService';
+import { GraphService } from './graphService';
+import { RetentionApiService } from './retentionApiService';
+import { graphScopes } from '../authConfig';
+
+// Permissions that satisfy each kind of Graph write, least privileged first; holding any one is enough
+const userWriteScopes = [...graphScopes.userReadWriteAll, ...graphScopes.directoryReadWriteAll];
+const deviceWriteScopes = [...graphScopes.directoryAccessAsUserAll];
+const filesScopes = [...graphScopes.filesReadWriteAll];
+const mailboxSettingsScopes = [...graphScopes.mailboxSettingsReadWrite];
+const intuneActionScopes = [...graphScopes.deviceManagementManagedDevicesPrivilegedOperationsAll];
+const teamMemberScopes = [...graphScopes.teamMemberReadWriteAll];
+const channelMemberScopes = [...graphScopes.channelMemberReadWriteAll];
+
+// Reports the sole-owner pre-flight's blocking issues in place of a task ID
+const OWNERSHIP_ANALYSIS = 'ownership-analysis';
+// Tasks that take away the user's ownership, held back until sole ownership has been handed over
+const OWNERSHIP_REMOVAL_TASKS = ['remove-from-groups', 'remove-from-teams'];
+const groupMemberWriteScopes = [
+    ...graphScopes.groupMemberReadWriteAll,
+    ...graphScopes.groupReadWriteAll,
+    ...graphScopes.directoryReadWriteAll
+];
 
 /**
  * Employee Offboarding Service
  * Orchestrates the complete employee offboarding process following Microsoft best practices
  */
 export class OffboardingService {
-    private graphService: MicrosoftGraphService;
+    private graphService: GraphService;
+    private retentionApi: RetentionApiService;
     private defaultConfig: OffboardingConfig = {
         immediateDisable: true,
         revokeAllSessions: true,
@@ -23,18 +63,33 @@ export class OffboardingService {
         removeFromGroups: true,
         removeFromTeams: true,
         disableDevices: true,
+        devicePolicy: {
+            corporate: { disable: true, intuneAction: 'wipe' },
+            personal: { disable: true, intuneAction: 'retire' } // Never factory-reset a personal device
+        },
         removeLicenses: true,
         convertMailboxToShared: false, // Requires Exchange Online admin
         retainMailboxDays: 30,
+        setAutoReply: true,
         backupUserData: true,
+        oneDriveHandoff: 'grant-access',
+        revokeExternalSharing: true,
         deleteUserAfterDays: 90,
         requireManagerApproval: false,
         notifyIT: true,
         notifyManager: true
     };
+    private defaultRetryPolicy: RetryPolicy = {
+        maxAttempts: 4,
+        initialDelayMs: 1000,
+        maxDelayMs: 30000,
+        backoffMultiplier: 2,
+        jitter: 0.5
+    };
 
-    constructor(graphService: MicrosoftGraphService) {
+    constructor(graphService: GraphService, retentionApi: RetentionApiService) {
         this.graphService = graphService;
+        this.retentionApi = retentionApi;
     }
 
     /**
@@ -58,12 +113,35 @@ export class OffboardingService {
             tasks,
             createdAt: new Date(),
             lastUpdated: new Date(),
-            backupLocations: []
+            backupLocations: [],
+            config: finalConfig
         };
 
         return session;
     }
 
+    /**
+     * Pick up a session from the bot's session store. Sessions that have not started yet
+     * get their tasks generated from the user's current groups, licenses and devices.
+     */
+    async resumeOffboardingSession(stored: OffboardingSession): Promise<OffboardingSession> {
+        const config = { ...this.defaultConfig, ...stored.config };
+        if (stored.status !== 'created') {
+            return { ...stored, config };
+        }
+
+        const user = await this.graphService.getUser(stored.userId);
+        return {
+            ...stored,
+            userDisplayName: user.displayName,
+            userPrincipalName: user.userPrincipalName,
+            tasks: this.generateOffboardingTasks(user, config),
+            backupLocations: stored.backupLocations || [],
+            config,
+            lastUpdated: new Date()
+        };
+    }
+
     /**
      * Generate comprehensive offboarding tasks based on user and configuration
      */
@@ -79,7 +157,9 @@ export class OffboardingService {
                 status: 'pending',
                 category: 'access',
                 priority: 'high',
-                estimatedDuration: '1 min'
+                estimatedDuration: '1 min',
+                // The account stays usable until this succeeds, so keep trying through throttling
+                retryPolicy: { maxAttempts: 6 }
             });
         }
 
@@ -105,7 +185,9 @@ export class OffboardingService {
                 status: 'pending',
                 category: 'groups',
                 priority: 'high',
-                estimatedDuration: `${Math.ceil(user.memberOf.length / 5)} mins`
+                estimatedDuration: `${Math.ceil(user.memberOf.length / 5)} mins`,
+                // Team owners are promoted before the user loses the underlying group memberships
+                ...(config.removeFromTeams ? { dependencies: ['remove-from-teams'] } : {})
             });
         }
 
@@ -113,7 +195,7 @@ export class OffboardingService {
             tasks.push({
                 id: 'remove-from-teams',
                 name: 'Remove from Microsoft Teams',
-                description: 'Remove user from all Microsoft Teams memberships',
+                description: 'Remove user from joined teams and private/shared channels, handing sole ownership to a successor',
                 status: 'pending',
                 category: 'groups',
                 priority: 'medium',
@@ -139,7 +221,7 @@ export class OffboardingService {
             tasks.push({
                 id: 'disable-devices',
                 name: 'Disable User Devices',
-                description: `Disable ${user.ownedDevices.length} registered devices`,
+                description: `Disable ${user.ownedDevices.length} registered devices and retire or wipe them in Intune`,
                 status: 'pending',
                 category: 'devices',
                 priority: 'medium',
@@ -152,8 +234,8 @@ export class OffboardingService {
             tasks.push(
                 {
                     id: 'backup-onedrive',
-                    name: 'Identify OneDrive Data',
-                    description: 'Catalog and prepare OneDrive files for backup or transfer',
+                    name: 'Inventory OneDrive Data',
+                    description: 'Count files, size and sharing links in the user\'s OneDrive',
                     status: 'pending',
                     category: 'data',
                     priority: 'medium',
@@ -169,16 +251,68 @@ export class OffboardingService {
                     estimatedDuration: '3 mins'
                 }
             );
+
+            if (config.revokeExternalSharing) {
+                tasks.push({
+                    id: 'revoke-external-sharing',
+                    name: 'Revoke External Sharing Links',
+                    description: 'Remove anonymous sharing links on OneDrive files',
+                    status: 'pending',
+                    category: 'data',
+                    priority: 'high',
+                    estimatedDuration: '2 mins',
+                    dependencies: ['backup-onedrive']
+                });
+            }
+
+            if (config.oneDriveSuccessor) {
+                tasks.push({
+                    id: 'handoff-onedrive',
+                    name: 'Hand Off OneDrive',
+                    description: config.oneDriveHandoff === 'copy'
+                        ? `Copy OneDrive files into a folder in ${config.oneDriveSuccessor}'s OneDrive`
+                        : `Give ${config.oneDriveSuccessor} edit access to the user's OneDrive`,
+                    status: 'pending',
+                    category: 'data',
+                    priority: 'medium',
+                    estimatedDuration: '5 mins',
+                    dependencies: ['backup-onedrive']
+                });
+            }
         }
 
         // 6. Mailbox Management
+        if (config.setAutoReply) {
+            tasks.push({
+                id: 'set-auto-reply',
+                name: 'Set Automatic Reply',
+                description: 'Tell internal and external senders the user has left',
+                status: 'pending',
+                category: 'mailbox',
+                priority: 'medium',
+                estimatedDuration: '1 min'
+            });
+        }
+
+        if (config.forwardEmailTo) {
+            tasks.push({
+                id: 'forward-email',
+                name: 'Forward Incoming Email',
+                description: `Redirect incoming mail to ${config.forwardEmailTo}`,
+                status: 'pending',
+                category: 'mailbox',
+                priority: 'medium',
+                estimatedDuration: '1 min'
+            });
+        }
+
         if (config.convertMailboxToShared) {
             tasks.push({
                 id: 'convert-mailbox',
                 name: 'Convert to Shared Mailbox',
-                description: 'Convert user mailbox to shared mailbox for continued access',
+                description: `Convert user mailbox to shared mailbox for continued access (retain ${config.retainMailboxDays} days)`,
                 status: 'pending',
-                category: 'cleanup',
+                category: 'mailbox',
                 priority: 'low',
                 estimatedDuration: '10 mins'
             });
@@ -239,52 +373,94 @@ export class OffboardingService {
 
     /**
      * Execute the offboarding process
+     * Tasks run in dependency order, with independent tasks running concurrently up to `maxConcurrentTasks`.
+     * `onProgress` receives a snapshot of the session whenever a task changes status
      */
-    async executeOffboarding(session: OffboardingSession): Promise<OffboardingSession> {
-        const updatedSession = { ...session };
+    async executeOffboarding(
+        session: OffboardingSession,
+        options: OffboardingExecutionOptions = {}
+    ): Promise<OffboardingSession> {
+        const maxConcurrentTasks = Math.max(1, options.maxConcurrentTasks ?? 3);
+        const updatedSession = { ...session, tasks: session.tasks.map(t => ({ ...t })) };
         updatedSession.status = 'in-progress';
         updatedSession.startedAt = new Date();
         updatedSession.lastUpdated = new Date();
 
-        for (const task of updatedSession.tasks) {
-            // Skip tasks with unmet dependencies
-            if (task.dependencies && task.dependencies.length > 0) {
-                const unmetDeps = task.dependencies.filter(depId => {
-                    const depTask = updatedSession.tasks.find(t => t.id === depId);
-                    return !depTask || depTask.status !== 'completed';
-                });
+        const reportProgress = () => {
+            updatedSession.lastUpdated = new Date();
+            options.onProgress?.({ ...updatedSession, tasks: updatedSession.tasks.map(t => ({ ...t })) });
+        };
 
-                if (unmetDeps.length > 0) {
-                    task.status = 'pending';
-                    continue;
-                }
+        const tasks = this.orderTasks(updatedSession.tasks);
+        const ownershipBlock = this.getOwnershipBlock(updatedSession);
+        if (ownershipBlock) {
+            for (const task of tasks.filter(t => t.status === 'pending' && OWNERSHIP_REMOVAL_TASKS.includes(t.id))) {
+                task.status = 'skipped';
+                task.blockedReason = ownershipBlock;
             }
+        }
+
+        const running = new Map<string, Promise<void>>();
+        // Assigned from within runTask, so declared via assertion to avoid narrowing to null
+        let haltedBy = null as OffboardingTask | null;
 
+        const runTask = async (task: OffboardingTask): Promise<void> => {
             try {
-                task.status = 'in-progress';
-                await this.executeTask(task, updatedSession);
-                task.status = 'completed';
-                task.completedAt = new Date();
+                await this.runWithRetry(task, task.retryPolicy, () => this.executeTask(task, updatedSession), reportProgress);
+                if (task.manualStep && !task.manualStep.verifiedAt) {
+                    task.status = 'awaiting-manual';
+                } else {
+                    task.status = 'completed';
+                    task.completedAt = new Date();
+                }
             } catch (error) {
                 console.error(`Task ${task.id} failed:`, error);
                 task.status = 'failed';
-                task.error = error instanceof Error ? error.message : 'Unknown error';
-                
-                // For high priority tasks, we might want to stop the process
-                if (task.priority === 'high' && task.category === 'access') {
-                    updatedSession.status = 'failed';
-                    break;
+                task.error = this.getErrorMessage(error);
+
+                // A failed access revocation leaves the account usable, so stop starting new work
+                if (task.priority === 'high' && task.category === 'access' && !haltedBy) {
+                    haltedBy = task;
                 }
             }
-            
-            updatedSession.lastUpdated = new Date();
+            reportProgress();
+        };
+
+        while (true) {
+            this.skipBlockedTasks(tasks);
+
+            if (!haltedBy) {
+                for (const task of tasks) {
+                    if (running.size >= maxConcurrentTasks) break;
+                    if (task.status !== 'pending' || !this.dependenciesMet(task, tasks)) continue;
+
+                    task.status = 'in-progress';
+                    task.startedAt = new Date();
+                    task.blockedReason = undefined;
+                    running.set(task.id, runTask(task).finally(() => running.delete(task.id)));
+                }
+                reportProgress();
+            }
+
+            if (running.size === 0) break;
+            await Promise.race(running.values());
+        }
+
+        // Anything still pending was never started
+        for (const task of tasks.filter(t => t.status === 'pending')) {
+            task.status = 'skipped';
+            task.blockedReason = haltedBy
+                ? `Not started: offboarding halted after "${haltedBy.name}" failed`
+                : 'Not started: dependencies were never satisfied';
         }
 
         // Update final session status
         const failedTasks = updatedSession.tasks.filter(t => t.status === 'failed');
         const completedTasks = updatedSession.tasks.filter(t => t.status === 'completed');
 
-        if (failedTasks.length === 0) {
+        if (haltedBy) {
+            updatedSession.status = 'failed';
+        } else if (failedTasks.length === 0) {
             updatedSession.status = 'completed';
         } else if (completedTasks.length > failedTasks.length) {
             updatedSession.status = 'completed'; // Partial success
@@ -293,9 +469,1211 @@ export class OffboardingService {
         }
 
         updatedSession.completedAt = new Date();
+        reportProgress();
+        return updatedSession;
+    }
+
+    /**
+     * Dry-run a session: resolve every task into the Graph calls it would make against the user's
+     * current groups, licenses and devices, without changing anything. Calls the signed-in account
+     * lacks permissions for are flagged. Targets are sorted so two plans for the same user diff
+     * cleanly; attach `formatOffboardingPlan(plan)` to an approval request as metadata.
+     */
+    async planOffboarding(session: OffboardingSession): Promise<OffboardingPlan> {
+        const user = await this.graphService.getUser(session.userId);
+        const grantedScopes = [...new Set(await this.graphService.getGrantedScopes())].sort();
+        const granted = new Set(grantedScopes.map(scope => scope.toLowerCase()));
+
+        // Sharing links are only known from a drive inventory, which is read-only
+        let driveInventory: DriveInventory | null = null;
+        if (session.tasks.some(t => t.id === 'revoke-external-sharing')) {
+            try {
+                driveInventory = await this.graphService.getDriveInventory(session.userId);
+            } catch (error) {
+                console.warn('Could not inventory OneDrive for the plan:', error);
+            }
+        }
+
+        let teams: TeamMembership[] | null = null;
+        if (session.tasks.some(t => t.id === 'remove-from-teams')) {
+            try {
+                teams = await this.graphService.getJoinedTeams(session.userId);
+            } catch (error) {
+                console.warn('Could not list joined teams for the plan:', error);
+            }
+        }
+
+        const call = (
+            method: PlannedGraphCall['method'],
+            path: string,
+            description: string,
+            requiredScopes: string[],
+            body?: Record<string, any>
+        ): PlannedGraphCall => {
+            const hasScope = requiredScopes.some(scope => granted.has(scope.toLowerCase()));
+            return {
+                method,
+                path,
+                ...(body ? { body } : {}),
+                description,
+                requiredScopes,
+                willFail: !hasScope,
+                ...(hasScope ? {} : { failureReason: `Missing permission: one of ${requiredScopes.join(', ')}` })
+            };
+        };
+
+        const tasks = this.orderTasks(session.tasks.map(t => ({ ...t })))
+            .map(task => this.planTask(task, user, session.config ?? this.defaultConfig, driveInventory, teams, call));
+
+        const allCalls = tasks.flatMap(t => t.calls);
+        // The least privileged permission that would unblock each call failing for lack of one
+        const missingScopes = [...new Set(
+            allCalls.filter(c => c.failureReason?.startsWith('Missing permission')).map(c => c.requiredScopes[0])
+        )].sort();
+
+        return {
+            schemaVersion: 1,
+            sessionId: session.id,
+            user: {
+                id: user.id,
+                displayName: user.displayName,
+                userPrincipalName: user.userPrincipalName
+            },
+            generatedAt: new Date().toISOString(),
+            grantedScopes,
+            tasks,
+            summary: {
+                totalCalls: allCalls.length,
+                failingCalls: allCalls.filter(c => c.willFail).length,
+                tasksWithIssues: tasks.filter(t => t.willFail).map(t => t.taskId),
+                missingScopes
+            }
+        };
+    }
+
+    /**
+     * Serialize a plan as stable, indented JSON so successive plans can be compared line by line
+     */
+    formatOffboardingPlan(plan: OffboardingPlan): string {
+        return JSON.stringify(plan, null, 2);
+    }
+
+    private planTask(
+        task: OffboardingTask,
+        user: User,
+        config: OffboardingConfig,
+        driveInventory: DriveInventory | null,
+        teams: TeamMembership[] | null,
+        call: (method: PlannedGraphCall['method'], path: string, description: string, requiredScopes: string[], body?: Record<string, any>) => PlannedGraphCall
+    ): PlannedTask {
+        const userPath = `/users/${user.id}`;
+        const byName = <T extends { displayName: string; id: string }>(a: T, b: T) =>
+            a.displayName.localeCompare(b.displayName) || a.id.localeCompare(b.id);
+        const planned: PlannedTask = {
+            taskId: task.id,
+            name: task.name,
+            category: task.category,
+            dependencies: [...(task.dependencies || [])].sort(),
+            automated: true,
+            targets: {},
+            calls: [],
+            notes: [],
+            willFail: false
+        };
+
+        switch (task.id) {
+            case 'disable-account':
+                planned.calls.push(call('PATCH', userPath, 'Disable sign-in', userWriteScopes, { accountEnabled: false }));
+                if (!user.accountEnabled) {
+                    planned.notes.push('Account is already disabled');
+                }
+                break;
+
+            case 'revoke-sessions':
+                planned.calls.push(call('POST', `${userPath}/revokeSignInSessions`, 'Invalidate refresh tokens and session cookies', userWriteScopes));
+                break;
+
+            case 'remove-from-groups': {
+                const groups = [...(user.memberOf || [])].sort(byName);
+                planned.targets.groups = groups;
+                for (const group of groups) {
+                    const removal = call(
+                        'DELETE',
+                        `/groups/${group.id}/members/${user.id}/$ref`,
+                        `Remove from ${group.displayName}`,
+                        groupMemberWriteScopes
+                    );
+                    if (group.groupType?.includes('DynamicMembership')) {
+                        removal.willFail = true;
+                        removal.failureReason = 'Dynamic group: membership is controlled by its rule';
+                    }
+                    planned.calls.push(removal);
+                }
+                break;
+            }
+
+            case 'remove-licenses': {
+                const licenses = [...user.assignedLicenses].sort((a, b) => a.skuId.localeCompare(b.skuId));
+                planned.targets.licenses = licenses;
+                if (licenses.length > 0) {
+                    planned.calls.push(call(
+                        'POST',
+                        `${userPath}/assignLicense`,
+                        `Remove ${licenses.length} license assignments`,
+                        userWriteScopes,
+                        { addLicenses: [], removeLicenses: licenses.map(l => l.skuId) }
+                    ));
+                }
+                break;
+            }
+
+            case 'remove-from-teams': {
+                if (!teams) {
+                    planned.notes.push('Teams could not be listed; memberships are resolved when the task runs');
+                    break;
+                }
+                const successor = config.teamsSuccessor ?? config.oneDriveSuccessor;
+                for (const team of [...teams].sort((a, b) => a.displayName.localeCompare(b.displayName) || a.teamId.localeCompare(b.teamId))) {
+                    if (team.isOwner && team.ownerCount <= 1) {
+                        if (!successor) {
+                            planned.notes.push(`Blocked: ${team.displayName} would be left without an owner; set teamsSuccessor`);
+                            planned.willFail = true;
+                            continue;
+                        }
+                        planned.calls.push(call(
+                            'POST',
+                            `/teams/${team.teamId}/members`,
+                            `Make ${successor} an owner of ${team.displayName}`,
+                            teamMemberScopes,
+                            { roles: ['owner'] }
+                        ));
+                    }
+                    for (const channel of team.channels) {
+                        planned.calls.push(call(
+                            'DELETE',
+                            `/teams/${team.teamId}/channels/${channel.channelId}/members/${channel.membershipId}`,
+                            `Remove from ${channel.membershipType} channel ${channel.displayName}`,
+                            channelMemberScopes
+                        ));
+                    }
+                    planned.calls.push(call(
+                        'DELETE',
+                        `/teams/${team.teamId}/members/${team.membershipId}`,
+                        `Remove from ${team.displayName}`,
+                        teamMemberScopes
+                    ));
+                }
+                break;
+            }
+
+            case 'disable-devices': {
+                const devices = [...(user.ownedDevices || [])].sort(byName);
+                planned.targets.devices = devices;
+                for (const device of devices) {
+                    const policy = this.getDevicePolicy(device, config);
+                    if (policy.disable) {
+                        planned.calls.push(call(
+                            'PATCH',
+                            `/devices/${device.id}`,
+                            `Disable ${device.displayName}`,
+                            deviceWriteScopes,
+                            { accountEnabled: false }
+                        ));
+                    }
+                    if (policy.intuneAction !== 'none') {
+                        if (device.managedDeviceId) {
+                            planned.calls.push(call(
+                                'POST',
+                                `/deviceManagement/managedDevices/${device.managedDeviceId}/${policy.intuneAction}`,
+                                `${policy.intuneAction === 'wipe' ? 'Wipe' : 'Retire'} ${device.displayName} (${device.ownership ?? 'unknown'} device)`,
+                                intuneActionScopes,
+                                policy.intuneAction === 'wipe' ? { keepEnrollmentData: false, keepUserData: false } : undefined
+                            ));
+                        } else {
+                            planned.notes.push(`${device.displayName} is not enrolled in Intune, so it cannot be ${policy.intuneAction === 'wipe' ? 'wiped' : 'retired'}`);
+                        }
+                    }
+                }
+                break;
+            }
+
+            case 'backup-onedrive':
+                planned.calls.push(call('GET', `${userPath}/drive/root/delta`, 'Inventory files, size and sharing links', filesScopes));
+                break;
+
+            case 'revoke-external-sharing':
+                if (!driveInventory) {
+                    planned.notes.push('OneDrive could not be inventoried; links to revoke are resolved when the task runs');
+                    break;
+                }
+                planned.targets.sharingLinks = driveInventory.sharingLinks
+                    .filter(l => l.external)
+                    .sort((a, b) => a.itemName.localeCompare(b.itemName) || a.permissionId.localeCompare(b.permissionId));
+                for (const link of planned.targets.sharingLinks) {
+                    planned.calls.push(call(
+                        'DELETE',
+                        `${userPath}/drive/items/${link.itemId}/permissions/${link.permissionId}`,
+                        `Remove ${link.type} link on ${link.itemName}`,
+                        filesScopes
+                    ));
+                }
+                break;
+
+            case 'handoff-onedrive':
+                planned.calls.push(config.oneDriveHandoff === 'copy'
+                    ? call('POST', `${userPath}/drive/items/{item}/copy`, `Copy each top-level item into ${config.oneDriveSuccessor}'s OneDrive`, filesScopes)
+                    : call(
+                        'POST',
+                        `${userPath}/drive/root/invite`,
+                        `Give ${config.oneDriveSuccessor} edit access`,
+                        filesScopes,
+                        { recipients: [{ email: config.oneDriveSuccessor }], roles: ['write'], sendInvitation: false }
+                    ));
+                break;
+
+            case 'set-auto-reply':
+                planned.calls.push(call(
+                    'PATCH',
+                    `${userPath}/mailboxSettings`,
+                    'Turn on automatic replies',
+                    mailboxSettingsScopes,
+                    { automaticRepliesSetting: { status: 'alwaysEnabled', externalAudience: 'all' } }
+                ));
+                break;
+
+            case 'forward-email':
+                planned.calls.push(call(
+                    'POST',
+                    `${userPath}/mailFolders/inbox/messageRules`,
+                    `Redirect incoming mail to ${config.forwardEmailTo}`,
+                    mailboxSettingsScopes,
+                    { actions: { redirectTo: [{ emailAddress: { address: config.forwardEmailTo } }] } }
+                ));
+                break;
+
+            case 'convert-mailbox':
+                planned.calls.push(call('GET', `${userPath}/mailboxSettings`, 'Verify the mailbox type', mailboxSettingsScopes));
+                planned.notes.push('Manual step: an Exchange Online admin converts the mailbox; the task completes once verified');
+                break;
+
+            case 'schedule-deletion': {
+                const deleteAt = new Date(Date.now() + config.deleteUserAfterDays * 24 * 60 * 60 * 1000);
+                planned.notes.push(
+                    `The bot deletes the account (DELETE ${userPath}) around ${deleteAt.toISOString().slice(0, 10)} ` +
+                    'with its own permissions, unless a legal hold exists; reminders are sent beforehand'
+                );
+                break;
+            }
+
+            default:
+                planned.automated = false;
+                planned.notes.push('Simulated: no Graph calls are made');
+        }
+
+        if (task.status === 'skipped' && task.blockedReason) {
+            planned.notes.push(`Will not run: ${task.blockedReason}`);
+            planned.willFail = true;
+        }
+        planned.willFail = planned.willFail || planned.calls.some(c => c.willFail);
+        return planned;
+    }
+
+    /**
+     * Undo what an executed offboarding changed: cancel the scheduled deletion, reassign removed
+     * licenses, re-add removed group and team memberships, remove the successor's OneDrive access,
+     * undo mail forwarding and automatic replies and re-enable devices, then re-enable the account
+     * once its access is back in place. Revoked sessions, revoked sharing links and Intune
+     * retire/wipe cannot be undone and are reported as skipped, as are promoted team owners.
+     */
+    async rollbackOffboarding(
+        session: OffboardingSession,
+        options: RollbackOptions = {}
+    ): Promise<OffboardingSession> {
+        if (session.status === 'created' || session.status === 'in-progress') {
+            throw new Error(`Cannot roll back an offboarding that is ${session.status}`);
+        }
+        if (session.status === 'rolled-back') {
+            throw new Error('Offboarding has already been rolled back');
+        }
+
+        const updatedSession: OffboardingSession = { ...session, tasks: session.tasks.map(t => ({ ...t })) };
+        const actions = this.generateRollbackActions(updatedSession.tasks);
+        const rollback: OffboardingRollback = { status: 'in-progress', actions, startedAt: new Date() };
+        updatedSession.rollback = rollback;
+
+        const reportProgress = () => {
+            updatedSession.lastUpdated = new Date();
+            options.onProgress?.({
+                ...updatedSession,
+                rollback: { ...rollback, actions: rollback.actions.map(a => ({ ...a })) }
+            });
+        };
+        reportProgress();
+
+        for (const action of actions) {
+            if (action.status !== 'pending') continue;
+
+            action.status = 'in-progress';
+            reportProgress();
+            try {
+                const task = updatedSession.tasks.find(t => t.id === action.taskId)!;
+                await this.runWithRetry(action, task.retryPolicy, () => this.executeRollbackAction(action, task, updatedSession), reportProgress);
+                action.status = 'completed';
+                action.completedAt = new Date();
+            } catch (error) {
+                console.error(`Rollback action ${action.id} failed:`, error);
+                action.status = 'failed';
+                action.error = this.getErrorMessage(error);
+            }
+            reportProgress();
+        }
+
+        rollback.status = actions.some(a => a.status === 'failed') ? 'failed' : 'completed';
+        rollback.completedAt = new Date();
+        if (rollback.status === 'completed') {
+            updatedSession.status = 'rolled-back';
+        }
+        reportProgress();
+        return updatedSession;
+    }
+
+    private generateRollbackActions(tasks: OffboardingTask[]): RollbackAction[] {
+        const actions: RollbackAction[] = [];
+
+        for (const task of tasks.filter(t => t.changes)) {
+            const changes = task.changes!;
+
+            if (changes.scheduledDeletionId) {
+                actions.push({
+                    id: `${task.id}:cancel-deletion`,
+                    taskId: task.id,
+                    name: 'Cancel Account Deletion',
+                    description: 'Cancel the scheduled deletion of the account',
+                    status: 'pending'
+                });
+            }
+
+            if (changes.removedLicenses?.length) {
+                actions.push({
+                    id: `${task.id}:reassign-licenses`,
+                    taskId: task.id,
+                    name: 'Reassign Licenses',
+                    description: `Reassign ${changes.removedLicenses.length} removed licenses`,
+                    status: 'pending'
+                });
+            }
+
+            if (changes.removedGroups?.length) {
+                actions.push({
+                    id: `${task.id}:restore-groups`,
+                    taskId: task.id,
+                    name: 'Restore Group Memberships',
+                    description: `Re-add the user to ${changes.removedGroups.length} groups`,
+                    status: 'pending'
+                });
+            }
+
+            if (changes.removedTeams?.length) {
+                actions.push({
+                    id: `${task.id}:restore-teams`,
+                    taskId: task.id,
+                    name: 'Restore Team Memberships',
+                    description: `Re-add the user to ${changes.removedTeams.length} teams and their private/shared channels`,
+                    status: 'pending'
+                });
+            }
+
+            if (changes.promotedTeamOwners?.length) {
+                actions.push({
+                    id: `${task.id}:team-owners`,
+                    taskId: task.id,
+                    name: 'Demote Successor',
+                    description: changes.promotedTeamOwners.map(p => `${p.successor} in ${p.displayName}`).join(', '),
+                    status: 'skipped',
+                    blockedReason: 'The successor stays an owner so the team keeps more than one; change roles in Teams if needed'
+                });
+            }
+
+            if (changes.sessionsRevoked) {
+                actions.push({
+                    id: `${task.id}:sessions`,
+                    taskId: task.id,
+                    name: 'Restore Sessions',
+                    description: 'Revoked sign-in sessions',
+                    status: 'skipped',
+                    blockedReason: 'Revoked sessions cannot be restored; the user needs to sign in again'
+                });
+            }
+
+            if (changes.driveAccessPermissionIds?.length) {
+                actions.push({
+                    id: `${task.id}:remove-drive-access`,
+                    taskId: task.id,
+                    name: 'Remove Successor OneDrive Access',
+                    description: 'Remove the access granted to the successor',
+                    status: 'pending'
+                });
+            }
+
+            if (changes.revokedSharingLinks?.length) {
+                actions.push({
+                    id: `${task.id}:sharing-links`,
+                    taskId: task.id,
+                    name: 'Restore Sharing Links',
+                    description: changes.revokedSharingLinks.map(l => l.itemName).join(', '),
+                    status: 'skipped',
+                    blockedReason: 'Revoked links cannot be restored; share the files again if needed'
+                });
+            }
+
+            if (changes.forwardingRuleId) {
+                actions.push({
+                    id: `${task.id}:remove-forwarding`,
+                    taskId: task.id,
+                    name: 'Remove Mail Forwarding',
+                    description: 'Delete the inbox rule redirecting incoming mail',
+                    status: 'pending'
+                });
+            }
+
+            if (changes.autoReplyEnabled) {
+                actions.push({
+                    id: `${task.id}:disable-auto-reply`,
+                    taskId: task.id,
+                    name: 'Turn Off Automatic Reply',
+                    description: 'Stop replying to senders that the user has left',
+                    status: 'pending'
+                });
+            }
+
+            if (changes.disabledDevices?.length) {
+                actions.push({
+                    id: `${task.id}:enable-devices`,
+                    taskId: task.id,
+                    name: 'Re-enable Devices',
+                    description: `Re-enable ${changes.disabledDevices.length} disabled devices`,
+                    status: 'pending'
+                });
+            }
+
+            if (changes.intuneActions?.length) {
+                actions.push({
+                    id: `${task.id}:intune-actions`,
+                    taskId: task.id,
+                    name: 'Undo Intune Retire/Wipe',
+                    description: changes.intuneActions.map(a => `${a.displayName} (${a.action})`).join(', '),
+                    status: 'skipped',
+                    blockedReason: 'Retired and wiped devices cannot be restored; re-enroll them in Intune'
+                });
+            }
+
+            if (changes.accountDisabled) {
+                actions.push({
+                    id: `${task.id}:enable-account`,
+                    taskId: task.id,
+                    name: 'Re-enable User Account',
+                    description: 'Allow the user to sign in again',
+                    status: 'pending'
+                });
+            }
+        }
+
+        const order = [
+            ':cancel-deletion',
+            ':reassign-licenses',
+            ':restore-groups',
+            ':restore-teams',
+            ':team-owners',
+            ':remove-drive-access',
+            ':sharing-links',
+            ':remove-forwarding',
+            ':disable-auto-reply',
+            ':enable-devices',
+            ':intune-actions',
+            ':sessions',
+            ':enable-account'
+        ];
+        const rank = (action: RollbackAction) => order.findIndex(suffix => action.id.endsWith(suffix));
+        return actions.sort((a, b) => rank(a) - rank(b));
+    }
+
+    /**
+     * Execute a rollback action. Group re-adds that already succeeded are removed from the task's
+     * record, so retrying (or rolling back again after a failure) only re-adds what is still missing.
+     */
+    private async executeRollbackAction(
+        action: RollbackAction,
+        task: OffboardingTask,
+        session: OffboardingSession
+    ): Promise<void> {
+        const changes = task.changes!;
+
+        if (action.id.endsWith(':cancel-deletion')) {
+            task.scheduledDeletion = await this.retentionApi.cancelDeletion(changes.scheduledDeletionId!, 'Offboarding rolled back');
+            task.changes = { ...task.changes, scheduledDeletionId: undefined };
+        } else if (action.id.endsWith(':reassign-licenses')) {
+            await this.graphService.assignUserLicenses(session.userId, changes.removedLicenses || []);
+            task.changes = { ...task.changes, removedLicenses: undefined };
+        } else if (action.id.endsWith(':restore-groups')) {
+            const failed: string[] = [];
+            for (const group of [...(changes.removedGroups || [])]) {
+                try {
+                    await this.graphService.addUserToGroup(session.userId, group.id);
+                    task.changes = {
+                        ...task.changes,
+                        removedGroups: task.changes!.removedGroups!.filter(g => g.id !== group.id)
+                    };
+                } catch (error) {
+                    const graphError = this.toGraphError(error);
+                    if (graphError.retryable) throw error;
+                    failed.push(`${group.displayName} (${graphError.message})`);
+                }
+            }
+            if (failed.length > 0) {
+                throw new Error(`Could not re-add ${failed.length} group memberships: ${failed.join(', ')}`);
+            }
+        } else if (action.id.endsWith(':restore-teams')) {
+            for (const team of [...(changes.removedTeams || [])]) {
+                await this.graphService.addTeamMember(team.teamId, session.userId, team.isOwner);
+                for (const channel of team.channels) {
+                    await this.graphService.addChannelMember(team.teamId, channel.channelId, session.userId, channel.isOwner);
+                }
+                task.changes = {
+                    ...task.changes,
+                    removedTeams: task.changes!.removedTeams!.filter(t => t.teamId !== team.teamId)
+                };
+            }
+        } else if (action.id.endsWith(':enable-devices')) {
+            for (const device of [...(changes.disabledDevices || [])]) {
+                await this.graphService.enableDevice(device.id);
+                task.changes = {
+                    ...task.changes,
+                    disabledDevices: task.changes!.disabledDevices!.filter(d => d.id !== device.id)
+                };
+            }
+        } else if (action.id.endsWith(':remove-drive-access')) {
+            for (const permissionId of [...(changes.driveAccessPermissionIds || [])]) {
+                await this.graphService.removeDrivePermission(session.userId, 'root', permissionId);
+                task.changes = {
+                    ...task.changes,
+                    driveAccessPermissionIds: task.changes!.driveAccessPermissionIds!.filter(id => id !== permissionId)
+                };
+            }
+        } else if (action.id.endsWith(':remove-forwarding')) {
+            await this.graphService.deleteMessageRule(session.userId, changes.forwardingRuleId!);
+            task.changes = { ...task.changes, forwardingRuleId: undefined };
+        } else if (action.id.endsWith(':disable-auto-reply')) {
+            await this.graphService.disableAutomaticReplies(session.userId);
+            task.changes = { ...task.changes, autoReplyEnabled: undefined };
+        } else if (action.id.endsWith(':enable-account')) {
+            await this.graphService.enableUser(session.userId);
+            task.changes = { ...task.changes, accountDisabled: undefined };
+        }
+    }
+
+    /**
+     * Topologically order tasks, keeping the existing (priority) order among independent tasks.
+     * Tasks with unknown dependencies or in a dependency cycle are marked skipped with a reason.
+     */
+    private orderTasks(tasks: OffboardingTask[]): OffboardingTask[] {
+        const byId = new Map(tasks.map(t => [t.id, t]));
+
+        for (const task of tasks) {
+            const missing = (task.dependencies || []).filter(depId => !byId.has(depId));
+            if (missing.length > 0 && task.status === 'pending') {
+                task.status = 'skipped';
+                task.blockedReason = `Depends on unknown task${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`;
+            }
+        }
+
+        const ordered: OffboardingTask[] = [];
+        const placed = new Set<string>();
+        let remaining = [...tasks];
+
+        while (remaining.length > 0) {
+            const next = remaining.find(t => (t.dependencies || []).every(depId => placed.has(depId) || !byId.has(depId)));
+            if (!next) break;
+            ordered.push(next);
+            placed.add(next.id);
+            remaining = remaining.filter(t => t !== next);
+        }
+
+        for (const task of remaining) {
+            const cycle = this.findCycle(task, byId);
+            if (task.status === 'pending') {
+                task.status = 'skipped';
+                const blocker = remaining.find(t => t !== task && task.dependencies?.includes(t.id));
+                task.blockedReason = cycle
+                    ? `Dependency cycle: ${cycle.join(' → ')}`
+                    : `Dependency "${blocker?.name}" is blocked by a dependency cycle`;
+            }
+            ordered.push(task);
+        }
+
+        return ordered;
+    }
+
+    /**
+     * Return the cycle through `start` as a list of task IDs, if there is one
+     */
+    private findCycle(start: OffboardingTask, byId: Map<string, OffboardingTask>): string[] | null {
+        const visit = (task: OffboardingTask, path: string[]): string[] | null => {
+            for (const depId of task.dependencies || []) {
+                if (depId === start.id) return [...path, depId];
+                const dep = byId.get(depId);
+                if (dep && !path.includes(depId)) {
+                    const cycle = visit(dep, [...path, depId]);
+                    if (cycle) return cycle;
+                }
+            }
+            return null;
+        };
+        return visit(start, [start.id]);
+    }
+
+    /**
+     * Skip pending tasks whose dependencies failed or were skipped.
+     * `tasks` is in dependency order, so one pass propagates through chains.
+     */
+    private skipBlockedTasks(tasks: OffboardingTask[]): void {
+        for (const task of tasks) {
+            if (task.status !== 'pending') continue;
+
+            const blocker = (task.dependencies || [])
+                .map(depId => tasks.find(t => t.id === depId))
+                .find(dep => dep && (dep.status === 'failed' || dep.status === 'skipped'));
+
+            if (blocker) {
+                task.status = 'skipped';
+                task.blockedReason = blocker.status === 'failed'
+                    ? `Dependency "${blocker.name}" failed`
+                    : `Dependency "${blocker.name}" was skipped`;
+            }
+        }
+    }
+
+    private dependenciesMet(task: OffboardingTask, tasks: OffboardingTask[]): boolean {
+        return (task.dependencies || []).every(depId => tasks.find(t => t.id === depId)?.status === 'completed');
+    }
+
+    /**
+     * Run an action, retrying retryable Graph errors with exponential backoff and jitter.
+     * A Retry-After from Graph replaces the computed delay. Every attempt is recorded on the target.
+     */
+    private async runWithRetry(
+        target: { id: string; attempts?: TaskAttempt[]; nextRetryAt?: Date },
+        retryPolicy: Partial<RetryPolicy> | undefined,
+        action: () => Promise<void>,
+        reportProgress: () => void
+    ): Promise<void> {
+        const policy = { ...this.defaultRetryPolicy, ...retryPolicy };
+        target.attempts = [...(target.attempts || [])];
+
+        for (let attempt = 1; ; attempt++) {
+            const startedAt = new Date();
+            try {
+                await action();
+                target.attempts.push({ attempt, startedAt, completedAt: new Date(), status: 'succeeded' });
+                target.nextRetryAt = undefined;
+                return;
+            } catch (error) {
+                const graphError = this.toGraphError(error);
+                const willRetry = graphError.retryable && attempt < policy.maxAttempts;
+                const retryDelayMs = willRetry
+                    ? graphError.retryAfterMs ?? this.getBackoffDelay(policy, attempt)
+                    : undefined;
+
+                target.attempts.push({
+                    attempt,
+                    startedAt,
+                    completedAt: new Date(),
+                    status: 'failed',
+                    error: graphError.message,
+                    errorCode: graphError.code,
+                    retryable: graphError.retryable,
+                    retryDelayMs
+                });
+
+                if (retryDelayMs === undefined) {
+                    target.nextRetryAt = undefined;
+                    throw error;
+                }
+
+                console.warn(`${target.id} attempt ${attempt} failed (${graphError.code}), retrying in ${retryDelayMs}ms`);
+                target.nextRetryAt = new Date(Date.now() + retryDelayMs);
+                reportProgress();
+                await this.wait(retryDelayMs);
+            }
+        }
+    }
+
+    private getBackoffDelay(policy: RetryPolicy, attempt: number): number {
+        const delay = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1));
+        const jitter = Math.min(1, Math.max(0, policy.jitter));
+        return Math.round(delay * (1 - jitter * Math.random()));
+    }
+
+    /**
+     * Errors from GraphService are already GraphErrors; anything else (e.g. a thrown Error) is permanent
+     */
+    private toGraphError(error: any): GraphError {
+        if (error && typeof error.code === 'string' && typeof error.retryable === 'boolean') {
+            return error as GraphError;
+        }
+        return { code: error?.code || 'UNKNOWN_ERROR', message: this.getErrorMessage(error), retryable: false };
+    }
+
+    private getErrorMessage(error: any): string {
+        return error?.message || 'Unknown error';
+    }
+
+    /**
+     * Disable each of the user's devices and issue the Intune action its ownership calls for.
+     * Results are kept per device; a retry only repeats the steps that have not succeeded yet.
+     */
+    private async offboardDevices(task: OffboardingTask, session: OffboardingSession): Promise<void> {
+        const user = await this.graphService.getUser(session.userId);
+        const config = session.config ?? this.defaultConfig;
+        const results = new Map((task.deviceResults || []).map(r => [r.deviceId, { ...r }]));
+        let retryableError: unknown = null;
+
+        for (const device of user.ownedDevices || []) {
+            const policy = this.getDevicePolicy(device, config);
+            const result: DeviceActionResult = results.get(device.id) ?? {
+                deviceId: device.id,
+                displayName: device.displayName,
+                ownership: device.ownership ?? 'unknown',
+                intuneAction: policy.intuneAction
+            };
+            results.set(device.id, result);
+            result.error = undefined;
+
+            try {
+                if (policy.disable && !result.disabled) {
+                    await this.graphService.disableDevice(device.id);
+                    result.disabled = true;
+                    this.recordChanges(task, { disabledDevices: [device] });
+                }
+
+                if (policy.intuneAction !== 'none' && !device.managedDeviceId) {
+                    result.note = `Not enrolled in Intune, so it cannot be ${policy.intuneAction === 'wipe' ? 'wiped' : 'retired'}`;
+                } else if (policy.intuneAction !== 'none' && !result.intuneActionIssued) {
+                    if (policy.intuneAction === 'wipe') {
+                        await this.graphService.wipeManagedDevice(device.managedDeviceId!);
+                    } else {
+                        await this.graphService.retireManagedDevice(device.managedDeviceId!);
+                    }
+                    result.intuneActionIssued = true;
+                    this.recordChanges(task, {
+                        intuneActions: [{ deviceId: device.id, displayName: device.displayName, action: policy.intuneAction }]
+                    });
+                }
+            } catch (error) {
+                result.error = this.getErrorMessage(error);
+                if (this.toGraphError(error).retryable) {
+                    retryableError = retryableError ?? error;
+                }
+            }
+        }
+
+        task.deviceResults = [...results.values()];
+
+        if (retryableError) {
+            throw retryableError;
+        }
+
+        const failed = task.deviceResults.filter(r => r.error);
+        if (failed.length > 0) {
+            throw new Error(`${failed.length} of ${task.deviceResults.length} devices could not be processed: ${failed.map(r => `${r.displayName} (${r.error})`).join(', ')}`);
+        }
+    }
+
+    /**
+     * Leave every joined team and its private/shared channels. Where the user is the only owner,
+     * the configured successor is made an owner first; without one the team is left alone and
+     * reported as a blocking issue on the session.
+     */
+    private async removeFromTeams(task: OffboardingTask, session: OffboardingSession): Promise<void> {
+        const config = session.config ?? this.defaultConfig;
+        const successor = config.teamsSuccessor ?? config.oneDriveSuccessor;
+        const teams = await this.graphService.getJoinedTeams(session.userId);
+        const ownerless: TeamMembership[] = [];
+
+        for (const team of teams) {
+            // A retry must not promote the successor again in teams it already owns
+            const promoted = task.changes?.promotedTeamOwners?.some(p => p.teamId === team.teamId);
+            if (team.isOwner && team.ownerCount <= 1 && !promoted) {
+                if (!successor) {
+                    ownerless.push(team);
+                    continue;
+                }
+                await this.graphService.addTeamMember(team.teamId, successor, true);
+                this.recordChanges(task, {
+                    promotedTeamOwners: [{ teamId: team.teamId, displayName: team.displayName, successor }]
+                });
+            }
+
+            for (const channel of team.channels) {
+                await this.graphService.removeChannelMember(team.teamId, channel.channelId, channel.membershipId);
+            }
+            await this.graphService.removeTeamMember(team.teamId, team.membershipId);
+            this.recordChanges(task, { removedTeams: [team] });
+        }
+
+        this.setBlockingIssues(session, task.id, ownerless.map(team => ({
+            id: `ownerless-team:${team.teamId}`,
+            taskId: task.id,
+            resourceType: 'team',
+            resourceId: team.teamId,
+            resourceName: team.displayName,
+            message: `${session.userDisplayName} is the only owner of ${team.displayName}; set teamsSuccessor or add another owner`,
+            detectedAt: new Date()
+        })));
+
+        if (ownerless.length > 0) {
+            throw new Error(`${ownerless.length} teams would be left without an owner: ${ownerless.map(t => t.displayName).join(', ')}`);
+        }
+    }
+
+    /**
+     * Pre-flight check: find the groups, teams, app registrations and service principals the user is
+     * the only owner of, and who ownership can be handed to (the manager and the configured
+     * successor). Each sole-owned resource stays a blocking issue until it has another owner.
+     */
+    async analyzeOwnership(session: OffboardingSession): Promise<OffboardingSession> {
+        const config = session.config ?? this.defaultConfig;
+        const [resources, manager] = await Promise.all([
+            this.graphService.getOwnedResources(session.userId),
+            this.graphService.getManager(session.userId)
+        ]);
+
+        const candidates: OwnershipCandidate[] = [];
+        if (manager && manager.accountEnabled !== false) {
+            candidates.push({ role: 'manager', userPrincipalName: manager.userPrincipalName, displayName: manager.displayName });
+        }
+        const successor = config.teamsSuccessor ?? config.oneDriveSuccessor;
+        if (successor && !candidates.some(c => c.userPrincipalName.toLowerCase() === successor.toLowerCase())) {
+            candidates.push({ role: 'successor', userPrincipalName: successor, displayName: successor });
+        }
+
+        const updatedSession: OffboardingSession = {
+            ...session,
+            ownershipAnalysis: {
+                analyzedAt: new Date(),
+                resources: [...resources].sort((a, b) =>
+                    a.resourceType.localeCompare(b.resourceType) || a.displayName.localeCompare(b.displayName)
+                ),
+                candidates,
+                reassignments: session.ownershipAnalysis?.reassignments || []
+            },
+            lastUpdated: new Date()
+        };
+        this.setBlockingIssues(updatedSession, OWNERSHIP_ANALYSIS, this.getSoleOwnerIssues(updatedSession));
         return updatedSession;
     }
 
+    /**
+     * Add `newOwner` as an owner of the given analyzed resources. The departing user stays an owner
+     * until removal runs; failures are recorded per resource and leave the blocking issue in place.
+     */
+    async reassignOwnership(
+        session: OffboardingSession,
+        resourceIds: string[],
+        newOwner: string
+    ): Promise<OffboardingSession> {
+        const analysis = session.ownershipAnalysis;
+        if (!analysis) {
+            throw new Error('Analyze ownership before reassigning it');
+        }
+
+        const resources = analysis.resources.map(r => ({ ...r }));
+        const reassignments: OwnershipReassignment[] = [...analysis.reassignments];
+
+        for (const resource of resources.filter(r => resourceIds.includes(r.id))) {
+            try {
+                await this.graphService.addOwner(resource.resourceType, resource.id, newOwner);
+                resource.ownerCount += 1;
+                reassignments.push({ resourceId: resource.id, newOwner, status: 'completed', reassignedAt: new Date() });
+            } catch (error) {
+                console.error(`Failed to add ${newOwner} as owner of ${resource.displayName}:`, error);
+                reassignments.push({
+                    resourceId: resource.id,
+                    newOwner,
+                    status: 'failed',
+                    error: this.getErrorMessage(error),
+                    reassignedAt: new Date()
+                });
+            }
+        }
+
+        const updatedSession: OffboardingSession = {
+            ...session,
+            ownershipAnalysis: { ...analysis, resources, reassignments },
+            lastUpdated: new Date()
+        };
+        this.setBlockingIssues(updatedSession, OWNERSHIP_ANALYSIS, this.getSoleOwnerIssues(updatedSession));
+        return updatedSession;
+    }
+
+    /**
+     * Record a decision to remove the user from groups and teams they are still the only owner of.
+     * Without one, group and team removal is skipped while sole-owner issues remain.
+     */
+    async overrideOwnershipBlock(session: OffboardingSession, reason: string): Promise<OffboardingSession> {
+        if (!reason.trim()) {
+            throw new Error('Give a reason for removing the user while they are still the only owner');
+        }
+
+        const currentUser = await this.graphService.getCurrentUser();
+        return {
+            ...session,
+            ownershipOverride: {
+                overriddenBy: currentUser.userPrincipalName,
+                reason: reason.trim(),
+                overriddenAt: new Date()
+            },
+            lastUpdated: new Date()
+        };
+    }
+
+    /**
+     * Why group and team removal cannot run yet, unless an override has been recorded
+     */
+    private getOwnershipBlock(session: OffboardingSession): string | undefined {
+        if (session.ownershipOverride) return undefined;
+        if (!session.ownershipAnalysis) {
+            return 'Not started: ownership has not been analyzed';
+        }
+
+        const soleOwned = (session.blockingIssues || []).filter(issue => issue.taskId === OWNERSHIP_ANALYSIS);
+        return soleOwned.length > 0
+            ? `Not started: ${session.userDisplayName} is still the only owner of ${soleOwned.length} resources`
+            : undefined;
+    }
+
+    private getSoleOwnerIssues(session: OffboardingSession): BlockingIssue[] {
+        const analysis = session.ownershipAnalysis;
+        const labels: Record<OwnedResource['resourceType'], string> = {
+            group: 'group',
+            team: 'team',
+            application: 'app registration',
+            servicePrincipal: 'enterprise app'
+        };
+
+        return (analysis?.resources || [])
+            .filter(r => r.ownerCount <= 1)
+            .map(r => ({
+                id: `sole-owner:${r.id}`,
+                taskId: OWNERSHIP_ANALYSIS,
+                resourceType: r.resourceType,
+                resourceId: r.id,
+                resourceName: r.displayName,
+                message: `${session.userDisplayName} is the only owner of the ${labels[r.resourceType]} ${r.displayName}`,
+                detectedAt: analysis!.analyzedAt
+            }));
+    }
+
+    /**
+     * Replace the blocking issues a task reported on the session
+     */
+    private setBlockingIssues(session: OffboardingSession, taskId: string, issues: BlockingIssue[]): void {
+        session.blockingIssues = [
+            ...(session.blockingIssues || []).filter(issue => issue.taskId !== taskId),
+            ...issues
+        ];
+    }
+
+    private getDevicePolicy(device: Device, config: OffboardingConfig): DeviceOffboardingPolicy {
+        return device.ownership === 'corporate' ? config.devicePolicy.corporate : config.devicePolicy.personal;
+    }
+
+    /**
+     * Re-check a task waiting on a manual step and complete it once the change is visible in Graph
+     */
+    async verifyManualTask(session: OffboardingSession, taskId: string): Promise<OffboardingSession> {
+        const updatedSession = { ...session, tasks: session.tasks.map(t => ({ ...t })) };
+        const task = updatedSession.tasks.find(t => t.id === taskId);
+        if (!task || task.status !== 'awaiting-manual' || !task.manualStep) {
+            throw new Error(`Task ${taskId} is not waiting on a manual step`);
+        }
+
+        task.manualStep = { ...task.manualStep };
+        await this.checkManualStep(task, updatedSession);
+        if (task.manualStep.verifiedAt) {
+            task.status = 'completed';
+            task.completedAt = task.manualStep.verifiedAt;
+        }
+
+        updatedSession.lastUpdated = new Date();
+        return updatedSession;
+    }
+
+    private async checkManualStep(task: OffboardingTask, session: OffboardingSession): Promise<void> {
+        const step = task.manualStep!;
+        step.lastCheckedAt = new Date();
+
+        switch (task.id) {
+            case 'convert-mailbox': {
+                const purpose = await this.graphService.getMailboxPurpose(session.userId);
+                step.lastCheckResult = `Mailbox type is ${purpose}`;
+                if (purpose === 'shared') {
+                    step.verifiedAt = new Date();
+                }
+                break;
+            }
+        }
+    }
+
+    private async inventoryOneDrive(task: OffboardingTask, session: OffboardingSession): Promise<void> {
+        const inventory = await this.graphService.getDriveInventory(session.userId);
+        task.driveInventory = inventory;
+        this.addBackupLocation(session, {
+            type: 'onedrive',
+            location: inventory.webUrl,
+            size: this.formatBytes(inventory.sizeBytes),
+            sizeBytes: inventory.sizeBytes,
+            itemCount: inventory.fileCount,
+            lastModified: inventory.lastModified ? new Date(inventory.lastModified) : undefined,
+            capturedAt: new Date(),
+            description: `${inventory.fileCount} files in ${inventory.folderCount} folders, ${inventory.sharingLinks.length} sharing links`
+        });
+    }
+
+    /**
+     * Remove the anonymous links found by the inventory; links removed by an earlier attempt are skipped
+     */
+    private async revokeExternalSharing(task: OffboardingTask, session: OffboardingSession): Promise<void> {
+        const inventory = session.tasks.find(t => t.id === 'backup-onedrive')?.driveInventory;
+        if (!inventory) {
+            throw new Error('OneDrive inventory is not available');
+        }
+
+        const revoked = new Set((task.changes?.revokedSharingLinks || []).map(l => l.permissionId));
+        for (const link of inventory.sharingLinks.filter(l => l.external && !revoked.has(l.permissionId))) {
+            await this.graphService.removeDrivePermission(session.userId, link.itemId, link.permissionId);
+            this.recordChanges(task, { revokedSharingLinks: [link] });
+        }
+    }
+
+    private async handOffOneDrive(task: OffboardingTask, session: OffboardingSession): Promise<void> {
+        const config = session.config ?? this.defaultConfig;
+        const successor = config.oneDriveSuccessor;
+        if (!successor) {
+            throw new Error('No OneDrive successor configured');
+        }
+
+        const inventory = session.tasks.find(t => t.id === 'backup-onedrive')?.driveInventory;
+
+        if (config.oneDriveHandoff === 'copy') {
+            // A retry after the copy was accepted must not copy the drive a second time
+            if (task.changes?.driveCopy) return;
+
+            const copy = await this.graphService.copyDriveToUser(
+                session.userId,
+                successor,
+                `${session.userDisplayName} (offboarded ${new Date().toISOString().slice(0, 10)})`
+            );
+            this.recordChanges(task, { driveCopy: copy });
+            this.addBackupLocation(session, {
+                type: 'onedrive',
+                location: copy.folderWebUrl,
+                size: inventory ? this.formatBytes(inventory.sizeBytes) : undefined,
+                sizeBytes: inventory?.sizeBytes,
+                itemCount: copy.itemCount,
+                capturedAt: new Date(),
+                accessGrantedTo: successor,
+                description: `Copy of ${copy.itemCount} top-level items in ${successor}'s OneDrive`
+            });
+        } else if (!task.changes?.driveAccessPermissionIds?.length) {
+            const permissionIds = await this.graphService.grantDriveAccess(session.userId, successor);
+            this.recordChanges(task, { driveAccessPermissionIds: permissionIds });
+            const original = session.backupLocations?.find(l => l.type === 'onedrive' && l.location === inventory?.webUrl);
+            if (original) {
+                this.addBackupLocation(session, { ...original, accessGrantedTo: successor });
+            }
+        }
+    }
+
+    /**
+     * Hand the deletion to the bot's retention scheduler, which sends reminders, honours legal holds
+     * and deletes the account when due. Scheduling is idempotent per session, so retries are safe.
+     */
+    private async scheduleDeletion(task: OffboardingTask, session: OffboardingSession): Promise<void> {
+        const config = session.config ?? this.defaultConfig;
+        const deletion = await this.retentionApi.scheduleDeletion({
+            sessionId: session.id,
+            userId: session.userId,
+            userPrincipalName: session.userPrincipalName,
+            displayName: session.userDisplayName,
+            deleteAfterDays: config.deleteUserAfterDays
+        });
+        task.scheduledDeletion = deletion;
+        this.recordChanges(task, { scheduledDeletionId: deletion.id });
+    }
+
+    /**
+     * Add or replace a backup location, keyed by type and location
+     */
+    private addBackupLocation(session: OffboardingSession, location: BackupLocation): void {
+        session.backupLocations = [
+            ...(session.backupLocations || []).filter(l => l.type !== location.type || l.location !== location.location),
+            location
+        ];
+    }
+
+    private formatBytes(bytes: number): string {
+        const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+        let value = bytes;
+        let unit = 0;
+        while (value >= 1024 && unit < units.length - 1) {
+            value /= 1024;
+            unit++;
+        }
+        return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+    }
+
+    private getAutoReplyMessage(session: OffboardingSession): string {
+        const config = session.config ?? this.defaultConfig;
+        if (config.autoReplyMessage) {
+            return config.autoReplyMessage;
+        }
+
+        const contact = config.forwardEmailTo ? ` Please contact ${config.forwardEmailTo} instead.` : '';
+        return `${session.userDisplayName} is no longer with the organization.${contact}`;
+    }
+
+    /**
+     * Merge changes into the task's record; a retried task keeps what earlier attempts changed
+     */
+    private recordChanges(task: OffboardingTask, changes: TaskChanges): void {
+        const current = task.changes || {};
+        task.changes = {
+            ...current,
+            ...changes,
+            removedGroups: changes.removedGroups
+                ? [...(current.removedGroups || []), ...changes.removedGroups]
+                : current.removedGroups,
+            removedLicenses: changes.removedLicenses
+                ? [...(current.removedLicenses || []), ...changes.removedLicenses]
+                : current.removedLicenses,
+            disabledDevices: changes.disabledDevices
+                ? [...(current.disabledDevices || []), ...changes.disabledDevices]
+                : current.disabledDevices,
+            intuneActions: changes.intuneActions
+                ? [...(current.intuneActions || []), ...changes.intuneActions]
+                : current.intuneActions,
+            revokedSharingLinks: changes.revokedSharingLinks
+                ? [...(current.revokedSharingLinks || []), ...changes.revokedSharingLinks]
+                : current.revokedSharingLinks,
+            removedTeams: changes.removedTeams
+                ? [...(current.removedTeams || []), ...changes.removedTeams]
+                : current.removedTeams,
+            promotedTeamOwners: changes.promotedTeamOwners
+                ? [...(current.promotedTeamOwners || []), ...changes.promotedTeamOwners]
+                : current.promotedTeamOwners
+        };
+    }
+
     /**
      * Execute individual offboarding task
      */
@@ -303,23 +1681,69 @@ export class OffboardingService {
         switch (task.id) {
             case 'disable-account':
                 await this.graphService.disableUser(session.userId);
+                this.recordChanges(task, { accountDisabled: true });
                 break;
 
             case 'revoke-sessions':
                 await this.graphService.revokeUserSessions(session.userId);
+                this.recordChanges(task, { sessionsRevoked: true });
                 break;
 
-            case 'remove-from-groups':
-                await this.graphService.removeUserFromAllGroups(session.userId);
+            case 'remove-from-groups': {
+                const { success } = await this.graphService.removeUserFromAllGroups(session.userId);
+                this.recordChanges(task, { removedGroups: success });
                 break;
+            }
+
+            case 'remove-licenses': {
+                const removed = await this.graphService.removeUserLicenses(session.userId);
+                this.recordChanges(task, { removedLicenses: removed });
+                break;
+            }
 
-            case 'remove-licenses':
-                await this.graphService.removeUserLicenses(session.userId);
+            case 'remove-from-teams':
+                await this.removeFromTeams(task, session);
+                break;
+
+            case 'disable-devices':
+                await this.offboardDevices(task, session);
+                break;
+
+            case 'set-auto-reply':
+                await this.graphService.setAutomaticReplies(session.userId, this.getAutoReplyMessage(session));
+                this.recordChanges(task, { autoReplyEnabled: true });
+                break;
+
+            case 'forward-email': {
+                if (task.changes?.forwardingRuleId) break; // Created by an earlier attempt
+                const forwardTo = session.config?.forwardEmailTo;
+                if (!forwardTo) {
+                    throw new Error('No forwarding address configured');
+                }
+                const ruleId = await this.graphService.createForwardingRule(session.userId, forwardTo);
+                this.recordChanges(task, { forwardingRuleId: ruleId });
+                break;
+            }
+
+            case 'convert-mailbox':
+                task.manualStep = {
+                    instructions: `Convert the mailbox to a shared mailbox in Exchange Online and keep it for ${session.config?.retainMailboxDays ?? this.defaultConfig.retainMailboxDays} days. ` +
+                        'Do this before the license grace period ends, then verify here.',
+                    command: `Set-Mailbox -Identity "${session.userPrincipalName}" -Type Shared`
+                };
+                await this.checkManualStep(task, session);
                 break;
 
             case 'backup-onedrive':
-                // In a real implementation, this would involve SharePoint APIs
-                await this.simulateTask(2000);
+                await this.inventoryOneDrive(task, session);
+                break;
+
+            case 'revoke-external-sharing':
+                await this.revokeExternalSharing(task, session);
+                break;
+
+            case 'handoff-onedrive':
+                await this.handOffOneDrive(task, session);
                 break;
 
             case 'backup-email':
@@ -334,8 +1758,7 @@ export class OffboardingService {
                 break;
 
             case 'schedule-deletion':
-                // In a real implementation, this would create a scheduled task
-                await this.simulateTask(500);
+                await this.scheduleDeletion(task, session);
                 break;
 
             default:
@@ -364,6 +1787,10 @@ export class OffboardingService {
         };
     }
 
+    private wait(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
     /**
      * Simulate task execution for demo purposes
      */
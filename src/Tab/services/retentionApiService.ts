@@ -0,0 +1,52 @@
+import { ScheduledDeletion } from '../types/offboarding';
+import { ApiTokenProvider } from './apiTokenProvider';
+
+export interface ScheduleDeletionRequest {
+    sessionId: string;
+    userId: string;
+    userPrincipalName: string;
+    displayName: string;
+    deleteAfterDays: number;
+    reminderDaysBefore?: number[];
+    notifyRecipients?: string[];
+}
+
+/**
+ * Client for the retention API served by the bot (src/index.ts), which deletes accounts when due.
+ * The API records the signed-in caller as the requester, and requires the admin app role.
+ */
+export class RetentionApiService {
+    constructor(private tokenProvider: ApiTokenProvider, private baseUrl: string = '/api/retention') {}
+
+    async scheduleDeletion(request: ScheduleDeletionRequest): Promise<ScheduledDeletion> {
+        return this.request<ScheduledDeletion>('POST', '/deletions', request);
+    }
+
+    async getDeletion(deletionId: string): Promise<ScheduledDeletion> {
+        return this.request<ScheduledDeletion>('GET', `/deletions/${encodeURIComponent(deletionId)}`);
+    }
+
+    async cancelDeletion(deletionId: string, reason?: string): Promise<ScheduledDeletion> {
+        return this.request<ScheduledDeletion>('POST', `/deletions/${encodeURIComponent(deletionId)}/cancel`, { reason });
+    }
+
+    private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method,
+            headers: {
+                Authorization: `Bearer ${await this.tokenProvider.getToken()}`,
+                ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+            },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+
+        const text = await response.text();
+        const data = text ? JSON.parse(text) : undefined;
+
+        if (!response.ok) {
+            throw new Error(data?.error || `Request failed with status ${response.status}`);
+        }
+
+        return data as T;
+    }
+}
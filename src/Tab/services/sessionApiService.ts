@@ -0,0 +1,59 @@
+import { OffboardingSession, SESSION_DATE_FIELDS } from '../types/offboarding';
+import { ApiTokenProvider } from './apiTokenProvider';
+
+export interface SessionFilters {
+    status?: OffboardingSession['status'];
+    userId?: string;
+    source?: OffboardingSession['source'];
+}
+
+const DATE_FIELDS = new Set(SESSION_DATE_FIELDS);
+
+/**
+ * Client for the offboarding session store served by the bot (src/index.ts), shared with its agent tools.
+ * The store records the signed-in caller as creator and editor, and requires the admin app role.
+ */
+export class SessionApiService {
+    constructor(private tokenProvider: ApiTokenProvider, private baseUrl: string = '/api/sessions') {}
+
+    async createSession(session: OffboardingSession): Promise<OffboardingSession> {
+        return this.request<OffboardingSession>('POST', '', session);
+    }
+
+    async getSession(sessionId: string): Promise<OffboardingSession> {
+        return this.request<OffboardingSession>('GET', `/${encodeURIComponent(sessionId)}`);
+    }
+
+    async listSessions(filters: SessionFilters = {}): Promise<OffboardingSession[]> {
+        const query = new URLSearchParams(
+            Object.entries(filters).filter((entry): entry is [string, string] => !!entry[1])
+        ).toString();
+        return this.request<OffboardingSession[]>('GET', query ? `?${query}` : '');
+    }
+
+    async updateSession(session: OffboardingSession): Promise<OffboardingSession> {
+        return this.request<OffboardingSession>('PATCH', `/${encodeURIComponent(session.id)}`, session);
+    }
+
+    private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method,
+            headers: {
+                Authorization: `Bearer ${await this.tokenProvider.getToken()}`,
+                ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+            },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+
+        const text = await response.text();
+        const data = text
+            ? JSON.parse(text, (key, value) => (DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value))
+            : undefined;
+
+        if (!response.ok) {
+            throw new Error(data?.error || `Request failed with status ${response.status}`);
+        }
+
+        return data as T;
+    }
+}
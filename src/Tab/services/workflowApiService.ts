@@ -0,0 +1,70 @@
+import { Workflow, WorkflowStep, WorkflowValidationResult } from '../types/workflow';
+import { ApiTokenProvider } from './apiTokenProvider';
+
+/**
+ * Client for the workflow builder API served by the bot (src/index.ts).
+ * Editing and publishing require the admin app role; the API records the signed-in caller as publisher.
+ */
+export class WorkflowApiService {
+    constructor(private tokenProvider: ApiTokenProvider, private baseUrl: string = '/api/workflows') {}
+
+    async listWorkflows(): Promise<Workflow[]> {
+        return this.request<Workflow[]>('GET', '');
+    }
+
+    async getWorkflow(workflowId: string): Promise<Workflow> {
+        return this.request<Workflow>('GET', `/${encodeURIComponent(workflowId)}`);
+    }
+
+    async validateWorkflow(workflowId: string): Promise<WorkflowValidationResult> {
+        return this.request<WorkflowValidationResult>('GET', `/${encodeURIComponent(workflowId)}/validation`);
+    }
+
+    async addWorkflowStep(workflowId: string, step: Omit<WorkflowStep, 'id'>): Promise<WorkflowStep> {
+        return this.request<WorkflowStep>('POST', `/${encodeURIComponent(workflowId)}/steps`, step);
+    }
+
+    async updateWorkflowStep(
+        workflowId: string,
+        stepId: string,
+        updates: Partial<Omit<WorkflowStep, 'id'>>
+    ): Promise<WorkflowStep> {
+        return this.request<WorkflowStep>(
+            'PATCH',
+            `/${encodeURIComponent(workflowId)}/steps/${encodeURIComponent(stepId)}`,
+            updates
+        );
+    }
+
+    async removeWorkflowStep(workflowId: string, stepId: string): Promise<void> {
+        await this.request<void>('DELETE', `/${encodeURIComponent(workflowId)}/steps/${encodeURIComponent(stepId)}`);
+    }
+
+    async connectWorkflowSteps(workflowId: string, fromStepId: string, toStepId: string): Promise<void> {
+        await this.request<void>('POST', `/${encodeURIComponent(workflowId)}/connections`, { fromStepId, toStepId });
+    }
+
+    async publishWorkflow(workflowId: string): Promise<Workflow> {
+        return this.request<Workflow>('POST', `/${encodeURIComponent(workflowId)}/publish`);
+    }
+
+    private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method,
+            headers: {
+                Authorization: `Bearer ${await this.tokenProvider.getToken()}`,
+                ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+            },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+
+        const text = await response.text();
+        const data = text ? JSON.parse(text) : undefined;
+
+        if (!response.ok) {
+            throw new Error(data?.error || `Request failed with status ${response.status}`);
+        }
+
+        return data as T;
+    }
+}
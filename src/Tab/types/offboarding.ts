@@ -38,41 +38,271 @@ export interface Device {
     accountEnabled: boolean;
     isManaged: boolean;
     lastSignInDateTime?: string;
+    ownership?: DeviceOwnership;
+    managedDeviceId?: string; // Intune managed device ID, when enrolled
+}
+
+export type DeviceOwnership = 'corporate' | 'personal' | 'unknown';
+
+export interface TeamMembership {
+    teamId: string;
+    displayName: string;
+    membershipId: string; // The user's conversation member ID in the team
+    isOwner: boolean;
+    ownerCount: number;
+    channels: ChannelMembership[]; // Private and shared channels the user belongs to
+}
+
+export interface ChannelMembership {
+    channelId: string;
+    displayName: string;
+    membershipType: 'private' | 'shared';
+    membershipId: string;
+    isOwner: boolean;
+}
+
+/**
+ * A directory object the user owns. SharePoint sites are covered through the Microsoft 365 group that owns them;
+ * sites without a group (communication and classic sites) are not analyzed.
+ */
+export interface OwnedResource {
+    id: string;
+    displayName: string;
+    resourceType: 'group' | 'team' | 'application' | 'servicePrincipal';
+    ownerCount: number; // Including the departing user
+    siteUrl?: string; // SharePoint site of a Microsoft 365 group
+}
+
+export interface OwnershipCandidate {
+    role: 'manager' | 'successor';
+    userPrincipalName: string;
+    displayName: string;
+}
+
+/**
+ * Pre-flight check for resources the departing user is the only owner of
+ */
+export interface OwnershipAnalysis {
+    analyzedAt: Date;
+    resources: OwnedResource[];
+    candidates: OwnershipCandidate[]; // Who ownership can be handed to
+    reassignments: OwnershipReassignment[];
+}
+
+/**
+ * Recorded decision to remove the user from groups and teams while they are still the only owner of some
+ */
+export interface OwnershipOverride {
+    overriddenBy: string;
+    reason: string;
+    overriddenAt: Date;
+}
+
+export interface OwnershipReassignment {
+    resourceId: string;
+    newOwner: string;
+    status: 'completed' | 'failed';
+    error?: string;
+    reassignedAt: Date;
+}
+
+export interface DeviceOffboardingPolicy {
+    disable: boolean; // Disable the Entra ID device object
+    intuneAction: 'none' | 'retire' | 'wipe'; // Retire removes company data only; wipe factory-resets
+}
+
+export interface DeviceActionResult {
+    deviceId: string;
+    displayName: string;
+    ownership: DeviceOwnership;
+    disabled?: boolean;
+    intuneAction: DeviceOffboardingPolicy['intuneAction'];
+    intuneActionIssued?: boolean;
+    note?: string;
+    error?: string;
 }
 
 export interface OffboardingTask {
     id: string;
     name: string;
     description: string;
-    status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'skipped';
-    category: 'access' | 'data' | 'devices' | 'groups' | 'licenses' | 'cleanup';
+    status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'skipped' | 'awaiting-manual';
+    category: 'access' | 'data' | 'devices' | 'groups' | 'licenses' | 'mailbox' | 'cleanup';
     priority: 'high' | 'medium' | 'low';
     estimatedDuration?: string;
+    startedAt?: Date;
     completedAt?: Date;
     error?: string;
     dependencies?: string[];
+    blockedReason?: string; // Why a skipped or unstarted task could not run
+    retryPolicy?: Partial<RetryPolicy>; // Overrides the service default for this task
+    attempts?: TaskAttempt[];
+    nextRetryAt?: Date;
+    changes?: TaskChanges; // What the task changed, used to roll it back
+    deviceResults?: DeviceActionResult[];
+    manualStep?: ManualStep;
+    driveInventory?: DriveInventory;
+    scheduledDeletion?: ScheduledDeletion;
+}
+
+/**
+ * A step an administrator has to perform outside Graph, completed once verification passes
+ */
+export interface ManualStep {
+    instructions: string;
+    command?: string;
+    lastCheckedAt?: Date;
+    lastCheckResult?: string;
+    verifiedAt?: Date;
+}
+
+export interface TaskChanges {
+    accountDisabled?: boolean;
+    sessionsRevoked?: boolean;
+    removedGroups?: GroupMembership[];
+    removedLicenses?: AssignedLicense[];
+    disabledDevices?: Device[];
+    intuneActions?: { deviceId: string; displayName: string; action: 'retire' | 'wipe' }[];
+    autoReplyEnabled?: boolean;
+    forwardingRuleId?: string;
+    driveAccessPermissionIds?: string[]; // Granted on the drive root to the successor
+    driveCopy?: { folderWebUrl: string; itemCount: number }; // Folder the drive was copied to in the successor's OneDrive
+    revokedSharingLinks?: DriveSharingLink[];
+    scheduledDeletionId?: string;
+    removedTeams?: TeamMembership[];
+    promotedTeamOwners?: { teamId: string; displayName: string; successor: string }[];
+}
+
+/**
+ * Something that has to be resolved before a task can finish, e.g. a team that would lose its last owner
+ */
+export interface BlockingIssue {
+    id: string;
+    taskId: string; // Reporting task, or 'ownership-analysis' for the sole-owner pre-flight
+    resourceType: OwnedResource['resourceType'];
+    resourceId: string;
+    resourceName: string;
+    message: string;
+    detectedAt: Date;
 }
 
+/**
+ * Account deletion held by the bot's retention service until deleteUserAfterDays have passed
+ */
+export interface ScheduledDeletion {
+    id: string;
+    sessionId: string;
+    userId: string;
+    userPrincipalName: string;
+    deleteAt: string; // ISO timestamp
+    reminderDaysBefore: number[];
+    status: 'scheduled' | 'blocked' | 'deleted' | 'failed' | 'cancelled';
+    blockedBy?: string[]; // Legal holds preventing the deletion
+    error?: string;
+}
+
+export interface RollbackAction {
+    id: string;
+    taskId: string; // The offboarding task being compensated
+    name: string;
+    description: string;
+    status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'skipped';
+    completedAt?: Date;
+    error?: string;
+    blockedReason?: string;
+    attempts?: TaskAttempt[];
+    nextRetryAt?: Date;
+}
+
+export interface OffboardingRollback {
+    status: 'in-progress' | 'completed' | 'failed';
+    actions: RollbackAction[];
+    startedAt: Date;
+    completedAt?: Date;
+}
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    initialDelayMs: number;
+    maxDelayMs: number;
+    backoffMultiplier: number;
+    jitter: number; // 0-1, fraction of each delay that is randomized
+}
+
+export interface TaskAttempt {
+    attempt: number;
+    startedAt: Date;
+    completedAt: Date;
+    status: 'succeeded' | 'failed';
+    error?: string;
+    errorCode?: string;
+    retryable?: boolean;
+    retryDelayMs?: number; // Wait before the next attempt, when one follows
+}
+
+/**
+ * Keys of the fields typed as Date in an offboarding session. JSON carries them as ISO strings,
+ * so the Tab and the bot's session store revive these keys when a session crosses HTTP.
+ */
+export const SESSION_DATE_FIELDS = [
+    'createdAt', 'startedAt', 'completedAt', 'lastUpdated', 'nextRetryAt', 'lastCheckedAt',
+    'verifiedAt', 'capturedAt', 'lastModified', 'analyzedAt', 'reassignedAt', 'detectedAt',
+    'overriddenAt'
+];
+
 export interface OffboardingSession {
     id: string;
     userId: string;
     userDisplayName: string;
     userPrincipalName: string;
-    status: 'created' | 'in-progress' | 'completed' | 'failed';
+    status: 'created' | 'in-progress' | 'completed' | 'failed' | 'rolled-back';
     tasks: OffboardingTask[];
     createdAt: Date;
     startedAt?: Date;
     completedAt?: Date;
     lastUpdated: Date;
+    createdBy?: string; // Set by the bot's session store
+    source?: 'bot' | 'tab'; // Where the session was started
+    reason?: string;
+    lastWorkingDay?: string; // YYYY-MM-DD
     notes?: string;
     backupLocations?: BackupLocation[];
+    rollback?: OffboardingRollback;
+    config?: OffboardingConfig;
+    blockingIssues?: BlockingIssue[];
+    ownershipAnalysis?: OwnershipAnalysis;
+    ownershipOverride?: OwnershipOverride;
 }
 
 export interface BackupLocation {
     type: 'onedrive' | 'sharepoint' | 'teams' | 'email';
     location: string;
     size?: string;
+    sizeBytes?: number;
+    itemCount?: number;
     lastModified?: Date;
+    capturedAt?: Date;
+    accessGrantedTo?: string; // Successor given access to this location
+    description?: string;
+}
+
+export interface DriveSharingLink {
+    itemId: string;
+    itemName: string;
+    permissionId: string;
+    scope: 'anonymous' | 'organization' | 'users' | string;
+    type: string; // view, edit, embed...
+    external: boolean; // Usable without signing in to the tenant
+}
+
+export interface DriveInventory {
+    driveId: string;
+    webUrl: string;
+    fileCount: number;
+    folderCount: number;
+    sizeBytes: number;
+    lastModified?: string;
+    sharingLinks: DriveSharingLink[];
 }
 
 export interface OffboardingConfig {
@@ -82,20 +312,88 @@ export interface OffboardingConfig {
     removeFromGroups: boolean;
     removeFromTeams: boolean;
     disableDevices: boolean;
+    devicePolicy: Record<'corporate' | 'personal', DeviceOffboardingPolicy>; // Unknown ownership uses the personal policy
     removeLicenses: boolean;
     convertMailboxToShared: boolean;
     retainMailboxDays: number;
     forwardEmailTo?: string;
+    setAutoReply: boolean;
+    autoReplyMessage?: string; // Defaults to a notice naming forwardEmailTo when set
     backupUserData: boolean;
+    oneDriveSuccessor?: string; // UPN or email of the person taking over the user's files
+    oneDriveHandoff: 'grant-access' | 'copy';
+    revokeExternalSharing: boolean;
+    teamsSuccessor?: string; // Promoted to owner of teams the user solely owns; defaults to oneDriveSuccessor
     deleteUserAfterDays: number;
     requireManagerApproval: boolean;
     notifyIT: boolean;
     notifyManager: boolean;
 }
 
+export interface PlannedGraphCall {
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+    path: string;
+    body?: Record<string, any>;
+    description: string;
+    requiredScopes: string[]; // Any one of these is sufficient
+    willFail: boolean;
+    failureReason?: string;
+}
+
+export interface PlannedTask {
+    taskId: string;
+    name: string;
+    category: OffboardingTask['category'];
+    dependencies: string[];
+    automated: boolean; // false when executeOffboarding only simulates the task
+    targets: {
+        groups?: GroupMembership[];
+        licenses?: AssignedLicense[];
+        devices?: Device[];
+        sharingLinks?: DriveSharingLink[];
+    };
+    calls: PlannedGraphCall[];
+    notes: string[];
+    willFail: boolean;
+}
+
+/**
+ * Dry-run of an offboarding session: every task resolved to the Graph calls it would make
+ */
+export interface OffboardingPlan {
+    schemaVersion: 1;
+    sessionId: string;
+    user: {
+        id: string;
+        displayName: string;
+        userPrincipalName: string;
+    };
+    generatedAt: string;
+    grantedScopes: string[];
+    tasks: PlannedTask[];
+    summary: {
+        totalCalls: number;
+        failingCalls: number;
+        tasksWithIssues: string[];
+        missingScopes: string[];
+    };
+}
+
+export interface RollbackOptions {
+    onProgress?: (session: OffboardingSession) => void;
+}
+
+export interface OffboardingExecutionOptions {
+    maxConcurrentTasks?: number; // Defaults to 3
+    onProgress?: (session: OffboardingSession) => void;
+}
+
 export interface GraphError {
     code: string;
     message: string;
+    statusCode?: number;
+    retryable: boolean; // Throttling, transient service and network errors
+    retryAfterMs?: number; // From the Retry-After header, when Graph sends one
     details?: any;
 }
 
@@ -123,6 +421,7 @@ export enum TaskCategory {
     DEVICE_MANAGEMENT = 'devices',
     GROUP_MANAGEMENT = 'groups',
     LICENSE_MANAGEMENT = 'licenses',
+    MAILBOX_MANAGEMENT = 'mailbox',
     CLEANUP = 'cleanup'
 }
 
@@ -137,5 +436,6 @@ export enum TaskStatus {
     IN_PROGRESS = 'in-progress',
     COMPLETED = 'completed',
     FAILED = 'failed',
-    SKIPPED = 'skipped'
+    SKIPPED = 'skipped',
+    AWAITING_MANUAL = 'awaiting-manual'
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+// Workflow builder types, mirroring the backend workflow service
+
+export type WorkflowStepType = 'task' | 'approval' | 'notification' | 'integration' | 'condition' | 'delay';
+
+export interface WorkflowCondition {
+    field?: string;
+    operator?: string;
+    value?: any;
+    and?: WorkflowCondition[];
+    or?: WorkflowCondition[];
+    not?: WorkflowCondition;
+    trueStep: string;
+    falseStep: string;
+}
+
+export interface WorkflowStepConfig {
+    taskType?: 'revoke_access' | 'transfer_data' | 'collect_asset' | 'custom';
+    assignedTo?: string;
+    dueInDays?: number;
+    approvalTemplate?: string;
+    requiredApprovers?: string[];
+    notificationType?: 'email' | 'teams' | 'slack' | 'sms';
+    recipients?: string[];
+    template?: string;
+    integrationType?: 'workday' | 'servicenow' | 'bamboohr' | 'slack' | 'custom';
+    endpoint?: string;
+    method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+    payload?: Record<string, any>;
+    optional?: boolean; // Skipped when no such integration is enabled
+    condition?: WorkflowCondition;
+    delayDays?: number;
+    delayHours?: number;
+}
+
+export interface WorkflowStep {
+    id: string;
+    type: WorkflowStepType;
+    name: string;
+    description?: string;
+    config: WorkflowStepConfig;
+    position: { x: number; y: number };
+    connections: string[];
+    loopConnections?: string[];
+}
+
+export interface Workflow {
+    id: string;
+    name: string;
+    description: string;
+    department?: string;
+    offboardingReason?: 'resignation' | 'termination' | 'retirement' | 'contract_end';
+    isTemplate: boolean;
+    isActive: boolean;
+    version: number;
+    status: 'draft' | 'published';
+    publishedAt?: string;
+    steps: WorkflowStep[];
+    startStepId: string;
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface WorkflowDiagnostic {
+    code: string;
+    severity: 'error' | 'warning';
+    message: string;
+    stepId?: string;
+    relatedStepIds?: string[];
+}
+
+export interface WorkflowValidationResult {
+    isValid: boolean;
+    errors: string[];
+    warnings: string[];
+    diagnostics: WorkflowDiagnostic[];
+}
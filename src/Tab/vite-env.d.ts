@@ -5,6 +5,8 @@ interface ImportMetaEnv {
   readonly VITE_TENANT_ID: string;
   readonly VITE_REDIRECT_URI: string;
   readonly VITE_APP_NAME: string;
+  readonly VITE_API_SCOPE?: string;
+  readonly VITE_USE_MOCK_GRAPH?: string;
 }
 
 interface ImportMeta {
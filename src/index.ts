@@ -2,10 +2,59 @@ import fs from "fs";
 import https from "https";
 import path from "path";
 
+import type { Request, Response } from "express";
 import { App, HttpPlugin, IPlugin } from "@microsoft/teams.apps";
+import type { IAdaptiveCard } from "@microsoft/teams.cards";
 import { ConsoleLogger } from "@microsoft/teams.common/logging";
 import { DevtoolsPlugin } from "@microsoft/teams.dev";
 import { processAgenticMessage } from "./services/agentService";
+import {
+  buildApprovalCard,
+  buildDecisionCard,
+  getApprovalCards,
+  getApproverConversation,
+  handleApprovalCardAction,
+  recordApprovalCard,
+  registerApproverConversation,
+} from "./services/approvalCardService";
+// Also registers the approval escalation timer handler
+import {
+  cancelDelegationRule,
+  createDelegationRule,
+  findApproverIds,
+  listDelegationRules,
+  onApprovalDecision,
+  onApprovalRequired,
+  startEscalationRunner,
+} from "./services/approvalService";
+import { ApiCaller, authenticate, isAdmin, requireAdmin } from "./services/authService";
+// Also registers the account deletion timer handlers
+import {
+  cancelAccountDeletion,
+  getPendingDeletion,
+  listLegalHolds,
+  listPendingDeletions,
+  placeLegalHold,
+  releaseLegalHold,
+  scheduleAccountDeletion,
+} from "./services/retentionService";
+import { createSession, getSession, listSessions, updateSession } from "./services/sessionService";
+import { startTimerScheduler } from "./services/timerService";
+import { exportWorkflow, importWorkflow, WorkflowDocumentFormat } from "./services/workflowDocumentService";
+// Also registers the workflow timer handlers before the scheduler starts
+import {
+  addWorkflowStep,
+  completeWorkflowStep,
+  connectWorkflowSteps,
+  getWorkflow,
+  getWorkflowExecution,
+  listWorkflowExecutions,
+  listWorkflows,
+  publishWorkflow,
+  removeWorkflowStep,
+  updateWorkflowStep,
+  validateWorkflow,
+} from "./services/workflowService";
 
 const sslOptions = {
   key: process.env.SSL_KEY_FILE ? fs.readFileSync(process.env.SSL_KEY_FILE) : undefined,
@@ -23,16 +72,248 @@ const app = new App({
 // Serve the static client
 app.tab("home", path.join(__dirname, "./client"));
 
+// HTTP API used by the Tab app
+const errorStatus = (message: string) =>
+  /^Unauthorized/.test(message) ? 401 : /^Forbidden/.test(message) ? 403 : /not found/i.test(message) ? 404 : 400;
+
+const handle = (action: (req: Request) => unknown) => async (req: Request, res: Response) => {
+  try {
+    res.json(await action(req));
+  } catch (error: any) {
+    res.status(errorStatus(error.message)).json({ error: error.message });
+  }
+};
+
+// Callers are identified by their Entra ID bearer token, never by names in the request
+const authenticated = (action: (req: Request, caller: ApiCaller) => unknown) => async (req: Request) =>
+  action(req, await authenticate(req.headers.authorization));
+
+const adminOnly = (action: (req: Request, caller: ApiCaller) => unknown) =>
+  authenticated((req, caller) => action(req, requireAdmin(caller)));
+
+// Workflow builder API: signed-in users can read workflows, admins edit and publish them
+app.http.get("/api/workflows", handle(authenticated(() => listWorkflows())));
+app.http.get("/api/workflows/:workflowId", handle(authenticated((req) => {
+  const workflow = getWorkflow(req.params.workflowId);
+  if (!workflow) {
+    throw new Error(`Workflow not found: ${req.params.workflowId}`);
+  }
+  return workflow;
+})));
+app.http.get("/api/workflows/:workflowId/validation", handle(authenticated((req) => validateWorkflow(req.params.workflowId))));
+app.http.post("/api/workflows/:workflowId/steps", handle(adminOnly((req) => addWorkflowStep(req.params.workflowId, req.body))));
+app.http.patch("/api/workflows/:workflowId/steps/:stepId", handle(adminOnly((req) =>
+  updateWorkflowStep(req.params.workflowId, req.params.stepId, req.body)
+)));
+app.http.delete("/api/workflows/:workflowId/steps/:stepId", handle(adminOnly((req) =>
+  removeWorkflowStep(req.params.workflowId, req.params.stepId)
+)));
+app.http.post("/api/workflows/:workflowId/connections", handle(adminOnly((req) =>
+  connectWorkflowSteps(req.params.workflowId, req.body.fromStepId, req.body.toStepId)
+)));
+app.http.post("/api/workflows/:workflowId/publish", handle(adminOnly((req, caller) =>
+  publishWorkflow(req.params.workflowId, caller.email)
+)));
+
+// Workflow documents (JSON / YAML): export a workflow or version, import one as a draft with its diagnostics
+const documentFormat = (format: unknown): WorkflowDocumentFormat | undefined => {
+  if (format !== undefined && format !== "json" && format !== "yaml") {
+    throw new Error("format must be json or yaml");
+  }
+  return format;
+};
+
+app.http.get("/api/workflows/:workflowId/export", handle(adminOnly((req) => {
+  const format = documentFormat(req.query.format) || "json";
+  const version = req.query.version === undefined ? undefined : Number(req.query.version);
+  if (version !== undefined && !Number.isInteger(version)) {
+    throw new Error("version must be a whole number");
+  }
+  return { format, content: exportWorkflow(req.params.workflowId, format, version) };
+})));
+app.http.post("/api/workflows/import", handle(adminOnly((req, caller) => {
+  const { content, format, onConflict, regenerateStepIds } = req.body || {};
+  if (typeof content !== "string" || !content.trim()) {
+    throw new Error("content must be the workflow document as a string");
+  }
+  if (onConflict !== undefined && !["error", "copy", "new-version"].includes(onConflict)) {
+    throw new Error("onConflict must be error, copy or new-version");
+  }
+  return importWorkflow(content, caller.email, {
+    format: documentFormat(format),
+    onConflict,
+    regenerateStepIds: regenerateStepIds === true,
+  });
+})));
+
+// Workflow executions: admins find task steps waiting on people and mark them done
+app.http.get("/api/workflow-executions", handle(adminOnly((req) => listWorkflowExecutions(req.query as Record<string, any>))));
+app.http.get("/api/workflow-executions/:executionId", handle(adminOnly((req) => {
+  const execution = getWorkflowExecution(req.params.executionId);
+  if (!execution) {
+    throw new Error(`Workflow execution not found: ${req.params.executionId}`);
+  }
+  return execution;
+})));
+app.http.post("/api/workflow-executions/:executionId/steps/:stepId/complete", handle(adminOnly((req, caller) => {
+  const output = req.body?.output;
+  if (output !== undefined && (typeof output !== "object" || output === null || Array.isArray(output))) {
+    throw new Error("output must be an object");
+  }
+  return completeWorkflowStep(req.params.executionId, req.params.stepId, caller.email, output);
+})));
+
+// Retention API: scheduled account deletions and the legal holds that block them (admins only)
+app.http.get("/api/retention/deletions", handle(adminOnly((req) => listPendingDeletions(req.query as Record<string, any>))));
+app.http.post("/api/retention/deletions", handle(adminOnly((req, caller) =>
+  scheduleAccountDeletion({ ...req.body, requestedBy: caller.email })
+)));
+app.http.get("/api/retention/deletions/:deletionId", handle(adminOnly((req) => {
+  const deletion = getPendingDeletion(req.params.deletionId);
+  if (!deletion) {
+    throw new Error(`Pending deletion not found: ${req.params.deletionId}`);
+  }
+  return deletion;
+})));
+app.http.post("/api/retention/deletions/:deletionId/cancel", handle(adminOnly((req, caller) =>
+  cancelAccountDeletion(req.params.deletionId, caller.email, req.body.reason)
+)));
+app.http.get("/api/retention/legal-holds", handle(adminOnly((req) => listLegalHolds(req.query as Record<string, any>))));
+app.http.post("/api/retention/legal-holds", handle(adminOnly((req, caller) =>
+  placeLegalHold(req.body.userId, req.body.caseReference, req.body.reason || "", caller.email)
+)));
+app.http.post("/api/retention/legal-holds/:holdId/release", handle(adminOnly((req, caller) =>
+  releaseLegalHold(req.params.holdId, caller.email)
+)));
+
+// Out-of-office delegation rules: approvers manage their own, admins anyone's
+const resolveApproverId = (caller: ApiCaller, approverId?: string) => {
+  const own = findApproverIds(caller.email);
+  if (!approverId) {
+    if (own.length !== 1) {
+      throw new Error("approverId is required");
+    }
+    return own[0];
+  }
+  if (!own.includes(approverId) && !isAdmin(caller)) {
+    throw new Error(`Forbidden: ${caller.email} cannot manage delegation rules for approver ${approverId}`);
+  }
+  return approverId;
+};
+
+app.http.get("/api/approvals/delegation-rules", handle(authenticated((req, caller) => {
+  const rules = listDelegationRules(req.query as Record<string, any>);
+  if (isAdmin(caller)) {
+    return rules;
+  }
+  const own = findApproverIds(caller.email);
+  return rules.filter((rule) => own.includes(rule.approverId) || own.includes(rule.delegateId));
+})));
+app.http.post("/api/approvals/delegation-rules", handle(authenticated((req, caller) =>
+  createDelegationRule({ ...req.body, approverId: resolveApproverId(caller, req.body.approverId), createdBy: caller.email })
+)));
+app.http.post("/api/approvals/delegation-rules/:ruleId/cancel", handle(authenticated((req, caller) => {
+  const rule = listDelegationRules().find((r) => r.id === req.params.ruleId);
+  if (!rule) {
+    throw new Error(`Delegation rule not found: ${req.params.ruleId}`);
+  }
+  resolveApproverId(caller, rule.approverId);
+  return cancelDelegationRule(rule.id, caller.email);
+})));
+
+// Offboarding sessions, shared by the Tab app and the bot's agent tools (admins only)
+app.http.get("/api/sessions", handle(adminOnly((req) => listSessions(req.query as Record<string, any>))));
+app.http.post("/api/sessions", handle(adminOnly((req, caller) =>
+  createSession({ ...req.body, createdBy: caller.email, source: "tab" })
+)));
+app.http.get("/api/sessions/:sessionId", handle(adminOnly((req) => {
+  const session = getSession(req.params.sessionId);
+  if (!session) {
+    throw new Error(`Offboarding session not found: ${req.params.sessionId}`);
+  }
+  return session;
+})));
+app.http.patch("/api/sessions/:sessionId", handle(adminOnly((req, caller) =>
+  updateSession(req.params.sessionId, req.body, caller.email)
+)));
+
+// Approval cards: sent to approvers in their personal chat with the bot, updated once decided
+const adaptiveCard = (content: IAdaptiveCard) => ({
+  type: "message" as const,
+  attachments: [{ contentType: "application/vnd.microsoft.card.adaptive", content }],
+});
+
+onApprovalRequired(async (request, recipient) => {
+  const conversation = recipient.email ? getApproverConversation(recipient.email) : undefined;
+  if (!conversation) {
+    console.log(`[INFO] ${recipient.email || recipient.id} has not messaged the bot yet; approval ${request.id} sent by email only`);
+    return;
+  }
+  const sent = await app.send(conversation.conversationId, adaptiveCard(buildApprovalCard(request, recipient)));
+  recordApprovalCard({
+    requestId: request.id,
+    level: request.currentLevel,
+    recipientId: recipient.id,
+    recipientEmail: recipient.email,
+    conversationId: conversation.conversationId,
+    activityId: sent.id,
+  });
+});
+
+onApprovalDecision(async (request) => {
+  const card = adaptiveCard(buildDecisionCard(request));
+  await Promise.all(getApprovalCards(request.id).map((sent) =>
+    app.api.conversations.activities(sent.conversationId).update(sent.activityId, card)
+  ));
+});
+
+app.on("card.action", async (context) => {
+  const { verb, data } = context.activity.value.action;
+  try {
+    const card = handleApprovalCardAction(verb || "", data || {}, {
+      userId: context.activity.from.id,
+      name: context.activity.from.name,
+    }, {
+      conversationId: context.activity.conversation.id,
+      activityId: context.activity.replyToId,
+    });
+    return { statusCode: 200, type: "application/vnd.microsoft.card.adaptive", value: card };
+  } catch (error: any) {
+    console.error("[ERROR] Approval card action failed", error);
+    return { statusCode: 200, type: "application/vnd.microsoft.activity.message", value: error.message };
+  }
+});
+
 // Handle all message activities with agentic processing
 app.on("message", async (context) => {
   const userMessage = context.activity.text || "";
   const userId = context.activity.from?.id || "default";
   
   console.log(`[INFO] Received message from ${userId}: ${userMessage}`);
+
+  // The roster gives the sender's email: it identifies bot admins and lets approval cards reach approvers
+  let email: string | undefined;
+  try {
+    const member = await context.api.conversations.members(context.activity.conversation.id).getById(userId);
+    email = (member as { email?: string; userPrincipalName?: string }).email
+      || (member as { userPrincipalName?: string }).userPrincipalName;
+
+    // Remember approvers' personal chats so approval cards can reach them
+    if (context.activity.conversation.conversationType === "personal"
+      && email && getApproverConversation(email)?.conversationId !== context.activity.conversation.id) {
+      registerApproverConversation(email, userId, member.name, context.activity.conversation.id);
+    }
+  } catch (error) {
+    console.warn(`[WARN] Could not look up ${userId} in the conversation roster`, error);
+  }
   
   try {
     // Use agentic service with chain of thought reasoning
-    const responseText = await processAgenticMessage(userMessage, userId);
+    const responseText = await processAgenticMessage(userMessage, {
+      id: userId,
+      name: context.activity.from?.name,
+      email,
+    });
     
     // Send response back
     await context.send({
@@ -52,4 +333,8 @@ app.on("message", async (context) => {
 
 (async () => {
   await app.start(+(process.env.PORT || 3978));
+
+  // Fire durable timers (workflow delays, account deletions) that fell due while the bot was down
+  startTimerScheduler();
+  startEscalationRunner(+(process.env.APPROVAL_ESCALATION_CHECK_MINUTES || 15));
 })();
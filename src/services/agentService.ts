@@ -1,5 +1,7 @@
 import OpenAI from "openai";
+import { isBotAdmin } from "./authService";
 import { searchUsers, revokeUserAccess, transferUserData, getUser } from "./graphClient";
+import { createSession, getSession, getSessionProgress } from "./sessionService";
 
 // Initialize OpenAI client with GitHub Models endpoint
 const client = new OpenAI({
@@ -9,6 +11,16 @@ const client = new OpenAI({
 
 const MODEL = process.env.OPENAI_MODEL || "gpt-4o";
 
+// The Teams user a message came from, as looked up by the bot
+export interface BotRequester {
+  id: string; // Teams user ID (activity.from.id)
+  name?: string;
+  email?: string; // From the conversation roster
+}
+
+// Tools that read or change an employee's offboarding; only bot admins may use them, like the admin-only API routes
+const ADMIN_TOOLS = new Set(["create_offboarding_session", "get_offboarding_checklist", "revoke_access", "transfer_data"]);
+
 // Employee offboarding tools/functions
 const tools: OpenAI.Chat.ChatCompletionTool[] = [
   {
@@ -121,8 +133,15 @@ const tools: OpenAI.Chat.ChatCompletionTool[] = [
 ];
 
 // Mock function implementations (you can replace these with real Microsoft Graph API calls)
-async function executeFunction(name: string, args: any): Promise<string> {
+async function executeFunction(name: string, args: any, requester: BotRequester): Promise<string> {
   console.log(`[AGENT] Executing function: ${name} with args:`, JSON.stringify(args));
+
+  if (ADMIN_TOOLS.has(name) && !isBotAdmin(requester.email)) {
+    return JSON.stringify({
+      error: `Forbidden: ${requester.email || requester.name || requester.id} is not an offboarding administrator`,
+      function: name,
+    });
+  }
   
   // Check if we should use real Graph API or mock data
   const useRealAPI = process.env.USE_REAL_GRAPH_API === "true";
@@ -159,30 +178,61 @@ async function executeFunction(name: string, args: any): Promise<string> {
           source: "Mock Data",
         });
       
-      case "create_offboarding_session":
-        // This is custom business logic - keep as mock/database
-        return JSON.stringify({
-          sessionId: `session-${Date.now()}`,
-          employeeId: args.employeeId,
+      case "create_offboarding_session": {
+        // Stored in the session service, so the Tab picks the session up as well
+        let employee = { displayName: args.employeeId, userPrincipalName: "" };
+        if (useRealAPI) {
+          try {
+            const user = await getUser(args.employeeId);
+            employee = { displayName: user.displayName, userPrincipalName: user.userPrincipalName || user.mail || "" };
+          } catch (error: any) {
+            console.warn("[AGENT] Creating session without directory details:", error.message);
+          }
+        }
+
+        const session = createSession({
+          userId: args.employeeId,
+          userDisplayName: employee.displayName,
+          userPrincipalName: employee.userPrincipalName,
+          createdBy: requester.email || requester.id,
+          source: "bot",
           reason: args.reason,
           lastWorkingDay: args.lastWorkingDay,
-          status: "created",
-          message: "Offboarding session created successfully",
         });
+        return JSON.stringify({
+          sessionId: session.id,
+          employeeId: session.userId,
+          employeeName: session.userDisplayName,
+          reason: session.reason,
+          lastWorkingDay: session.lastWorkingDay,
+          status: session.status,
+          taskCount: session.tasks.length,
+          message: "Offboarding session created successfully. It can be reviewed and run from the Offboarding tab.",
+        });
+      }
       
-      case "get_offboarding_checklist":
-        // Custom business logic - could integrate with SharePoint lists or custom database
+      case "get_offboarding_checklist": {
+        const session = getSession(args.sessionId);
+        if (!session) {
+          return JSON.stringify({ error: `Offboarding session not found: ${args.sessionId}` });
+        }
+
+        const progress = getSessionProgress(session);
         return JSON.stringify({
-          sessionId: args.sessionId,
-          checklist: [
-            { id: 1, task: "Revoke system access", status: "pending", priority: "high" },
-            { id: 2, task: "Disable email account", status: "pending", priority: "high" },
-            { id: 3, task: "Transfer data ownership", status: "pending", priority: "medium" },
-            { id: 4, task: "Collect company assets", status: "pending", priority: "medium" },
-            { id: 5, task: "Exit interview", status: "pending", priority: "low" },
-          ],
-          progress: "0% complete",
+          sessionId: session.id,
+          employeeName: session.userDisplayName,
+          status: session.status,
+          checklist: session.tasks.map((task) => ({
+            id: task.id,
+            task: task.name,
+            status: task.status,
+            priority: task.priority,
+            ...(task.error ? { error: task.error } : {}),
+          })),
+          progress: `${progress.progressPercentage}% complete`,
+          lastUpdated: session.lastUpdated,
         });
+      }
       
       case "revoke_access":
         if (useRealAPI) {
@@ -280,8 +330,9 @@ const conversationHistory = new Map<string, OpenAI.Chat.ChatCompletionMessagePar
 
 export async function processAgenticMessage(
   userMessage: string,
-  userId: string = "default"
+  requester: BotRequester
 ): Promise<string> {
+  const userId = requester.id;
   try {
     // Get or initialize conversation history
     if (!conversationHistory.has(userId)) {
@@ -331,7 +382,7 @@ export async function processAgenticMessage(
         
         console.log(`[AGENT] 🤔 Thinking: I need to ${functionName} with ${JSON.stringify(functionArgs)}`);
         
-        const functionResult = await executeFunction(functionName, functionArgs);
+        const functionResult = await executeFunction(functionName, functionArgs, requester);
         
         // Add result summary to thought process
         thoughtProcess.push(`✅ **Action completed**: ${functionName.replace(/_/g, ' ')}`);
@@ -5,6 +5,8 @@
  * and maintains alumni engagement for potential rehires.
  */
 
+import { createRepository } from './repository';
+
 export interface AlumniProfile {
   id: string;
   employeeId: string;
@@ -84,11 +86,11 @@ export interface AlumniReferral {
   bonus?: number;
 }
 
-// In-memory storage
-const alumni = new Map<string, AlumniProfile>();
-const boomerangHires = new Map<string, BoomerangHire>();
-const events = new Map<string, AlumniEvent>();
-const referrals = new Map<string, AlumniReferral>();
+// Persistent storage
+const alumni = createRepository<AlumniProfile>('alumni');
+const boomerangHires = createRepository<BoomerangHire>('boomerang-hires');
+const events = createRepository<AlumniEvent>('alumni-events');
+const referrals = createRepository<AlumniReferral>('alumni-referrals');
 
 /**
  * Create alumni profile
@@ -149,6 +151,7 @@ export function updateAlumniProfile(
   }
 
   Object.assign(profile, updates, { updatedAt: new Date() });
+  alumni.set(profile.id, profile);
   return profile;
 }
 
@@ -238,6 +241,7 @@ export function updateBoomerangHire(
   }
 
   hire.status = status;
+  boomerangHires.set(hire.id, hire);
   return hire;
 }
 
@@ -345,6 +349,8 @@ export function registerForEvent(eventId: string, alumniId: string): AlumniEvent
     event.attendees.push(alumniId);
     profile.eventsAttended++;
     profile.lastContactDate = new Date();
+    events.set(event.id, event);
+    alumni.set(profile.id, profile);
   }
 
   return event;
@@ -379,6 +385,7 @@ export function submitReferral(data: {
   referrals.set(referral.id, referral);
   profile.referralsMade++;
   profile.lastContactDate = new Date();
+  alumni.set(profile.id, profile);
 
   return referral;
 }
@@ -396,6 +403,7 @@ export function updateReferralStatus(
   }
 
   referral.status = status;
+  referrals.set(referral.id, referral);
   return referral;
 }
 
@@ -10,6 +10,8 @@
  * - Executive dashboards
  */
 
+import { createRepository } from './repository';
+
 export interface OffboardingMetrics {
   totalOffboardings: number;
   activeOffboardings: number;
@@ -81,8 +83,8 @@ export interface BenchmarkData {
   rank: 'top' | 'above_average' | 'average' | 'below_average' | 'bottom';
 }
 
-// In-memory storage
-const sessionAnalytics = new Map<string, SessionAnalytics>();
+// Persistent storage
+const sessionAnalytics = createRepository<SessionAnalytics>('session-analytics');
 // Reserved for future: store historical metrics for trend analysis
 // const historicalMetrics: OffboardingMetrics[] = [];
 
@@ -0,0 +1,94 @@
+import type { IAdaptiveCard } from '@microsoft/teams.cards';
+import { describe, expect, it } from 'vitest';
+import {
+  APPROVAL_CARD_VERBS,
+  handleApprovalCardAction,
+  recordApprovalCard,
+  registerApproverConversation
+} from './approvalCardService';
+import { createApprovalRequest, getApprovalRequest, rejectRequest } from './approvalService';
+
+const hr = { userId: 'teams-hr', name: 'HR Manager' };
+const texts = (card: IAdaptiveCard) => card.body!.map((element: any) => element.text).filter(Boolean);
+
+registerApproverConversation('hr@company.com', hr.userId, hr.name, 'conv-hr');
+registerApproverConversation('manager@company.com', 'teams-manager', 'Department Manager', 'conv-manager');
+
+/** Open a standard request and record the level 1 card sent to the HR approver */
+function sendCard(sessionId: string) {
+  const request = createApprovalRequest(sessionId, 'task-1', 'Revoke access', 'test');
+  recordApprovalCard({
+    requestId: request.id,
+    level: 1,
+    recipientId: 'hr-001',
+    recipientEmail: 'hr@company.com',
+    conversationId: 'conv-hr',
+    activityId: `activity-${sessionId}`
+  });
+  return { request, origin: { conversationId: 'conv-hr', activityId: `activity-${sessionId}` } };
+}
+
+describe('handleApprovalCardAction', () => {
+  it('approves for the recipient the card was sent to', () => {
+    const { request, origin } = sendCard('session-test-card-approve');
+
+    const card = handleApprovalCardAction(APPROVAL_CARD_VERBS.approve, { requestId: request.id, comment: ' Fine ' }, hr, origin);
+    expect(texts(card)).toContain('Approved by HR Manager. Level 2 approvers have been asked next.');
+
+    const updated = getApprovalRequest(request.id)!;
+    expect(updated.currentLevel).toBe(2);
+    expect(updated.history[updated.history.length - 1]).toMatchObject({ approverId: 'hr-001', comments: 'Fine' });
+  });
+
+  it('refuses actions from anyone but the recipient, whatever the card data says', () => {
+    const { request, origin } = sendCard('session-test-card-recipient');
+    const notTheirs = 'This card was sent to hr@company.com; only they can act on it.';
+
+    // Someone else pressing the card in the recipient's conversation
+    const stranger = handleApprovalCardAction(APPROVAL_CARD_VERBS.approve, { requestId: request.id }, { userId: 'teams-other', name: 'Other' }, origin);
+    expect(texts(stranger)).toContain(notTheirs);
+
+    // A forged card naming the HR approver, pressed in the manager's own conversation
+    const forged = handleApprovalCardAction(
+      APPROVAL_CARD_VERBS.approve,
+      { requestId: request.id, level: 1, recipientId: 'hr-001', recipientEmail: 'hr@company.com' },
+      { userId: 'teams-manager', name: 'Department Manager' },
+      { conversationId: 'conv-manager' }
+    );
+    expect(texts(forged)).toContain(notTheirs);
+
+    // The manager's own identity, but they are not asked at level 1
+    const early = handleApprovalCardAction(
+      APPROVAL_CARD_VERBS.approve,
+      { requestId: request.id, level: 1, recipientId: 'manager-001', recipientEmail: 'manager@company.com' },
+      { userId: 'teams-manager', name: 'Department Manager' },
+      { conversationId: 'conv-manager' }
+    );
+    expect(texts(early)).toContain('This card was sent to manager@company.com; only they can act on it.');
+
+    const unchanged = getApprovalRequest(request.id)!;
+    expect(unchanged).toMatchObject({ status: 'pending', currentLevel: 1, history: [] });
+  });
+
+  it('does not act on a card whose level or request has already been decided', () => {
+    const { request, origin } = sendCard('session-test-card-decided');
+
+    handleApprovalCardAction(APPROVAL_CARD_VERBS.approve, { requestId: request.id }, hr, origin);
+    const again = handleApprovalCardAction(APPROVAL_CARD_VERBS.reject, { requestId: request.id, comment: 'Changed my mind' }, hr, origin);
+    expect(texts(again)).toContain('Level 1 has already been decided; this card is out of date.');
+    expect(getApprovalRequest(request.id)!.status).toBe('pending');
+
+    rejectRequest(request.id, 'manager-001', 'Department Manager', 'Laptop not returned');
+    const decided = handleApprovalCardAction(APPROVAL_CARD_VERBS.approve, { requestId: request.id }, hr, origin);
+    expect(texts(decided)).toContain('Rejected by Department Manager.');
+    expect(getApprovalRequest(request.id)!.history.filter(h => h.action === 'approved')).toHaveLength(1);
+  });
+
+  it('asks for a comment before rejecting', () => {
+    const { request, origin } = sendCard('session-test-card-comment');
+
+    const card = handleApprovalCardAction(APPROVAL_CARD_VERBS.reject, { requestId: request.id, comment: '  ' }, hr, origin);
+    expect(texts(card)).toContain('Add a comment explaining why the request is rejected.');
+    expect(getApprovalRequest(request.id)!.status).toBe('pending');
+  });
+});
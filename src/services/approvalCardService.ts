@@ -0,0 +1,302 @@
+/**
+ * Approval Card Service
+ *
+ * Adaptive Cards that let approvers act on approval requests from Teams.
+ * Features:
+ * - Approve, Reject and Delegate buttons with a comment field (Action.Execute)
+ * - Outcome card that replaces the approval card once it has been acted on
+ * - Approvers' personal bot conversations, looked up by email for proactive cards
+ */
+
+import type { IAdaptiveCard } from '@microsoft/teams.cards';
+import { createRepository } from './repository';
+import {
+  ApprovalRecipient,
+  ApprovalRequest,
+  approveRequest,
+  delegateApproval,
+  getApprovalRequest,
+  getLevelRecipients,
+  rejectRequest
+} from './approvalService';
+
+export interface ApproverConversation {
+  email: string;
+  userId: string; // Teams user ID (activity.from.id)
+  userName: string;
+  conversationId: string;
+  updatedAt: Date;
+}
+
+export interface SentApprovalCard {
+  requestId: string;
+  level: number;
+  recipientId: string;
+  recipientEmail?: string;
+  conversationId: string;
+  activityId: string;
+  sentAt: Date;
+}
+
+export interface ApprovalCardActor {
+  userId: string;
+  name: string;
+}
+
+// Where a card action came from
+export interface ApprovalCardOrigin {
+  conversationId: string;
+  activityId?: string; // The card's activity (replyToId)
+}
+
+export const APPROVAL_CARD_VERBS = {
+  approve: 'approval.approve',
+  reject: 'approval.reject',
+  delegate: 'approval.delegate'
+} as const;
+
+// Persistent storage
+const approverConversations = createRepository<ApproverConversation>('approver-conversations'); // email -> conversation
+const approvalCards = createRepository<SentApprovalCard[]>('approval-cards'); // requestId -> cards sent
+
+/**
+ * Remember an approver's personal conversation with the bot, so cards can be sent to them
+ */
+export function registerApproverConversation(
+  email: string,
+  userId: string,
+  userName: string,
+  conversationId: string
+): ApproverConversation {
+  const conversation: ApproverConversation = {
+    email: email.toLowerCase(),
+    userId,
+    userName,
+    conversationId,
+    updatedAt: new Date()
+  };
+  approverConversations.set(conversation.email, conversation);
+  return conversation;
+}
+
+/**
+ * Get an approver's personal conversation by email
+ */
+export function getApproverConversation(email: string): ApproverConversation | undefined {
+  return approverConversations.get(email.toLowerCase());
+}
+
+/**
+ * Get the registered conversation of a Teams user
+ */
+export function findApproverConversationByUser(userId: string): ApproverConversation | undefined {
+  return approverConversations.values().find(c => c.userId === userId);
+}
+
+/**
+ * Record a card sent for a request, so it can be updated once the request is decided
+ */
+export function recordApprovalCard(card: Omit<SentApprovalCard, 'sentAt'>): void {
+  const cards = approvalCards.get(card.requestId) || [];
+  approvalCards.set(card.requestId, [...cards, { ...card, sentAt: new Date() }]);
+}
+
+/**
+ * Get the cards sent for a request
+ */
+export function getApprovalCards(requestId: string): SentApprovalCard[] {
+  return approvalCards.get(requestId) || [];
+}
+
+/**
+ * Card asking a recipient to approve, reject or delegate the current level of a request
+ */
+export function buildApprovalCard(request: ApprovalRequest, recipient: ApprovalRecipient, notice?: string): IAdaptiveCard {
+  const level = request.levels[request.currentLevel - 1];
+  const data = { requestId: request.id, level: request.currentLevel, recipientId: recipient.id, recipientEmail: recipient.email };
+
+  return {
+    type: 'AdaptiveCard',
+    version: '1.5',
+    body: [
+      { type: 'TextBlock', text: 'Approval required', size: 'Large', weight: 'Bolder', wrap: true },
+      {
+        type: 'TextBlock',
+        text: `${recipient.name}, your decision is needed on **${request.taskName}**.`,
+        wrap: true
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'Employee', value: request.metadata?.employeeName || 'Not specified' },
+          { title: 'Session', value: request.sessionId },
+          { title: 'Level', value: `${request.currentLevel} of ${request.levels.length} (${level.type})` },
+          { title: 'Requested by', value: request.requestedBy },
+          { title: 'Requested', value: request.requestedAt.toISOString() }
+        ]
+      },
+      ...(request.status === 'escalated'
+        ? [{ type: 'TextBlock' as const, text: 'This request has been escalated.', color: 'Warning' as const, wrap: true }]
+        : []),
+      ...(notice ? [{ type: 'TextBlock' as const, text: notice, color: 'Attention' as const, wrap: true }] : []),
+      {
+        type: 'Input.Text',
+        id: 'comment',
+        label: 'Comment (required to reject)',
+        placeholder: 'Add a comment',
+        isMultiline: true
+      },
+      {
+        type: 'Input.Text',
+        id: 'delegateEmail',
+        label: 'Delegate to (email)',
+        placeholder: 'colleague@company.com'
+      }
+    ],
+    actions: [
+      { type: 'Action.Execute', title: 'Approve', verb: APPROVAL_CARD_VERBS.approve, style: 'positive', data },
+      { type: 'Action.Execute', title: 'Reject', verb: APPROVAL_CARD_VERBS.reject, style: 'destructive', data },
+      { type: 'Action.Execute', title: 'Delegate', verb: APPROVAL_CARD_VERBS.delegate, data }
+    ]
+  };
+}
+
+/**
+ * Card that replaces an approval card once it has been acted on
+ */
+export function buildApprovalOutcomeCard(request: ApprovalRequest, outcome: string): IAdaptiveCard {
+  const color = request.status === 'approved' ? 'Good' : request.status === 'rejected' ? 'Attention' : 'Default';
+
+  return {
+    type: 'AdaptiveCard',
+    version: '1.5',
+    body: [
+      { type: 'TextBlock', text: request.taskName, size: 'Large', weight: 'Bolder', wrap: true },
+      { type: 'TextBlock', text: outcome, color, wrap: true },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'Employee', value: request.metadata?.employeeName || 'Not specified' },
+          { title: 'Session', value: request.sessionId },
+          { title: 'Status', value: request.status },
+          ...(request.reason ? [{ title: 'Reason', value: request.reason }] : [])
+        ]
+      }
+    ]
+  };
+}
+
+/**
+ * Outcome card shown to every recipient once a request is approved, rejected or cancelled
+ */
+export function buildDecisionCard(request: ApprovalRequest): IAdaptiveCard {
+  const decision = [...request.history].reverse().find(h => h.action === request.status);
+  const outcome = request.status === 'approved'
+    ? `Approved. Final approval by ${decision?.approverName}.`
+    : request.status === 'cancelled'
+      ? 'Cancelled. Your approval is no longer needed.'
+      : `Rejected by ${decision?.approverName}.`;
+  return buildApprovalOutcomeCard(request, outcome);
+}
+
+/**
+ * Act on an Approve, Reject or Delegate press. Returns the card to show in place of
+ * the pressed one: the outcome, or the approval card again with what went wrong.
+ * The recipient is taken from the record of the card sent, not from the card's data.
+ */
+export function handleApprovalCardAction(
+  verb: string,
+  data: Record<string, any>,
+  actor: ApprovalCardActor,
+  origin: ApprovalCardOrigin
+): IAdaptiveCard {
+  const request = getApprovalRequest(data.requestId);
+  if (!request) {
+    throw new Error(`Approval request not found: ${data.requestId}`);
+  }
+
+  const cards = getApprovalCards(request.id).filter(c => c.conversationId === origin.conversationId);
+  const sent = origin.activityId ? cards.find(c => c.activityId === origin.activityId) : cards[cards.length - 1];
+  const level: number = sent?.level ?? data.level;
+  const recipientId: string = sent?.recipientId ?? data.recipientId;
+  const recipientEmail: string | undefined = sent?.recipientEmail ?? data.recipientEmail;
+
+  const registered = recipientEmail ? getApproverConversation(recipientEmail) : undefined;
+  const recipient: ApprovalRecipient = {
+    id: recipientId,
+    name: registered?.userName || recipientEmail || recipientId,
+    email: recipientEmail
+  };
+  const notTheirs = `This card was sent to ${recipient.email || recipient.id}; only they can act on it.`;
+  if (!registered || registered.userId !== actor.userId || registered.conversationId !== origin.conversationId) {
+    return buildApprovalOutcomeCard(request, notTheirs);
+  }
+
+  // Decided requests, and levels that have moved on, are not acted on again
+  if (request.status !== 'pending' && request.status !== 'escalated') {
+    return buildDecisionCard(request);
+  }
+  if (request.currentLevel !== level) {
+    return buildApprovalOutcomeCard(request, `Level ${level} has already been decided; this card is out of date.`);
+  }
+
+  // The ID and email must name the same approver, delegate or escalation target on this level
+  const known = getLevelRecipients(request).some(
+    r => r.id === recipient.id && !!r.email && r.email.toLowerCase() === recipientEmail?.toLowerCase()
+  );
+  if (!known) {
+    return buildApprovalOutcomeCard(request, notTheirs);
+  }
+
+  const comment = typeof data.comment === 'string' ? data.comment.trim() : '';
+
+  try {
+    switch (verb) {
+      case APPROVAL_CARD_VERBS.approve: {
+        const level = request.currentLevel;
+        const updated = approveRequest(request.id, recipient.id, actor.name, comment || undefined);
+        const outcome = updated.status === 'approved'
+          ? `Approved by ${actor.name}. The request is fully approved.`
+          : updated.currentLevel > level
+            ? `Approved by ${actor.name}. Level ${updated.currentLevel} approvers have been asked next.`
+            : `Approved by ${actor.name}. Level ${level} is waiting for more approvals.`;
+        return buildApprovalOutcomeCard(updated, outcome);
+      }
+
+      case APPROVAL_CARD_VERBS.reject: {
+        if (!comment) {
+          return buildApprovalCard(request, recipient, 'Add a comment explaining why the request is rejected.');
+        }
+        const updated = rejectRequest(request.id, recipient.id, actor.name, comment);
+        return buildApprovalOutcomeCard(updated, `Rejected by ${actor.name}.`);
+      }
+
+      case APPROVAL_CARD_VERBS.delegate: {
+        const delegateEmail = typeof data.delegateEmail === 'string' ? data.delegateEmail.trim().toLowerCase() : '';
+        if (!delegateEmail.includes('@')) {
+          return buildApprovalCard(request, recipient, 'Enter the email address of the colleague to delegate to.');
+        }
+        const delegateName = getApproverConversation(delegateEmail)?.userName || delegateEmail;
+        const updated = delegateApproval(
+          request.id,
+          recipient.id,
+          delegateEmail,
+          delegateName,
+          delegateEmail,
+          comment || `Delegated from Teams by ${actor.name}`
+        );
+        return buildApprovalOutcomeCard(updated, `Delegated to ${delegateName} by ${actor.name}.`);
+      }
+
+      default:
+        throw new Error(`Unsupported approval card action: ${verb}`);
+    }
+  } catch (error) {
+    const current = getApprovalRequest(request.id) || request;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const stillOpen = (current.status === 'pending' || current.status === 'escalated') && current.currentLevel === level;
+    return stillOpen
+      ? buildApprovalCard(current, recipient, message)
+      : buildApprovalOutcomeCard(current, message);
+  }
+}
@@ -0,0 +1,214 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  ApprovalRequest,
+  approveRequest,
+  cancelDelegationRule,
+  checkEscalations,
+  createApprovalRequest,
+  createDelegationRule,
+  escalateApproval,
+  getActionableApprovers,
+  getApprovalRequest,
+  getPendingApprovals,
+  rejectRequest
+} from './approvalService';
+import { useSystemClock, useTestClock } from './timerService';
+
+const actionable = (request: ApprovalRequest) => getActionableApprovers(request).map(a => a.id);
+const pendingFor = (approverId: string) => getPendingApprovals(approverId).map(r => r.id);
+
+afterEach(() => {
+  useSystemClock();
+});
+
+describe('approval levels', () => {
+  it('lets parallel approvers act in any order until the level has enough approvals', () => {
+    const request = createApprovalRequest('session-test-parallel', 'task-1', 'Revoke access', 'test', 'high-risk-offboarding');
+    expect(actionable(request)).toEqual(['hr-001', 'legal-001']);
+
+    const afterLegal = approveRequest(request.id, 'legal-001', 'Legal Counsel');
+    expect(afterLegal.currentLevel).toBe(1);
+    expect(actionable(afterLegal)).toEqual(['hr-001']);
+    expect(() => approveRequest(request.id, 'legal-001', 'Legal Counsel'))
+      .toThrow('Approver legal-001 has already approved level 1');
+
+    const afterHr = approveRequest(request.id, 'hr-001', 'HR Manager');
+    expect(afterHr.currentLevel).toBe(2);
+    expect(actionable(afterHr)).toEqual(['exec-001']);
+  });
+
+  it('completes a parallel level on the first approval when one is required', () => {
+    const request = createApprovalRequest('session-test-quorum', 'task-1', 'Revoke access', 'test', 'fast-track-offboarding');
+
+    const approved = approveRequest(request.id, 'manager-001', 'Department Manager');
+    expect(approved.status).toBe('approved');
+    expect(actionable(approved)).toEqual([]);
+    expect(() => approveRequest(request.id, 'hr-001', 'HR Manager')).toThrow('Cannot approve request with status: approved');
+  });
+
+  it('only lets approvers of the current level decide', () => {
+    const request = createApprovalRequest('session-test-levels', 'task-1', 'Revoke access', 'test');
+
+    expect(() => approveRequest(request.id, 'manager-001', 'Department Manager'))
+      .toThrow('Approver manager-001 not authorized for level 1');
+    expect(() => rejectRequest(request.id, 'it-001', 'IT Director', 'Too early'))
+      .toThrow('Approver it-001 not authorized for level 1');
+
+    approveRequest(request.id, 'hr-001', 'HR Manager');
+    const rejected = rejectRequest(request.id, 'manager-001', 'Department Manager', 'Laptop not returned');
+    expect(rejected).toMatchObject({ status: 'rejected', currentLevel: 2, reason: 'Laptop not returned' });
+  });
+
+  it('asks sequential approvers one at a time in listed order', () => {
+    const request = createApprovalRequest('session-test-sequential', 'task-1', 'Revoke access', 'test');
+    const sequential: ApprovalRequest = {
+      ...request,
+      levels: [{
+        level: 1,
+        type: 'sequential',
+        requiredApprovals: 2,
+        approvers: [
+          { id: 'hr-001', name: 'HR Manager', email: 'hr@company.com', role: 'HR' },
+          { id: 'legal-001', name: 'Legal Counsel', email: 'legal@company.com', role: 'Legal' }
+        ]
+      }]
+    };
+    expect(actionable(sequential)).toEqual(['hr-001']);
+
+    const approvedByHr: ApprovalRequest = {
+      ...sequential,
+      history: [{
+        id: 'action-1',
+        approvalRequestId: request.id,
+        approverId: 'hr-001',
+        approverName: 'HR Manager',
+        action: 'approved',
+        timestamp: new Date(),
+        level: 1
+      }]
+    };
+    expect(actionable(approvedByHr)).toEqual(['legal-001']);
+  });
+});
+
+describe('escalation chains', () => {
+  it('escalates tier by tier, counting each wait from the previous tier', async () => {
+    const clock = useTestClock(new Date('2031-01-01T00:00:00.000Z'));
+    const request = createApprovalRequest('session-test-escalation', 'task-1', 'Revoke access', 'test');
+    const escalatedIds = () => checkEscalations().filter(r => r.id === request.id).map(r => r.escalationTier);
+
+    await clock.advance({ hours: 23 });
+    expect(escalatedIds()).toEqual([]);
+
+    await clock.advance({ hours: 1 });
+    expect(escalatedIds()).toEqual([1]);
+    expect(pendingFor('hr-director')).toContain(request.id);
+    expect(pendingFor('cpo-001')).not.toContain(request.id);
+
+    await clock.advance({ hours: 23 });
+    expect(escalatedIds()).toEqual([]);
+
+    await clock.advance({ hours: 1 });
+    expect(escalatedIds()).toEqual([2]);
+    expect(pendingFor('cpo-001')).toContain(request.id);
+
+    await clock.advance({ days: 30 });
+    expect(escalatedIds()).toEqual([]);
+    expect(() => escalateApproval(request.id)).toThrow('No further escalation tier defined for level 1');
+  });
+
+  it('lets a reached escalation target decide the whole level and restarts the chain on the next level', () => {
+    useTestClock(new Date('2031-02-01T00:00:00.000Z'));
+    const request = createApprovalRequest('session-test-escalation-decide', 'task-1', 'Revoke access', 'test');
+
+    expect(() => approveRequest(request.id, 'hr-director', 'HR Director'))
+      .toThrow('Approver hr-director not authorized for level 1');
+
+    const escalated = escalateApproval(request.id);
+    expect(escalated).toMatchObject({ status: 'escalated', escalationTier: 1 });
+    expect(pendingFor('hr-director')).toContain(request.id);
+    expect(escalated.history[escalated.history.length - 1].comments).toBe('Escalated to HR Director after 24 hours without a decision');
+
+    const approved = approveRequest(request.id, 'hr-director', 'HR Director');
+    expect(approved).toMatchObject({ status: 'pending', currentLevel: 2, escalationTier: 0 });
+    expect(actionable(approved)).toEqual(['manager-001']);
+    expect(pendingFor('hr-director')).not.toContain(request.id);
+  });
+});
+
+describe('delegation rules', () => {
+  it('refuses rules that would route approvals in a circle while they overlap', () => {
+    const rule = (approverId: string, delegateId: string, startsAt: string, endsAt: string) =>
+      createDelegationRule({ approverId, delegateId, delegateName: delegateId, startsAt, endsAt, createdBy: 'test' });
+
+    rule('loop-a', 'loop-b', '2032-03-01', '2032-03-10');
+    rule('loop-b', 'loop-c', '2032-03-05', '2032-03-20');
+    expect(() => rule('loop-c', 'loop-a', '2032-03-08', '2032-03-08')).toThrow('Delegation loop: loop-c -> loop-a -> loop-b -> loop-c');
+
+    // loop-a is back before loop-c leaves, so the rules never form a circle
+    expect(rule('loop-c', 'loop-a', '2032-03-15', '2032-03-16').status).toBe('active');
+
+    expect(() => rule('loop-a', 'loop-a', '2032-03-01', '2032-03-02')).toThrow('Cannot delegate approvals from loop-a to themselves');
+    expect(() => rule('loop-a', 'loop-d', '2032-03-02', '2032-03-01')).toThrow('Delegation must end after it starts');
+  });
+
+  it('routes approvals to the delegate for the whole last day and back to the approver after it', async () => {
+    const clock = useTestClock(new Date('2032-05-01T00:00:00.000Z'));
+    const request = createApprovalRequest('session-test-delegation', 'task-1', 'Revoke access', 'test');
+    createDelegationRule({
+      approverId: 'hr-001',
+      delegateId: 'hr-002',
+      delegateName: 'HR Deputy',
+      delegateEmail: 'hr-deputy@company.com',
+      startsAt: '2032-05-03',
+      endsAt: '2032-05-04',
+      reason: 'Vacation',
+      createdBy: 'hr-001'
+    });
+    expect(pendingFor('hr-001')).toContain(request.id);
+    expect(pendingFor('hr-002')).not.toContain(request.id);
+
+    await clock.advanceTo(new Date('2032-05-04T23:00:00.000Z'));
+    expect(pendingFor('hr-001')).not.toContain(request.id);
+    expect(pendingFor('hr-002')).toContain(request.id);
+    expect(getApprovalRequest(request.id)!.levels[0].approvers[0]).toMatchObject({ id: 'hr-001', delegateTo: 'hr-002' });
+
+    await clock.advanceTo(new Date('2032-05-05T00:00:00.000Z'));
+    expect(pendingFor('hr-001')).toContain(request.id);
+    expect(pendingFor('hr-002')).not.toContain(request.id);
+
+    const history = getApprovalRequest(request.id)!.history.map(h => h.comments);
+    expect(history).toEqual([
+      'Out of office until 2032-05-05T00:00:00.000Z: Vacation',
+      'Out-of-office delegation to HR Deputy ended'
+    ]);
+  });
+
+  it('records the delegate as acting for the approver, and stops routing when the rule is cancelled', () => {
+    useTestClock(new Date('2032-07-01T12:00:00.000Z'));
+    const rule = createDelegationRule({
+      approverId: 'manager-001',
+      delegateId: 'manager-002',
+      delegateName: 'Deputy Manager',
+      delegateEmail: 'deputy-manager@company.com',
+      startsAt: '2032-07-01',
+      endsAt: '2032-07-31',
+      createdBy: 'manager-001'
+    });
+
+    const approved = createApprovalRequest('session-test-delegate-acts', 'task-1', 'Revoke access', 'test', 'fast-track-offboarding');
+    expect(pendingFor('manager-002')).toContain(approved.id);
+    const decided = approveRequest(approved.id, 'manager-002', 'Deputy Manager');
+    expect(decided.history[decided.history.length - 1]).toMatchObject({
+      approverId: 'manager-002',
+      originalApproverId: 'manager-001',
+      originalApproverName: 'Department Manager'
+    });
+
+    const open = createApprovalRequest('session-test-delegate-cancel', 'task-1', 'Revoke access', 'test', 'fast-track-offboarding');
+    expect(pendingFor('manager-002')).toContain(open.id);
+    cancelDelegationRule(rule.id, 'manager-001');
+    expect(pendingFor('manager-002')).not.toContain(open.id);
+    expect(pendingFor('manager-001')).toContain(open.id);
+  });
+});
@@ -4,12 +4,16 @@
  * Handles multi-level approval workflows for offboarding tasks.
  * Features:
  * - Configurable approval chains
- * - Delegation during absences
- * - Escalation policies
+ * - Delegation during absences, by hand or through time-boxed out-of-office rules
+ * - Escalation chains, checked periodically by a durable timer
  * - Parallel and sequential approvals
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { createRepository } from './repository';
+import { sendNotification } from './notificationService';
+import { createAuditLog } from './complianceService';
+import { listTimers, now, registerTimerHandler, scheduleTimer } from './timerService';
 
 // Types
 export interface Approver {
@@ -18,15 +22,26 @@ export interface Approver {
   email: string;
   role: 'HR' | 'IT' | 'Legal' | 'Finance' | 'Manager' | 'Executive';
   delegateTo?: string; // User ID of delegate
+  delegateName?: string;
+  delegateEmail?: string;
+  delegationRuleId?: string; // Set when delegateTo comes from an out-of-office rule
 }
 
 export interface ApprovalLevel {
   level: number;
   approvers: Approver[];
   requiredApprovals: number; // How many approvers needed at this level
-  type: 'sequential' | 'parallel'; // All required or any one
+  type: 'sequential' | 'parallel'; // Approvers act in listed order, or any of them until the quorum is met
   escalationTimeHours?: number; // Auto-escalate after X hours
   escalateTo?: string; // User ID to escalate to
+  escalationChain?: EscalationTier[]; // Takes precedence over escalateTo
+}
+
+export interface EscalationTier {
+  id: string; // User ID of the escalation target
+  name: string;
+  email?: string;
+  afterHours: number; // Without a decision, counted from the level start or the previous tier
 }
 
 export interface ApprovalRequest {
@@ -37,7 +52,10 @@ export interface ApprovalRequest {
   requestedBy: string;
   requestedAt: Date;
   currentLevel: number;
-  status: 'pending' | 'approved' | 'rejected' | 'escalated';
+  levelStartedAt?: Date;
+  escalationTier?: number; // Escalation tiers reached at the current level
+  lastEscalatedAt?: Date;
+  status: 'pending' | 'approved' | 'rejected' | 'escalated' | 'cancelled';
   reason?: string;
   levels: ApprovalLevel[];
   history: ApprovalAction[];
@@ -49,10 +67,42 @@ export interface ApprovalAction {
   approvalRequestId: string;
   approverId: string;
   approverName: string;
-  action: 'approved' | 'rejected' | 'delegated' | 'escalated';
+  action: 'approved' | 'rejected' | 'delegated' | 'escalated' | 'cancelled';
   timestamp: Date;
   comments?: string;
   level: number;
+  originalApproverId?: string; // Set when a delegate acted for this approver
+  originalApproverName?: string;
+}
+
+/**
+ * Out-of-office rule: while it is active, the approver's requests go to the delegate
+ */
+export interface DelegationRule {
+  id: string;
+  approverId: string;
+  delegateId: string;
+  delegateName: string;
+  delegateEmail?: string;
+  startsAt: Date;
+  endsAt: Date; // Exclusive
+  reason?: string;
+  status: 'active' | 'cancelled';
+  createdBy: string;
+  createdAt: Date;
+  cancelledBy?: string;
+  cancelledAt?: Date;
+}
+
+export interface CreateDelegationRuleRequest {
+  approverId: string;
+  delegateId: string;
+  delegateName: string;
+  delegateEmail?: string;
+  startsAt: Date | string; // A YYYY-MM-DD date starts at midnight UTC
+  endsAt: Date | string; // A YYYY-MM-DD date includes that whole day
+  reason?: string;
+  createdBy: string;
 }
 
 export interface ApprovalWorkflowTemplate {
@@ -64,10 +114,29 @@ export interface ApprovalWorkflowTemplate {
   levels: ApprovalLevel[];
 }
 
-// In-memory storage (replace with database in production)
-const approvalRequests = new Map<string, ApprovalRequest>();
+// Persistent storage (templates are static and re-seeded on start)
+const approvalRequests = createRepository<ApprovalRequest>('approval-requests');
 const approvalTemplates = new Map<string, ApprovalWorkflowTemplate>();
-const pendingApprovals = new Map<string, ApprovalRequest[]>(); // approverId -> requests
+const pendingApprovals = createRepository<string[]>('pending-approvals'); // approverId -> request IDs
+const delegationRules = createRepository<DelegationRule>('approval-delegation-rules');
+
+export type ApprovalDecisionListener = (request: ApprovalRequest) => void | Promise<void>;
+const decisionListeners: ApprovalDecisionListener[] = [];
+
+export interface ApprovalRecipient {
+  id: string; // Approver, delegate or escalation target
+  name: string;
+  email?: string;
+}
+export type ApprovalRequiredListener = (request: ApprovalRequest, recipient: ApprovalRecipient) => void | Promise<void>;
+const requiredListeners: ApprovalRequiredListener[] = [];
+
+const ESCALATION_TIMER = 'approval-escalation-check';
+const DEFAULT_ESCALATION_CHECK_MINUTES = 15;
+const COMPLIANCE_FLAGS = ['SOX'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+let escalationCheckMinutes = DEFAULT_ESCALATION_CHECK_MINUTES;
 
 /**
  * Initialize default approval templates
@@ -86,8 +155,10 @@ export function initializeApprovalTemplates() {
         ],
         requiredApprovals: 1,
         type: 'sequential',
-        escalationTimeHours: 24,
-        escalateTo: 'hr-director'
+        escalationChain: [
+          { id: 'hr-director', name: 'HR Director', email: 'hr-director@company.com', afterHours: 24 },
+          { id: 'cpo-001', name: 'Chief People Officer', email: 'cpo@company.com', afterHours: 24 }
+        ]
       },
       {
         level: 2,
@@ -123,7 +194,11 @@ export function initializeApprovalTemplates() {
         ],
         requiredApprovals: 2, // Both must approve
         type: 'parallel',
-        escalationTimeHours: 12
+        escalationChain: [
+          { id: 'hr-director', name: 'HR Director', email: 'hr-director@company.com', afterHours: 12 },
+          { id: 'general-counsel', name: 'General Counsel', email: 'counsel@company.com', afterHours: 12 },
+          { id: 'exec-001', name: 'VP of Operations', email: 'vp@company.com', afterHours: 24 }
+        ]
       },
       {
         level: 2,
@@ -192,8 +267,9 @@ export function createApprovalRequest(
     taskId,
     taskName,
     requestedBy,
-    requestedAt: new Date(),
+    requestedAt: now(),
     currentLevel: 1,
+    levelStartedAt: now(),
     status: 'pending',
     levels: JSON.parse(JSON.stringify(template.levels)), // Deep clone
     history: [],
@@ -201,14 +277,7 @@ export function createApprovalRequest(
   };
 
   approvalRequests.set(request.id, request);
-
-  // Add to pending approvals for level 1 approvers
-  const level1 = request.levels[0];
-  level1.approvers.forEach(approver => {
-    const approverRequests = pendingApprovals.get(approver.id) || [];
-    approverRequests.push(request);
-    pendingApprovals.set(approver.id, approverRequests);
-  });
+  syncPendingApprovals(request);
 
   return request;
 }
@@ -227,16 +296,7 @@ export function approveRequest(
     throw new Error(`Approval request not found: ${requestId}`);
   }
 
-  if (request.status !== 'pending') {
-    throw new Error(`Cannot approve request with status: ${request.status}`);
-  }
-
-  const currentLevel = request.levels[request.currentLevel - 1];
-  const approver = currentLevel.approvers.find(a => a.id === approverId);
-  
-  if (!approver) {
-    throw new Error(`Approver ${approverId} not authorized for level ${request.currentLevel}`);
-  }
+  const { approver, escalationTier } = authorizeDecision(request, approverId, 'approve');
 
   // Record the approval action
   const action: ApprovalAction = {
@@ -245,38 +305,39 @@ export function approveRequest(
     approverId,
     approverName,
     action: 'approved',
-    timestamp: new Date(),
+    timestamp: now(),
     comments,
-    level: request.currentLevel
+    level: request.currentLevel,
+    ...(!escalationTier && approver && approver.id !== approverId
+      ? { originalApproverId: approver.id, originalApproverName: approver.name }
+      : {})
   };
   request.history.push(action);
 
   // Check if level is complete
-  const approvals = request.history.filter(
-    h => h.level === request.currentLevel && h.action === 'approved'
-  ).length;
+  const currentLevel = request.levels[request.currentLevel - 1];
+  const approvals = currentLevel.approvers.filter(a => hasApproved(request, a)).length;
 
-  if (approvals >= currentLevel.requiredApprovals) {
+  if (escalationTier || approvals >= currentLevel.requiredApprovals) {
     // Level complete, move to next level
     if (request.currentLevel < request.levels.length) {
       request.currentLevel++;
-      
-      // Add to pending approvals for next level
-      const nextLevel = request.levels[request.currentLevel - 1];
-      nextLevel.approvers.forEach(approver => {
-        const approverRequests = pendingApprovals.get(approver.id) || [];
-        approverRequests.push(request);
-        pendingApprovals.set(approver.id, approverRequests);
-      });
+      request.levelStartedAt = now();
+      request.escalationTier = 0;
+      request.lastEscalatedAt = undefined;
+      request.status = 'pending';
     } else {
       // All levels complete
       request.status = 'approved';
-      
-      // Remove from all pending queues
-      clearPendingApprovals(requestId);
     }
   }
 
+  approvalRequests.set(request.id, request);
+  syncPendingApprovals(request);
+  if (request.status === 'approved') {
+    notifyDecision(request);
+  }
+
   return request;
 }
 
@@ -294,21 +355,71 @@ export function rejectRequest(
     throw new Error(`Approval request not found: ${requestId}`);
   }
 
+  const { approver, escalationTier } = authorizeDecision(request, approverId, 'reject');
   const action: ApprovalAction = {
     id: uuidv4(),
     approvalRequestId: requestId,
     approverId,
     approverName,
     action: 'rejected',
-    timestamp: new Date(),
+    timestamp: now(),
     comments: reason,
-    level: request.currentLevel
+    level: request.currentLevel,
+    ...(!escalationTier && approver && approver.id !== approverId
+      ? { originalApproverId: approver.id, originalApproverName: approver.name }
+      : {})
   };
   request.history.push(action);
   request.status = 'rejected';
   request.reason = reason;
+  approvalRequests.set(request.id, request);
+
+  clearPendingApprovals(requestId);
+  notifyDecision(request);
+
+  return request;
+}
+
+/**
+ * Cancel an open request whose approval is no longer needed, e.g. because the
+ * workflow that asked for it was cancelled. Approvers stop being asked and escalated to.
+ */
+export function cancelApprovalRequest(requestId: string, cancelledBy: string, reason: string): ApprovalRequest {
+  const request = approvalRequests.get(requestId);
+  if (!request) {
+    throw new Error(`Approval request not found: ${requestId}`);
+  }
+  if (request.status !== 'pending' && request.status !== 'escalated') {
+    throw new Error(`Cannot cancel request with status: ${request.status}`);
+  }
+
+  request.history.push({
+    id: uuidv4(),
+    approvalRequestId: requestId,
+    approverId: cancelledBy,
+    approverName: cancelledBy,
+    action: 'cancelled',
+    timestamp: now(),
+    comments: reason,
+    level: request.currentLevel
+  });
+  request.status = 'cancelled';
+  request.reason = reason;
+  approvalRequests.set(request.id, request);
 
   clearPendingApprovals(requestId);
+  notifyDecision(request);
+
+  createAuditLog(
+    request.sessionId,
+    cancelledBy,
+    cancelledBy,
+    'cancelled',
+    'approval_request',
+    request.id,
+    { taskId: request.taskId, taskName: request.taskName, level: request.currentLevel, reason },
+    COMPLIANCE_FLAGS
+  );
 
   return request;
 }
@@ -321,7 +432,7 @@ export function delegateApproval(
   fromApproverId: string,
   toApproverId: string,
   toApproverName: string,
-  _toApproverEmail: string,
+  toApproverEmail: string,
   reason: string
 ): ApprovalRequest {
   const request = approvalRequests.get(requestId);
@@ -330,14 +441,20 @@ export function delegateApproval(
   }
 
   const currentLevel = request.levels[request.currentLevel - 1];
-  const approver = currentLevel.approvers.find(a => a.id === fromApproverId);
+  const approver = findLevelApprover(currentLevel, fromApproverId);
   
   if (!approver) {
     throw new Error(`Approver ${fromApproverId} not found at level ${request.currentLevel}`);
   }
+  if (toApproverId === approver.id || toApproverId === fromApproverId) {
+    throw new Error(`Cannot delegate approval from ${fromApproverId} back to ${toApproverId}`);
+  }
 
-  // Update the approver to the delegate
+  // Update the approver to the delegate; a hand-picked delegate overrides out-of-office rules
   approver.delegateTo = toApproverId;
+  approver.delegateName = toApproverName;
+  approver.delegateEmail = toApproverEmail;
+  approver.delegationRuleId = undefined;
 
   // Record delegation action
   const action: ApprovalAction = {
@@ -346,33 +463,35 @@ export function delegateApproval(
     approverId: fromApproverId,
     approverName: `${approver.name} (delegated to ${toApproverName})`,
     action: 'delegated',
-    timestamp: new Date(),
+    timestamp: now(),
     comments: reason,
     level: request.currentLevel
   };
   request.history.push(action);
+  approvalRequests.set(request.id, request);
 
-  // Move from one pending queue to another
-  removePendingApproval(fromApproverId, requestId);
-  const delegateRequests = pendingApprovals.get(toApproverId) || [];
-  delegateRequests.push(request);
-  pendingApprovals.set(toApproverId, delegateRequests);
+  // The delegate takes over the approver's place in the queue, once it is their turn
+  syncPendingApprovals(request);
 
   return request;
 }
 
 /**
- * Escalate approval due to timeout
+ * Escalate approval to the next tier of the current level's escalation chain
  */
 export function escalateApproval(requestId: string): ApprovalRequest {
   const request = approvalRequests.get(requestId);
   if (!request) {
     throw new Error(`Approval request not found: ${requestId}`);
   }
+  if (request.status !== 'pending' && request.status !== 'escalated') {
+    throw new Error(`Cannot escalate request with status: ${request.status}`);
+  }
 
-  const currentLevel = request.levels[request.currentLevel - 1];
-  if (!currentLevel.escalateTo) {
-    throw new Error(`No escalation path defined for level ${request.currentLevel}`);
+  const tierIndex = request.escalationTier ?? 0;
+  const tier = getEscalationChain(request.levels[request.currentLevel - 1])[tierIndex];
+  if (!tier) {
+    throw new Error(`No further escalation tier defined for level ${request.currentLevel}`);
   }
 
   const action: ApprovalAction = {
@@ -381,26 +500,79 @@ export function escalateApproval(requestId: string): ApprovalRequest {
     approverId: 'system',
     approverName: 'System',
     action: 'escalated',
-    timestamp: new Date(),
-    comments: `Escalated to ${currentLevel.escalateTo} after ${currentLevel.escalationTimeHours} hours`,
+    timestamp: now(),
+    comments: `Escalated to ${tier.name} after ${tier.afterHours} hours without a decision`,
     level: request.currentLevel
   };
   request.history.push(action);
   request.status = 'escalated';
+  request.escalationTier = tierIndex + 1;
+  request.lastEscalatedAt = action.timestamp;
+  approvalRequests.set(request.id, request);
 
   // Add to escalation target's pending queue
-  const escalateRequests = pendingApprovals.get(currentLevel.escalateTo) || [];
-  escalateRequests.push(request);
-  pendingApprovals.set(currentLevel.escalateTo, escalateRequests);
+  syncPendingApprovals(request);
+  notifyApprovalRequired(request, tier, 'high');
+
+  createAuditLog(
+    request.sessionId,
+    'system',
+    'Approval escalation',
+    'escalated',
+    'approval_request',
+    request.id,
+    {
+      taskId: request.taskId,
+      taskName: request.taskName,
+      level: request.currentLevel,
+      tier: request.escalationTier,
+      escalatedTo: tier.id,
+      afterHours: tier.afterHours
+    },
+    COMPLIANCE_FLAGS
+  );
 
   return request;
 }
 
 /**
- * Get pending approvals for a user
+ * Get the approvals a user can act on right now
  */
 export function getPendingApprovals(approverId: string): ApprovalRequest[] {
-  return pendingApprovals.get(approverId) || [];
+  refreshDelegations();
+
+  return (pendingApprovals.get(approverId) || [])
+    .map(requestId => approvalRequests.get(requestId))
+    .filter((request): request is ApprovalRequest =>
+      request !== undefined && getActionableApproverIds(request).includes(approverId)
+    );
+}
+
+/**
+ * Get the approvers at the current level who can approve right now: the next one in
+ * listed order for sequential levels, everyone yet to approve for parallel levels
+ */
+export function getActionableApprovers(request: ApprovalRequest): Approver[] {
+  if (request.status !== 'pending' && request.status !== 'escalated') return [];
+
+  const currentLevel = request.levels[request.currentLevel - 1];
+  const remaining = currentLevel.approvers.filter(a => !hasApproved(request, a));
+  if (currentLevel.approvers.length - remaining.length >= currentLevel.requiredApprovals) return [];
+
+  return currentLevel.type === 'sequential' ? remaining.slice(0, 1) : remaining;
+}
+
+/**
+ * Everyone approval was asked of at the current level: its approvers, their delegates and the
+ * escalation targets reached so far. approveRequest and rejectRequest decide whose turn it is.
+ */
+export function getLevelRecipients(request: ApprovalRequest): ApprovalRecipient[] {
+  const approvers = request.levels[request.currentLevel - 1].approvers;
+  return [
+    ...approvers,
+    ...approvers.filter(a => a.delegateTo).map(toDelegateRecipient),
+    ...getReachedEscalationTiers(request)
+  ];
 }
 
 /**
@@ -432,24 +604,138 @@ export function listApprovalTemplates(): ApprovalWorkflowTemplate[] {
 }
 
 /**
- * Check for overdue approvals that need escalation
+ * Approver IDs a person is known by in the templates and requests, matched by email
+ */
+export function findApproverIds(email: string): string[] {
+  const target = email.toLowerCase();
+  const levels = [
+    ...Array.from(approvalTemplates.values()).flatMap(t => t.levels),
+    ...approvalRequests.values().flatMap(r => r.levels)
+  ];
+  const ids = levels.flatMap(level => level.approvers).filter(a => a.email?.toLowerCase() === target).map(a => a.id);
+  return [...new Set(ids)];
+}
+
+/**
+ * Add an out-of-office rule, e.g. route hr-001's approvals to hr-002 from
+ * 2026-11-01 to 2026-11-10. Rules that would route approvals in a circle are refused.
+ */
+export function createDelegationRule(input: CreateDelegationRuleRequest): DelegationRule {
+  if (!input.approverId || !input.delegateId) {
+    throw new Error('approverId and delegateId are required');
+  }
+  if (input.approverId === input.delegateId) {
+    throw new Error(`Cannot delegate approvals from ${input.approverId} to themselves`);
+  }
+
+  const startsAt = parseRuleDate(input.startsAt, false);
+  const endsAt = parseRuleDate(input.endsAt, true);
+  if (endsAt <= startsAt) {
+    throw new Error('Delegation must end after it starts');
+  }
+
+  const rule: DelegationRule = {
+    id: uuidv4(),
+    approverId: input.approverId,
+    delegateId: input.delegateId,
+    delegateName: input.delegateName || input.delegateId,
+    delegateEmail: input.delegateEmail,
+    startsAt,
+    endsAt,
+    reason: input.reason,
+    status: 'active',
+    createdBy: input.createdBy,
+    createdAt: now()
+  };
+
+  const loop = findDelegationLoop(rule, [rule.approverId, rule.delegateId]);
+  if (loop) {
+    throw new Error(`Delegation loop: ${loop.join(' -> ')}`);
+  }
+
+  delegationRules.set(rule.id, rule);
+  refreshDelegations();
+
+  return rule;
+}
+
+/**
+ * Cancel an out-of-office rule; requests it routed go back to the approver
+ */
+export function cancelDelegationRule(ruleId: string, cancelledBy: string): DelegationRule {
+  const rule = delegationRules.get(ruleId);
+  if (!rule) {
+    throw new Error(`Delegation rule not found: ${ruleId}`);
+  }
+  if (rule.status === 'cancelled') return rule;
+
+  rule.status = 'cancelled';
+  rule.cancelledBy = cancelledBy;
+  rule.cancelledAt = now();
+  delegationRules.set(rule.id, rule);
+  refreshDelegations();
+
+  return rule;
+}
+
+/**
+ * List out-of-office rules, soonest first
+ */
+export function listDelegationRules(filters?: {
+  approverId?: string;
+  delegateId?: string;
+  status?: DelegationRule['status'];
+}): DelegationRule[] {
+  let results = delegationRules.values();
+
+  if (filters?.approverId) {
+    results = results.filter(r => r.approverId === filters.approverId);
+  }
+  if (filters?.delegateId) {
+    results = results.filter(r => r.delegateId === filters.delegateId);
+  }
+  if (filters?.status) {
+    results = results.filter(r => r.status === filters.status);
+  }
+
+  return results.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+/**
+ * Subscribe to final approval decisions (approved or rejected) and cancellations
+ */
+export function onApprovalDecision(listener: ApprovalDecisionListener): void {
+  decisionListeners.push(listener);
+}
+
+/**
+ * Subscribe to approvers (or their delegates and escalation targets) becoming able to act,
+ * e.g. to send them an Adaptive Card in Teams
+ */
+export function onApprovalRequired(listener: ApprovalRequiredListener): void {
+  requiredListeners.push(listener);
+}
+
+/**
+ * Check for overdue approvals that need escalation. Each tier's wait starts
+ * when the level started or the previous tier was reached.
  */
 export function checkEscalations(): ApprovalRequest[] {
-  const now = new Date();
+  const currentTime = now();
   const escalated: ApprovalRequest[] = [];
 
   approvalRequests.forEach(request => {
-    if (request.status !== 'pending') return;
+    if (request.status !== 'pending' && request.status !== 'escalated') return;
 
-    const currentLevel = request.levels[request.currentLevel - 1];
-    if (!currentLevel.escalationTimeHours) return;
+    const nextTier = getEscalationChain(request.levels[request.currentLevel - 1])[request.escalationTier ?? 0];
+    if (!nextTier) return;
 
-    const hoursSinceRequest = (now.getTime() - request.requestedAt.getTime()) / (1000 * 60 * 60);
+    const waitingSince = request.lastEscalatedAt ?? request.levelStartedAt ?? request.requestedAt;
+    const hoursWaiting = (currentTime.getTime() - waitingSince.getTime()) / (1000 * 60 * 60);
     
-    if (hoursSinceRequest >= currentLevel.escalationTimeHours) {
+    if (hoursWaiting >= nextTier.afterHours) {
       try {
-        escalateApproval(request.id);
-        escalated.push(request);
+        escalated.push(escalateApproval(request.id));
       } catch (error) {
         console.error(`Failed to escalate ${request.id}:`, error);
       }
@@ -459,10 +745,289 @@ export function checkEscalations(): ApprovalRequest[] {
   return escalated;
 }
 
+/**
+ * Run checkEscalations periodically. The check is a durable timer, so it
+ * survives restarts and only fires while the timer scheduler is running.
+ */
+export function startEscalationRunner(intervalMinutes: number = DEFAULT_ESCALATION_CHECK_MINUTES): void {
+  escalationCheckMinutes = intervalMinutes;
+  if (listTimers({ kind: ESCALATION_TIMER, status: 'scheduled' }).length === 0) {
+    scheduleEscalationCheck();
+  }
+}
+
 // Helper functions
+
+/**
+ * Check that approverId may approve or reject the current level of an open request: an approver
+ * (or their delegate) whose turn it is and who has not approved yet, or a reached escalation target
+ */
+function authorizeDecision(
+  request: ApprovalRequest,
+  approverId: string,
+  verb: 'approve' | 'reject'
+): { approver?: Approver; escalationTier?: EscalationTier } {
+  if (request.status !== 'pending' && request.status !== 'escalated') {
+    throw new Error(`Cannot ${verb} request with status: ${request.status}`);
+  }
+
+  // Escalation targets decide for the whole level
+  const escalationTier = getReachedEscalationTiers(request).find(t => t.id === approverId);
+  const approver = findLevelApprover(request.levels[request.currentLevel - 1], approverId);
+
+  if (!approver && !escalationTier) {
+    throw new Error(`Approver ${approverId} not authorized for level ${request.currentLevel}`);
+  }
+  if (approver && !escalationTier) {
+    if (hasApproved(request, approver)) {
+      throw new Error(`Approver ${approverId} has already approved level ${request.currentLevel}`);
+    }
+
+    const actionable = getActionableApprovers(request);
+    if (!actionable.includes(approver)) {
+      throw new Error(
+        `Approver ${approverId} cannot ${verb} yet: level ${request.currentLevel} is sequential and waiting for ${actionable[0]?.name}`
+      );
+    }
+  }
+
+  return { approver, escalationTier };
+}
+
+function findLevelApprover(level: ApprovalLevel, approverId: string): Approver | undefined {
+  return level.approvers.find(a => a.id === approverId || a.delegateTo === approverId);
+}
+
+function toDelegateRecipient(approver: Approver): ApprovalRecipient {
+  return { id: approver.delegateTo!, name: approver.delegateName || approver.delegateTo!, email: approver.delegateEmail };
+}
+
+function hasApproved(request: ApprovalRequest, approver: Approver): boolean {
+  return request.history.some(h =>
+    h.level === request.currentLevel &&
+    h.action === 'approved' &&
+    (h.originalApproverId ?? h.approverId) === approver.id
+  );
+}
+
+function parseRuleDate(value: Date | string, endOfDay: boolean): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return endOfDay && typeof value === 'string' && DATE_ONLY_PATTERN.test(value)
+    ? new Date(date.getTime() + DAY_MS)
+    : date;
+}
+
+function isRuleActive(rule: DelegationRule, at: Date): boolean {
+  return rule.status === 'active' && rule.startsAt <= at && at < rule.endsAt;
+}
+
+/**
+ * Follow rules from the last approver in the path, looking for one that leads back into it
+ * while every rule on the way is active at the same time
+ */
+function findDelegationLoop(window: { startsAt: Date; endsAt: Date }, path: string[]): string[] | null {
+  const current = path[path.length - 1];
+  const overlapping = delegationRules.values().filter(r =>
+    r.status === 'active' && r.approverId === current && r.startsAt < window.endsAt && window.startsAt < r.endsAt
+  );
+
+  for (const next of overlapping) {
+    if (path.includes(next.delegateId)) {
+      return [...path, next.delegateId];
+    }
+    const overlap = {
+      startsAt: next.startsAt > window.startsAt ? next.startsAt : window.startsAt,
+      endsAt: next.endsAt < window.endsAt ? next.endsAt : window.endsAt
+    };
+    const loop = findDelegationLoop(overlap, [...path, next.delegateId]);
+    if (loop) return loop;
+  }
+  return null;
+}
+
+/**
+ * Who acts for an approver right now, following chained rules (the delegate may be away too)
+ */
+function resolveDelegate(approverId: string, at: Date): { rule: DelegationRule; delegate: DelegationRule } | undefined {
+  const visited = [approverId];
+  let resolved: { rule: DelegationRule; delegate: DelegationRule } | undefined;
+
+  for (;;) {
+    const next = delegationRules.values()
+      .filter(r => r.approverId === visited[visited.length - 1] && isRuleActive(r, at))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+    if (!next) break;
+    if (visited.includes(next.delegateId)) {
+      console.warn(`[APPROVALS] Ignoring delegation loop: ${[...visited, next.delegateId].join(' -> ')}`);
+      break;
+    }
+
+    visited.push(next.delegateId);
+    resolved = { rule: resolved?.rule ?? next, delegate: next };
+  }
+
+  return resolved;
+}
+
+/**
+ * Route the current level's approvers through the out-of-office rules active now.
+ * Hand-picked delegates are left alone. Returns whether anything changed.
+ */
+function applyDelegationRules(request: ApprovalRequest): boolean {
+  if (request.status !== 'pending' && request.status !== 'escalated') return false;
+
+  const currentLevel = request.levels[request.currentLevel - 1];
+  let changed = false;
+
+  currentLevel.approvers.forEach(approver => {
+    if (approver.delegateTo && !approver.delegationRuleId) return;
+
+    const delegation = resolveDelegate(approver.id, now());
+    if (delegation?.delegate.delegateId === approver.delegateTo) return;
+
+    const action: ApprovalAction = {
+      id: uuidv4(),
+      approvalRequestId: request.id,
+      approverId: approver.id,
+      approverName: approver.name,
+      action: 'delegated',
+      timestamp: now(),
+      level: request.currentLevel
+    };
+
+    if (delegation) {
+      approver.delegateTo = delegation.delegate.delegateId;
+      approver.delegateName = delegation.delegate.delegateName;
+      approver.delegateEmail = delegation.delegate.delegateEmail;
+      approver.delegationRuleId = delegation.rule.id;
+      action.approverName = `${approver.name} (delegated to ${delegation.delegate.delegateName})`;
+      action.comments = `Out of office until ${delegation.rule.endsAt.toISOString()}${delegation.rule.reason ? `: ${delegation.rule.reason}` : ''}`;
+    } else {
+      action.comments = `Out-of-office delegation to ${approver.delegateName || approver.delegateTo} ended`;
+      approver.delegateTo = undefined;
+      approver.delegateName = undefined;
+      approver.delegateEmail = undefined;
+      approver.delegationRuleId = undefined;
+    }
+
+    request.history.push(action);
+    changed = true;
+  });
+
+  return changed;
+}
+
+/**
+ * Re-apply out-of-office rules to every open request, as rules start and end over time
+ */
+function refreshDelegations() {
+  approvalRequests.values().forEach(request => {
+    if (applyDelegationRules(request)) {
+      approvalRequests.set(request.id, request);
+      syncPendingApprovals(request);
+    }
+  });
+}
+
+function getActionableApproverIds(request: ApprovalRequest): string[] {
+  return [
+    ...getActionableApprovers(request).map(a => a.delegateTo || a.id),
+    ...getReachedEscalationTiers(request).map(t => t.id)
+  ];
+}
+
+function getEscalationChain(level: ApprovalLevel): EscalationTier[] {
+  if (level.escalationChain) return level.escalationChain;
+  if (!level.escalateTo) return [];
+  return [{ id: level.escalateTo, name: level.escalateTo, afterHours: level.escalationTimeHours ?? 0 }];
+}
+
+function getReachedEscalationTiers(request: ApprovalRequest): EscalationTier[] {
+  if (request.status !== 'pending' && request.status !== 'escalated') return [];
+  return getEscalationChain(request.levels[request.currentLevel - 1]).slice(0, request.escalationTier ?? 0);
+}
+
+function scheduleEscalationCheck() {
+  scheduleTimer(ESCALATION_TIMER, new Date(now().getTime() + escalationCheckMinutes * 60 * 1000));
+}
+
+/**
+ * Point the pending queues at whoever can act on the request now, and notify
+ * approvers (or their delegates) whose turn has just come
+ */
+function syncPendingApprovals(request: ApprovalRequest) {
+  if (applyDelegationRules(request)) {
+    approvalRequests.set(request.id, request);
+  }
+
+  const queued = new Set<string>();
+  pendingApprovals.forEach((requestIds, approverId) => {
+    if (requestIds.includes(request.id)) queued.add(approverId);
+  });
+
+  clearPendingApprovals(request.id);
+  getActionableApproverIds(request).forEach(approverId => addPendingApproval(approverId, request.id));
+
+  getActionableApprovers(request)
+    .filter(approver => !queued.has(approver.delegateTo || approver.id))
+    .forEach(approver => notifyApprovalRequired(request, approver.delegateTo ? toDelegateRecipient(approver) : approver));
+}
+
+function notifyApprovalRequired(
+  request: ApprovalRequest,
+  recipient: ApprovalRecipient,
+  priority: 'normal' | 'high' = 'normal'
+) {
+  requiredListeners.forEach(listener => {
+    Promise.resolve(listener(request, recipient)).catch(error => {
+      console.error(`Approval required listener failed for ${request.id}:`, error);
+    });
+  });
+
+  if (!recipient.email) {
+    console.warn(`No email for approver ${recipient.id} on ${request.id}`);
+    return;
+  }
+
+  sendNotification('email', [recipient.email], `Approval required: ${request.taskName}`, {
+    template: 'approval-required',
+    priority,
+    variables: {
+      approverName: recipient.name,
+      taskName: request.taskName,
+      employeeName: request.metadata?.employeeName || 'the departing employee',
+      sessionId: request.sessionId,
+      approveLink: `ask the Offboarding bot to approve request ${request.id}`,
+      rejectLink: `ask the Offboarding bot to reject request ${request.id}`
+    },
+    metadata: { approvalRequestId: request.id, level: request.currentLevel, approverId: recipient.id }
+  }).catch(error => {
+    console.error(`Failed to notify approver for ${request.id}:`, error);
+  });
+}
+
+function notifyDecision(request: ApprovalRequest) {
+  decisionListeners.forEach(listener => {
+    Promise.resolve(listener(request)).catch(error => {
+      console.error(`Approval decision listener failed for ${request.id}:`, error);
+    });
+  });
+}
+
+function addPendingApproval(approverId: string, requestId: string) {
+  const requestIds = pendingApprovals.get(approverId) || [];
+  if (!requestIds.includes(requestId)) {
+    pendingApprovals.set(approverId, [...requestIds, requestId]);
+  }
+}
+
 function clearPendingApprovals(requestId: string) {
-  pendingApprovals.forEach((requests, approverId) => {
-    const filtered = requests.filter(r => r.id !== requestId);
+  pendingApprovals.forEach((requestIds, approverId) => {
+    if (!requestIds.includes(requestId)) return;
+    const filtered = requestIds.filter(id => id !== requestId);
     if (filtered.length > 0) {
       pendingApprovals.set(approverId, filtered);
     } else {
@@ -471,15 +1036,16 @@ function clearPendingApprovals(requestId: string) {
   });
 }
 
-function removePendingApproval(approverId: string, requestId: string) {
-  const requests = pendingApprovals.get(approverId) || [];
-  const filtered = requests.filter(r => r.id !== requestId);
-  if (filtered.length > 0) {
-    pendingApprovals.set(approverId, filtered);
-  } else {
-    pendingApprovals.delete(approverId);
+registerTimerHandler(ESCALATION_TIMER, () => {
+  try {
+    const escalated = checkEscalations();
+    if (escalated.length > 0) {
+      console.log(`[APPROVALS] Escalated ${escalated.length} overdue approval requests`);
+    }
+  } finally {
+    scheduleEscalationCheck();
   }
-}
+});
 
 // Initialize templates on module load
 initializeApprovalTemplates();
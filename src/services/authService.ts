@@ -0,0 +1,98 @@
+/**
+ * Auth Service
+ *
+ * Authenticates callers of the bot's HTTP API with the Entra ID access token the Tab
+ * sends as `Authorization: Bearer`. Callers are identified by the token's claims only,
+ * never by names passed in the request.
+ * Features:
+ * - Token signature, audience and tenant validation
+ * - App role check for administrative operations
+ * - Admin list for the bot's tools, whose Teams messages carry no access token
+ */
+
+import { createEntraTokenValidator, JwtValidator } from '@microsoft/teams.apps/dist/middleware';
+
+export interface ApiCaller {
+  id: string; // Entra object ID (oid)
+  name: string;
+  email: string; // preferred_username / upn
+  roles: string[];
+}
+
+const DEFAULT_ADMIN_ROLE = 'Offboarding.Admin';
+
+let validator: JwtValidator | null = null;
+
+function getValidator(): JwtValidator {
+  if (validator) {
+    return validator;
+  }
+
+  const clientId = process.env.API_CLIENT_ID;
+  const tenantId = process.env.API_TENANT_ID || process.env.M365_TENANT_ID;
+  if (!clientId || !tenantId) {
+    throw new Error('Unauthorized: API authentication is not configured. Set API_CLIENT_ID and API_TENANT_ID');
+  }
+
+  validator = createEntraTokenValidator(tenantId, clientId);
+  return validator;
+}
+
+/**
+ * Validate the bearer token in an Authorization header and return the caller it identifies
+ */
+export async function authenticate(authorization: string | undefined): Promise<ApiCaller> {
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    throw new Error('Unauthorized: a bearer token is required');
+  }
+
+  const claims = await getValidator().validateAccessToken(token);
+  if (!claims?.oid) {
+    throw new Error('Unauthorized: invalid or expired token');
+  }
+
+  const email = String(claims.preferred_username || claims.upn || claims.email || '').toLowerCase();
+  return {
+    id: String(claims.oid),
+    name: String(claims.name || email || claims.oid),
+    email,
+    roles: Array.isArray(claims.roles) ? claims.roles.map(String) : []
+  };
+}
+
+/**
+ * The app role that grants administrative operations (API_ADMIN_ROLE, default Offboarding.Admin)
+ */
+export function getAdminRole(): string {
+  return process.env.API_ADMIN_ROLE || DEFAULT_ADMIN_ROLE;
+}
+
+/**
+ * Whether the caller holds the admin app role
+ */
+export function isAdmin(caller: ApiCaller): boolean {
+  return caller.roles.includes(getAdminRole());
+}
+
+/**
+ * Throw unless the caller holds the admin app role
+ */
+export function requireAdmin(caller: ApiCaller): ApiCaller {
+  if (!isAdmin(caller)) {
+    throw new Error(`Forbidden: the ${getAdminRole()} role is required`);
+  }
+  return caller;
+}
+
+/**
+ * Whether a Teams user may use the bot's administrative tools: their email is listed in BOT_ADMIN_EMAILS.
+ * The email must come from the Teams roster, never from the message or tool arguments.
+ */
+export function isBotAdmin(email: string | undefined): boolean {
+  const admins = (process.env.BOT_ADMIN_EMAILS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return !!email && admins.includes(email.toLowerCase());
+}
@@ -6,6 +6,7 @@
  */
 
 import crypto from 'crypto';
+import { createAppendLog, createRepository } from './repository';
 
 export interface AuditLog {
   id: string;
@@ -56,9 +57,9 @@ export interface ComplianceReport {
   };
 }
 
-// In-memory storage (use database with immutability guarantees in production)
-const auditLogs: AuditLog[] = [];
-const complianceChecks = new Map<string, ComplianceCheck[]>();
+// Persistent storage (use a database with immutability guarantees in production)
+const auditLogStore = createAppendLog<AuditLog>('audit-logs');
+const complianceChecks = createRepository<ComplianceCheck[]>('compliance-checks');
 
 /**
  * Create immutable audit log entry
@@ -73,7 +74,7 @@ export function createAuditLog(
   details: Record<string, any>,
   complianceFlags: string[] = []
 ): AuditLog {
-  const previousHash = auditLogs.length > 0 ? auditLogs[auditLogs.length - 1].currentHash : '';
+  const previousHash = auditLogStore.last()?.currentHash || '';
   
   const logEntry: Omit<AuditLog, 'currentHash'> = {
     id: `audit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -84,7 +85,8 @@ export function createAuditLog(
     action,
     resource,
     resourceId,
-    details,
+    // Stored as the plain JSON it is hashed from, so a reload gives back exactly what was hashed
+    details: JSON.parse(JSON.stringify(details ?? {})),
     previousHash,
     complianceFlags
   };
@@ -98,7 +100,7 @@ export function createAuditLog(
     currentHash
   };
 
-  auditLogs.push(completeLog);
+  auditLogStore.append(completeLog);
   return completeLog;
 }
 
@@ -107,6 +109,7 @@ export function createAuditLog(
  */
 export function verifyAuditTrail(): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
+  const auditLogs = auditLogStore.values();
 
   for (let i = 0; i < auditLogs.length; i++) {
     const log = auditLogs[i];
@@ -327,7 +330,7 @@ export function generateComplianceReport(
   const overallScore = totalChecks > 0 ? Math.round((passed / totalChecks) * 100) : 0;
 
   // Get audit trail
-  const sessionAuditLogs = auditLogs.filter(log => log.sessionId === sessionId);
+  const sessionAuditLogs = auditLogStore.values().filter(log => log.sessionId === sessionId);
 
   // Generate recommendations
   const recommendations: string[] = [];
@@ -384,7 +387,7 @@ export function getAuditLogs(sessionId: string, filters?: {
   startDate?: Date;
   endDate?: Date;
 }): AuditLog[] {
-  let logs = auditLogs.filter(log => log.sessionId === sessionId);
+  let logs = auditLogStore.values().filter(log => log.sessionId === sessionId);
 
   if (filters?.actor) {
     logs = logs.filter(log => log.actor === filters.actor);
@@ -410,7 +413,7 @@ export function getAuditLogs(sessionId: string, filters?: {
  */
 export function searchAuditLogs(query: string): AuditLog[] {
   const lowerQuery = query.toLowerCase();
-  return auditLogs.filter(log => {
+  return auditLogStore.values().filter(log => {
     const searchableText = JSON.stringify({
       actorName: log.actorName,
       action: log.action,
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { ConditionExpression, evaluateCondition, resolvePath, validateCondition } from './conditionEvaluator';
+
+const now = new Date('2030-03-15T12:00:00.000Z');
+const context = {
+  employee: { department: 'Finance', level: 7, tags: ['contractor', 'remote'], email: 'ana@contoso.com', manager: null },
+  exitDate: '2030-03-20',
+  hiredAt: new Date('2020-01-01T00:00:00.000Z'),
+  items: [{ id: 'laptop' }]
+};
+
+const evaluate = (expression: ConditionExpression) => evaluateCondition(expression, context, now);
+
+describe('evaluateCondition', () => {
+  it('compares equality, membership and text', () => {
+    expect(evaluate({ field: 'employee.department', operator: 'equals', value: 'Finance' })).toBe(true);
+    expect(evaluate({ field: 'employee.department', operator: 'not_equals', value: 'Finance' })).toBe(false);
+    expect(evaluate({ field: 'employee.tags', operator: 'contains', value: 'remote' })).toBe(true);
+    expect(evaluate({ field: 'employee.email', operator: 'contains', value: '@contoso' })).toBe(true);
+    expect(evaluate({ field: 'employee.department', operator: 'in', value: ['HR', 'Finance'] })).toBe(true);
+    expect(evaluate({ field: 'employee.department', operator: 'not_in', value: ['HR', 'Finance'] })).toBe(false);
+    expect(evaluate({ field: 'employee.email', operator: 'matches', value: '/@CONTOSO\\.com$/i' })).toBe(true);
+  });
+
+  it('orders numbers and dates, including relative dates on the given clock', () => {
+    expect(evaluate({ field: 'employee.level', operator: 'greater_than', value: 5 })).toBe(true);
+    expect(evaluate({ field: 'employee.level', operator: 'less_or_equal', value: 6 })).toBe(false);
+    expect(evaluate({ field: 'exitDate', operator: 'before', value: 'now+7d' })).toBe(true);
+    expect(evaluate({ field: 'exitDate', operator: 'before', value: 'now+2d' })).toBe(false);
+    expect(evaluate({ field: 'hiredAt', operator: 'on_or_after', value: '2020-01-01T00:00:00.000Z' })).toBe(true);
+    expect(evaluate({ field: 'exitDate', operator: 'after', value: 'not a date' })).toBe(false);
+  });
+
+  it('treats missing and null fields as absent', () => {
+    expect(evaluate({ field: 'employee.manager', operator: 'exists' })).toBe(false);
+    expect(evaluate({ field: 'employee.missing.deeper', operator: 'exists', value: false })).toBe(true);
+    expect(evaluate({ field: 'items.0.id', operator: 'equals', value: 'laptop' })).toBe(true);
+    expect(resolvePath(context, 'employee.missing.deeper')).toBeUndefined();
+  });
+
+  it('combines expressions with and, or and not', () => {
+    const finance: ConditionExpression = { field: 'employee.department', operator: 'equals', value: 'Finance' };
+    const senior: ConditionExpression = { field: 'employee.level', operator: 'greater_or_equal', value: 8 };
+
+    expect(evaluate({ and: [finance, senior] })).toBe(false);
+    expect(evaluate({ or: [finance, senior] })).toBe(true);
+    expect(evaluate({ not: senior })).toBe(true);
+  });
+});
+
+describe('validateCondition', () => {
+  it('accepts well-formed expressions', () => {
+    expect(validateCondition({
+      and: [
+        { field: 'employee.department', operator: 'in', value: ['Finance'] },
+        { not: { field: 'exitDate', operator: 'on_or_before', value: 'now-1d' } },
+        { field: 'employee.manager', operator: 'exists' }
+      ]
+    })).toEqual([]);
+  });
+
+  it('reports each problem with its path', () => {
+    expect(validateCondition(null)).toEqual(['condition: expression must be an object']);
+    expect(validateCondition({ and: [] })).toEqual(['condition.and: must be a non-empty array of expressions']);
+    expect(validateCondition({
+      or: [
+        { field: 'bad path!', operator: 'equals', value: 1 },
+        { field: 'a', operator: 'unknown' },
+        { field: 'a', operator: 'equals' },
+        { field: 'a', operator: 'in', value: 'Finance' },
+        { field: 'a', operator: 'before', value: 'next week' },
+        { field: 'a', operator: 'greater_than', value: 'many' },
+        { field: 'a', operator: 'matches', value: '(' },
+        { field: 'a', operator: 'exists', value: 'yes' }
+      ]
+    })).toEqual([
+      'condition.or[0].field: must be a dotted context path such as "employee.department"',
+      'condition.or[1].operator: unknown operator "unknown"',
+      'condition.or[2].value: required for operator "equals"',
+      'condition.or[3].value: "in" requires an array',
+      'condition.or[4].value: "before" requires a date, ISO string or relative date like "now+7d"',
+      'condition.or[5].value: "greater_than" requires a number or date',
+      expect.stringMatching(/^condition\.or\[6\]\.value: invalid regular expression/),
+      'condition.or[7].value: "exists" takes an optional boolean'
+    ]);
+  });
+});
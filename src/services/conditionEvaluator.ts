@@ -0,0 +1,263 @@
+/**
+ * Condition Evaluator
+ *
+ * Small typed expression language used by workflow condition steps.
+ * Features:
+ * - Dotted paths into the execution context (e.g. "employee.department")
+ * - Logical and / or / not
+ * - Equality, numeric and date comparisons, membership and regex
+ * - Static validation so broken expressions are caught by validateWorkflow
+ */
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'greater_or_equal'
+  | 'less_or_equal'
+  | 'in'
+  | 'not_in'
+  | 'before'
+  | 'after'
+  | 'on_or_before'
+  | 'on_or_after'
+  | 'matches'
+  | 'exists';
+
+export interface ComparisonExpression {
+  field: string; // Dotted path into the context
+  operator: ConditionOperator;
+  value?: any;
+}
+
+export type ConditionExpression =
+  | ComparisonExpression
+  | { and: ConditionExpression[] }
+  | { or: ConditionExpression[] }
+  | { not: ConditionExpression };
+
+const OPERATORS: ConditionOperator[] = [
+  'equals', 'not_equals', 'contains', 'greater_than', 'less_than', 'greater_or_equal',
+  'less_or_equal', 'in', 'not_in', 'before', 'after', 'on_or_before', 'on_or_after', 'matches', 'exists'
+];
+const DATE_OPERATORS: ConditionOperator[] = ['before', 'after', 'on_or_before', 'on_or_after'];
+const ORDER_OPERATORS: ConditionOperator[] = ['greater_than', 'less_than', 'greater_or_equal', 'less_or_equal'];
+
+const PATH_PATTERN = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*|\.\d+)*$/;
+// "now", "now+7d", "now-12h"
+const RELATIVE_DATE_PATTERN = /^now(?:([+-])(\d+)([dh]))?$/;
+
+/**
+ * Evaluate a condition expression against an execution context
+ */
+export function evaluateCondition(
+  expression: ConditionExpression,
+  context: Record<string, any>,
+  now: Date = new Date()
+): boolean {
+  if ('and' in expression) {
+    return expression.and.every(e => evaluateCondition(e, context, now));
+  }
+  if ('or' in expression) {
+    return expression.or.some(e => evaluateCondition(e, context, now));
+  }
+  if ('not' in expression) {
+    return !evaluateCondition(expression.not, context, now);
+  }
+
+  return evaluateComparison(expression, context, now);
+}
+
+/**
+ * Validate a condition expression, returning one message per problem
+ */
+export function validateCondition(expression: unknown, path: string = 'condition'): string[] {
+  if (!expression || typeof expression !== 'object' || Array.isArray(expression)) {
+    return [`${path}: expression must be an object`];
+  }
+
+  const expr = expression as Record<string, any>;
+
+  if ('and' in expr || 'or' in expr) {
+    const key = 'and' in expr ? 'and' : 'or';
+    if (!Array.isArray(expr[key]) || expr[key].length === 0) {
+      return [`${path}.${key}: must be a non-empty array of expressions`];
+    }
+    return expr[key].flatMap((e: unknown, i: number) => validateCondition(e, `${path}.${key}[${i}]`));
+  }
+
+  if ('not' in expr) {
+    return validateCondition(expr.not, `${path}.not`);
+  }
+
+  return validateComparison(expr, path);
+}
+
+/**
+ * Resolve a dotted path (e.g. "employee.manager.id") in a context object
+ */
+export function resolvePath(context: Record<string, any>, path: string): any {
+  return path.split('.').reduce<any>(
+    (current, key) => (current === undefined || current === null ? undefined : current[key]),
+    context
+  );
+}
+
+function evaluateComparison(
+  expression: ComparisonExpression,
+  context: Record<string, any>,
+  now: Date
+): boolean {
+  const actual = resolvePath(context, expression.field);
+  const expected = expression.value;
+
+  switch (expression.operator) {
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (expected ?? true);
+    case 'equals':
+      return isEqual(actual, expected);
+    case 'not_equals':
+      return !isEqual(actual, expected);
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some(item => isEqual(item, expected));
+      }
+      return typeof actual === 'string' && typeof expected === 'string' && actual.includes(expected);
+    case 'in':
+      return Array.isArray(expected) && expected.some(item => isEqual(actual, item));
+    case 'not_in':
+      return Array.isArray(expected) && !expected.some(item => isEqual(actual, item));
+    case 'greater_than':
+    case 'less_than':
+    case 'greater_or_equal':
+    case 'less_or_equal':
+      return compareOrdered(expression.operator, toComparable(actual, now), toComparable(expected, now));
+    case 'before':
+    case 'after':
+    case 'on_or_before':
+    case 'on_or_after':
+      return compareDates(expression.operator, toDate(actual, now), toDate(expected, now));
+    case 'matches':
+      return typeof actual === 'string' && toRegExp(expected).test(actual);
+    default:
+      throw new Error(`Unsupported condition operator: ${expression.operator}`);
+  }
+}
+
+function validateComparison(expr: Record<string, any>, path: string): string[] {
+  const errors: string[] = [];
+
+  if (typeof expr.field !== 'string' || !PATH_PATTERN.test(expr.field)) {
+    errors.push(`${path}.field: must be a dotted context path such as "employee.department"`);
+  }
+
+  if (!OPERATORS.includes(expr.operator)) {
+    errors.push(`${path}.operator: unknown operator "${expr.operator}"`);
+    return errors;
+  }
+
+  const operator = expr.operator as ConditionOperator;
+  const value = expr.value;
+
+  if (operator === 'exists') {
+    if (value !== undefined && typeof value !== 'boolean') {
+      errors.push(`${path}.value: "exists" takes an optional boolean`);
+    }
+  } else if (value === undefined) {
+    errors.push(`${path}.value: required for operator "${operator}"`);
+  } else if ((operator === 'in' || operator === 'not_in') && !Array.isArray(value)) {
+    errors.push(`${path}.value: "${operator}" requires an array`);
+  } else if (DATE_OPERATORS.includes(operator) && !toDate(value, new Date())) {
+    errors.push(`${path}.value: "${operator}" requires a date, ISO string or relative date like "now+7d"`);
+  } else if (ORDER_OPERATORS.includes(operator) && toComparable(value, new Date()) === undefined) {
+    errors.push(`${path}.value: "${operator}" requires a number or date`);
+  } else if (operator === 'matches') {
+    try {
+      toRegExp(value);
+    } catch (error) {
+      errors.push(`${path}.value: invalid regular expression (${error instanceof Error ? error.message : error})`);
+    }
+  }
+
+  return errors;
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    const left = toDate(a, new Date());
+    const right = toDate(b, new Date());
+    return !!left && !!right && left.getTime() === right.getTime();
+  }
+  return a === b;
+}
+
+function compareOrdered(operator: ConditionOperator, left: number | undefined, right: number | undefined): boolean {
+  if (left === undefined || right === undefined) return false;
+
+  switch (operator) {
+    case 'greater_than':
+      return left > right;
+    case 'less_than':
+      return left < right;
+    case 'greater_or_equal':
+      return left >= right;
+    case 'less_or_equal':
+      return left <= right;
+    default:
+      return false;
+  }
+}
+
+function compareDates(operator: ConditionOperator, left: Date | undefined, right: Date | undefined): boolean {
+  if (!left || !right) return false;
+
+  switch (operator) {
+    case 'before':
+      return left.getTime() < right.getTime();
+    case 'after':
+      return left.getTime() > right.getTime();
+    case 'on_or_before':
+      return left.getTime() <= right.getTime();
+    case 'on_or_after':
+      return left.getTime() >= right.getTime();
+    default:
+      return false;
+  }
+}
+
+function toComparable(value: any, now: Date): number | undefined {
+  if (typeof value === 'number' && !isNaN(value)) return value;
+  return toDate(value, now)?.getTime();
+}
+
+function toDate(value: any, now: Date): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value !== 'string') return undefined;
+
+  const relative = RELATIVE_DATE_PATTERN.exec(value);
+  if (relative) {
+    const [, sign, amount, unit] = relative;
+    if (!sign) return now;
+    const ms = Number(amount) * (unit === 'd' ? 24 : 1) * 60 * 60 * 1000;
+    return new Date(now.getTime() + (sign === '+' ? ms : -ms));
+  }
+
+  // Only ISO-style dates, so plain strings like "42" are not treated as dates
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value)) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toRegExp(value: any): RegExp {
+  if (typeof value !== 'string') {
+    throw new Error('pattern must be a string');
+  }
+
+  // Accept "/pattern/flags" as well as a bare pattern
+  const literal = /^\/(.*)\/([gimsuy]*)$/.exec(value);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value);
+}
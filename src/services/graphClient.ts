@@ -61,7 +61,7 @@ export async function getUser(userId: string) {
   try {
     const user = await client
       .api(`/users/${userId}`)
-      .select("id,displayName,mail,jobTitle,department,accountEnabled,assignedLicenses")
+      .select("id,displayName,userPrincipalName,mail,jobTitle,department,accountEnabled,assignedLicenses")
       .get();
 
     return user;
@@ -143,7 +143,7 @@ export async function transferUserData(fromUserId: string, toUserId: string, dat
 
     // Transfer OneDrive files
     if (dataTypes.includes("files") || dataTypes.includes("onedrive") || dataTypes.includes("all")) {
-      // Get the source user's drive
+      // Get the source user's drive; edit access is handed over by the Tab's gated OneDrive handoff task
       const drive = await client.api(`/users/${fromUserId}/drive`).get();
       
       results.push({
@@ -151,7 +151,7 @@ export async function transferUserData(fromUserId: string, toUserId: string, dat
         status: "accessible",
         message: `OneDrive accessible for transfer`,
         driveId: drive.id,
-        action: `Use SharePoint admin to transfer ownership or grant access to ${toUserId}`,
+        action: `Run the OneDrive handoff task from the Offboarding tab to grant ${toUserId} access`,
       });
     }
 
@@ -196,3 +196,15 @@ export async function getUserMemberships(userId: string) {
     throw new Error(`Failed to get user memberships: ${error.message}`);
   }
 }
+
+// Account deletion (the user stays restorable from deleted items for 30 days)
+export async function deleteUser(userId: string) {
+  const client = getGraphClient();
+
+  try {
+    await client.api(`/users/${userId}`).delete();
+  } catch (error: any) {
+    console.error("[GRAPH] Delete user error:", error.message);
+    throw new Error(`Failed to delete user: ${error.message}`);
+  }
+}
@@ -5,6 +5,8 @@
  * Supports: Workday, ServiceNow, BambooHR, Slack, and custom webhooks
  */
 
+import { createRepository } from './repository';
+
 export interface Integration {
   id: string;
   name: string;
@@ -38,9 +40,9 @@ export interface IntegrationAction {
   error?: string;
 }
 
-// In-memory storage
-const integrations = new Map<string, Integration>();
-const actions: IntegrationAction[] = [];
+// Persistent storage
+const integrations = createRepository<Integration>('integrations');
+const actions = createRepository<IntegrationAction>('integration-actions');
 
 /**
  * Register integration
@@ -81,7 +83,7 @@ export async function executeIntegrationAction(
   }
 
   const integrationAction: IntegrationAction = {
-    id: `action-${Date.now()}`,
+    id: `action-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     integrationId,
     action,
     payload,
@@ -120,7 +122,8 @@ export async function executeIntegrationAction(
     integration.errorMessage = integrationAction.error;
   }
 
-  actions.push(integrationAction);
+  actions.set(integrationAction.id, integrationAction);
+  integrations.set(integration.id, integration);
   return integrationAction;
 }
 
@@ -309,10 +312,12 @@ export async function testIntegration(integrationId: string): Promise<boolean> {
     // Test with a simple action
     await executeIntegrationAction(integrationId, 'test_connection', {});
     integration.status = 'active';
+    integrations.set(integration.id, integration);
     return true;
   } catch (error) {
     integration.status = 'error';
     integration.errorMessage = error instanceof Error ? error.message : 'Connection test failed';
+    integrations.set(integration.id, integration);
     return false;
   }
 }
@@ -348,9 +353,9 @@ export function listIntegrations(filters?: {
  */
 export function getIntegrationActions(integrationId?: string): IntegrationAction[] {
   if (integrationId) {
-    return actions.filter(a => a.integrationId === integrationId);
+    return actions.values().filter(a => a.integrationId === integrationId);
   }
-  return actions;
+  return actions.values();
 }
 
 /**
@@ -364,6 +369,7 @@ export function toggleIntegration(integrationId: string, enabled: boolean): Inte
 
   integration.enabled = enabled;
   integration.status = enabled ? 'active' : 'disabled';
+  integrations.set(integration.id, integration);
   return integration;
 }
 
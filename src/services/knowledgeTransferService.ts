@@ -10,6 +10,7 @@
  */
 
 import OpenAI from 'openai';
+import { createRepository } from './repository';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -65,10 +66,10 @@ export interface PlaybookSection {
   order: number;
 }
 
-// In-memory storage
-const knowledgeItems = new Map<string, KnowledgeItem>();
-const transferSessions = new Map<string, KnowledgeTransferSession>();
-const playbooks = new Map<string, SuccessorPlaybook>();
+// Persistent storage
+const knowledgeItems = createRepository<KnowledgeItem>('knowledge-items');
+const transferSessions = createRepository<KnowledgeTransferSession>('knowledge-transfer-sessions');
+const playbooks = createRepository<SuccessorPlaybook>('successor-playbooks');
 
 /**
  * Extract knowledge from text using AI
@@ -313,6 +314,7 @@ export function startTransferSession(sessionId: string): KnowledgeTransferSessio
   }
 
   session.status = 'in_progress';
+  transferSessions.set(session.id, session);
   return session;
 }
 
@@ -333,6 +335,7 @@ export function completeTransferSession(
   session.completedAt = new Date();
   session.notes = notes;
   session.recording = recording;
+  transferSessions.set(session.id, session);
 
   return session;
 }
@@ -430,6 +433,7 @@ export function updatePlaybookStatus(
   }
 
   playbook.status = status;
+  playbooks.set(playbook.id, playbook);
   return playbook;
 }
 
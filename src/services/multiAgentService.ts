@@ -9,6 +9,7 @@
  */
 
 import OpenAI from 'openai';
+import { createRepository } from './repository';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY || ''
@@ -55,9 +56,9 @@ export interface OrchestrationSession {
   completedAt?: Date;
 }
 
-// Agent definitions
+// Agent definitions (static, re-seeded on start) and persistent sessions
 const agents: Map<string, Agent> = new Map();
-const sessions: Map<string, OrchestrationSession> = new Map();
+const sessions = createRepository<OrchestrationSession>('orchestration-sessions');
 
 /**
  * Initialize specialized agents
@@ -215,7 +216,7 @@ export async function executeAgentTask(
   }
 
   const task: AgentTask = {
-    id: `task-${Date.now()}`,
+    id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     agentId,
     description: taskDescription,
     status: 'in_progress',
@@ -223,6 +224,7 @@ export async function executeAgentTask(
   };
 
   session.tasks.push(task);
+  sessions.set(session.id, session);
 
   try {
     // Call OpenAI with agent's system prompt
@@ -256,22 +258,25 @@ Please complete this task and provide a detailed response with specific actions
     task.result = result;
     task.status = 'completed';
     task.completedAt = new Date();
-
-    // Add message to session
-    session.messages.push({
-      id: `msg-${Date.now()}`,
-      agentId,
-      content: result,
-      timestamp: new Date(),
-      metadata: { taskId: task.id }
-    });
-
   } catch (error) {
     task.status = 'failed';
     task.error = error instanceof Error ? error.message : 'Unknown error';
     task.completedAt = new Date();
   }
 
+  // Re-read the session: other agents' tasks may have finished while this one ran
+  const latest = sessions.get(sessionId) || session;
+  latest.tasks = latest.tasks.map(t => (t.id === task.id ? task : t));
+  if (task.status === 'completed') {
+    latest.messages.push({
+      id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      agentId,
+      content: task.result,
+      timestamp: new Date(),
+      metadata: { taskId: task.id }
+    });
+  }
+  sessions.set(latest.id, latest);
   return task;
 }
 
@@ -322,11 +327,13 @@ export async function orchestrateOffboarding(
   await Promise.all(taskPromises);
 
   // Check if all tasks completed successfully
-  const allCompleted = session.tasks.every(t => t.status === 'completed');
-  session.status = allCompleted ? 'completed' : 'failed';
-  session.completedAt = new Date();
+  const completed = sessions.get(session.id) || session;
+  const allCompleted = completed.tasks.every(t => t.status === 'completed');
+  completed.status = allCompleted ? 'completed' : 'failed';
+  completed.completedAt = new Date();
+  sessions.set(completed.id, completed);
 
-  return session;
+  return completed;
 }
 
 /**
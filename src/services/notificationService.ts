@@ -5,6 +5,8 @@
  * Supports: Email, Teams, Slack, SMS, Webhooks
  */
 
+import { createRepository } from './repository';
+
 export interface Notification {
   id: string;
   type: 'email' | 'teams' | 'slack' | 'sms' | 'webhook';
@@ -29,8 +31,8 @@ export interface NotificationTemplate {
   variables: string[]; // {{variable}} placeholders
 }
 
-// In-memory storage
-const notifications = new Map<string, Notification>();
+// Persistent storage (templates are static and re-seeded on start)
+const notifications = createRepository<Notification>('notifications');
 const templates = new Map<string, NotificationTemplate>();
 
 /**
@@ -167,7 +169,7 @@ export async function sendNotification(
   }
 
   const notification: Notification = {
-    id: `notif-${Date.now()}`,
+    id: `notif-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     type,
     recipients,
     subject: finalSubject,
@@ -208,6 +210,8 @@ async function simulateSend(notification: Notification): Promise<void> {
     notification.error = error instanceof Error ? error.message : 'Unknown error';
     console.error('Notification failed:', error);
   }
+
+  notifications.set(notification.id, notification);
 }
 
 /**
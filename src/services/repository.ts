@@ -0,0 +1,292 @@
+/**
+ * Persistence Layer
+ *
+ * Keyed repositories used by every service for durable state.
+ * Backends:
+ * - memory: process-local Map (default, state is lost on restart)
+ * - file: one JSON document per collection under OFFBOARDING_DATA_DIR
+ *
+ * Append-only logs (the audit trail) use their own backends:
+ * - memory: process-local array
+ * - file: one JSON line per entry, appended, under OFFBOARDING_DATA_DIR
+ *
+ * Select the backend with OFFBOARDING_STORE=memory|file before the bot starts.
+ * Both backends store and return copies, so a change to an entry only takes
+ * effect once it is passed back to `set`, whichever backend is configured.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface Repository<T> {
+  readonly name: string;
+  readonly size: number;
+  get(id: string): T | undefined;
+  has(id: string): boolean;
+  set(id: string, value: T): void;
+  delete(id: string): boolean;
+  values(): T[];
+  keys(): string[];
+  forEach(callback: (value: T, id: string) => void): void;
+  clear(): void;
+}
+
+export interface AppendLog<T> {
+  readonly name: string;
+  readonly size: number;
+  append(entry: T): void;
+  last(): T | undefined;
+  values(): T[];
+}
+
+export type RepositoryBackend = 'memory' | 'file';
+
+// Dates are written as { "$date": "<ISO timestamp>" }, so exactly the values that were
+// Dates come back as Dates; strings are never converted, whatever their key or content.
+const DATE_TAG = '$date';
+
+/**
+ * In-memory repository backed by a Map
+ */
+export class InMemoryRepository<T> implements Repository<T> {
+  protected entries = new Map<string, T>();
+
+  constructor(public readonly name: string) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(id: string): T | undefined {
+    const value = this.entries.get(id);
+    return value === undefined ? undefined : structuredClone(value);
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  set(id: string, value: T): void {
+    this.entries.set(id, structuredClone(value));
+  }
+
+  delete(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  values(): T[] {
+    return Array.from(this.entries.values(), value => structuredClone(value));
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  forEach(callback: (value: T, id: string) => void): void {
+    this.entries.forEach((value, id) => callback(structuredClone(value), id));
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * File-backed repository
+ *
+ * Keeps a working copy in memory and rewrites the collection file atomically
+ * (write to temp file, then rename) on every change. Suited to collections
+ * whose entries are updated; use an append-only log for ever-growing history.
+ */
+export class FileRepository<T> extends InMemoryRepository<T> {
+  private readonly filePath: string;
+
+  constructor(name: string, directory: string) {
+    super(name);
+    this.filePath = path.join(directory, `${name}.json`);
+    fs.mkdirSync(directory, { recursive: true });
+    this.load();
+  }
+
+  set(id: string, value: T): void {
+    super.set(id, value);
+    this.persist();
+  }
+
+  delete(id: string): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    super.clear();
+    this.persist();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf8');
+      const document = JSON.parse(raw, reviveTaggedDates) as { entries: [string, T][] };
+      this.entries = new Map(document.entries);
+    } catch (error) {
+      throw new Error(
+        `Failed to load repository "${this.name}" from ${this.filePath}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  private persist(): void {
+    const tempPath = `${this.filePath}.tmp`;
+    const document = {
+      collection: this.name,
+      savedAt: new Date().toISOString(),
+      entries: Array.from(this.entries.entries())
+    };
+
+    fs.writeFileSync(tempPath, JSON.stringify(document, tagDates, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * In-memory append-only log
+ */
+export class InMemoryAppendLog<T> implements AppendLog<T> {
+  protected entries: T[] = [];
+
+  constructor(public readonly name: string) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  append(entry: T): void {
+    this.entries.push(structuredClone(entry));
+  }
+
+  last(): T | undefined {
+    const entry = this.entries[this.entries.length - 1];
+    return entry === undefined ? undefined : structuredClone(entry);
+  }
+
+  values(): T[] {
+    return this.entries.map(entry => structuredClone(entry));
+  }
+}
+
+/**
+ * File-backed append-only log
+ *
+ * Each entry is appended to the collection's .jsonl file as one line, so a
+ * write never touches earlier entries. A partial last line left by a crash
+ * mid-append is dropped on load; damage anywhere else fails the load.
+ */
+export class FileAppendLog<T> extends InMemoryAppendLog<T> {
+  private readonly filePath: string;
+
+  constructor(name: string, directory: string) {
+    super(name);
+    this.filePath = path.join(directory, `${name}.jsonl`);
+    fs.mkdirSync(directory, { recursive: true });
+    this.load();
+  }
+
+  append(entry: T): void {
+    fs.appendFileSync(this.filePath, `${JSON.stringify(entry, tagDates)}\n`);
+    super.append(entry);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const content = fs.readFileSync(this.filePath, 'utf8');
+    const lines = content.split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        this.entries.push(JSON.parse(line, reviveTaggedDates));
+      } catch (error) {
+        if (index === lines.length - 1) {
+          // Cut the partial line off, so the next append starts on a line of its own
+          console.warn(`Dropping incomplete last entry of log "${this.name}" in ${this.filePath}`);
+          fs.truncateSync(this.filePath, Buffer.byteLength(content) - Buffer.byteLength(line));
+          return;
+        }
+        throw new Error(
+          `Failed to load log "${this.name}" from ${this.filePath} at line ${index + 1}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Create a repository for a named collection using the configured backend
+ */
+export function createRepository<T>(name: string): Repository<T> {
+  const backend = getRepositoryBackend();
+
+  switch (backend) {
+    case 'memory':
+      return new InMemoryRepository<T>(name);
+    case 'file':
+      return new FileRepository<T>(name, getDataDirectory());
+    default:
+      throw new Error(`Unsupported repository backend: ${backend}`);
+  }
+}
+
+/**
+ * Create an append-only log for a named collection using the configured backend
+ */
+export function createAppendLog<T>(name: string): AppendLog<T> {
+  const backend = getRepositoryBackend();
+
+  switch (backend) {
+    case 'memory':
+      return new InMemoryAppendLog<T>(name);
+    case 'file':
+      return new FileAppendLog<T>(name, getDataDirectory());
+    default:
+      throw new Error(`Unsupported repository backend: ${backend}`);
+  }
+}
+
+/**
+ * Get the configured repository backend
+ */
+export function getRepositoryBackend(): RepositoryBackend {
+  return (process.env.OFFBOARDING_STORE || 'memory') as RepositoryBackend;
+}
+
+function getDataDirectory(): string {
+  return path.resolve(process.env.OFFBOARDING_DATA_DIR || './data');
+}
+
+/**
+ * JSON.stringify replacer that writes Dates with the date tag. Replacers see the
+ * value after toJSON, so the Date is read from the holder.
+ */
+function tagDates(this: any, key: string, value: unknown): unknown {
+  const original = this[key];
+  if (original instanceof Date) {
+    return isNaN(original.getTime()) ? null : { [DATE_TAG]: original.toISOString() };
+  }
+  return value;
+}
+
+/**
+ * JSON.parse reviver that turns tagged dates back into Dates
+ */
+function reviveTaggedDates(_key: string, value: any): any {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value) &&
+      typeof value[DATE_TAG] === 'string' && Object.keys(value).length === 1) {
+    return new Date(value[DATE_TAG]);
+  }
+  return value;
+}
@@ -0,0 +1,467 @@
+/**
+ * Retention Service
+ *
+ * Deletes offboarded accounts once their retention period (`deleteUserAfterDays`)
+ * has passed. Deletions are durable timers, so they survive restarts.
+ * Features:
+ * - Pending deletions with reminders before the deadline
+ * - Legal holds that block deletion until they are released
+ * - Every outcome written to the compliance audit log
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { createRepository } from './repository';
+import { cancelTimer, now, registerTimerHandler, scheduleTimer } from './timerService';
+import { sendNotification } from './notificationService';
+import { createAuditLog } from './complianceService';
+import { deleteUser } from './graphClient';
+
+export interface PendingDeletion {
+  id: string;
+  sessionId: string;
+  userId: string;
+  userPrincipalName: string;
+  displayName: string;
+  requestedBy: string;
+  requestedAt: Date;
+  deleteAt: Date;
+  reminderDaysBefore: number[];
+  notifyRecipients: string[];
+  status: 'scheduled' | 'blocked' | 'deleted' | 'failed' | 'cancelled';
+  timerIds: string[]; // Deletion and reminder timers still scheduled
+  attempts: number;
+  blockedBy?: string[]; // Legal hold IDs
+  deletedAt?: Date;
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  error?: string;
+}
+
+export interface LegalHold {
+  id: string;
+  userId: string;
+  caseReference: string;
+  reason: string;
+  placedBy: string;
+  placedAt: Date;
+  status: 'active' | 'released';
+  releasedBy?: string;
+  releasedAt?: Date;
+}
+
+export interface ScheduleDeletionRequest {
+  sessionId: string;
+  userId: string;
+  userPrincipalName: string;
+  displayName: string;
+  deleteAfterDays: number;
+  requestedBy: string;
+  reminderDaysBefore?: number[];
+  notifyRecipients?: string[];
+}
+
+const DELETION_TIMER = 'account-deletion';
+const REMINDER_TIMER = 'account-deletion-reminder';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DELETE_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+// Time to react after the last hold on an overdue deletion is released
+const RELEASE_GRACE_DAYS = 7;
+const DEFAULT_MIN_DELETE_AFTER_DAYS = 30;
+const COMPLIANCE_FLAGS = ['GDPR', 'SOX'];
+
+// Persistent storage
+const pendingDeletions = createRepository<PendingDeletion>('pending-deletions');
+const legalHolds = createRepository<LegalHold>('legal-holds');
+
+/**
+ * Schedule deletion of an offboarded account. Scheduling the same session again
+ * returns the deletion that is already pending.
+ */
+export function scheduleAccountDeletion(request: ScheduleDeletionRequest): PendingDeletion {
+  if (!request.userId || !request.sessionId) {
+    throw new Error('userId and sessionId are required');
+  }
+  if (!(request.deleteAfterDays >= 0)) {
+    throw new Error(`Invalid deleteAfterDays: ${request.deleteAfterDays}`);
+  }
+  const minDeleteAfterDays = getMinDeleteAfterDays();
+  if (request.deleteAfterDays < minDeleteAfterDays) {
+    throw new Error(`deleteAfterDays must be at least ${minDeleteAfterDays}`);
+  }
+
+  const existing = pendingDeletions.values().find(
+    d => d.sessionId === request.sessionId && d.userId === request.userId && (d.status === 'scheduled' || d.status === 'blocked')
+  );
+  if (existing) return existing;
+
+  const requestedAt = now();
+  const deletion: PendingDeletion = {
+    id: uuidv4(),
+    sessionId: request.sessionId,
+    userId: request.userId,
+    userPrincipalName: request.userPrincipalName,
+    displayName: request.displayName,
+    requestedBy: request.requestedBy,
+    requestedAt,
+    deleteAt: new Date(requestedAt.getTime() + request.deleteAfterDays * DAY_MS),
+    reminderDaysBefore: [...new Set(request.reminderDaysBefore ?? [14, 3, 1])].sort((a, b) => b - a),
+    notifyRecipients: request.notifyRecipients?.length ? request.notifyRecipients : ['it@company.com', 'legal@company.com'],
+    status: 'scheduled',
+    timerIds: [],
+    attempts: 0
+  };
+  scheduleDeletionTimers(deletion, deletion.deleteAt);
+  pendingDeletions.set(deletion.id, deletion);
+
+  createAuditLog(
+    deletion.sessionId,
+    deletion.requestedBy,
+    deletion.requestedBy,
+    'scheduled',
+    'account_deletion',
+    deletion.id,
+    {
+      userId: deletion.userId,
+      userPrincipalName: deletion.userPrincipalName,
+      deleteAt: deletion.deleteAt,
+      activeLegalHolds: getActiveLegalHolds(deletion.userId).map(h => h.id)
+    },
+    COMPLIANCE_FLAGS
+  );
+
+  return deletion;
+}
+
+/**
+ * Cancel a pending deletion, e.g. when the offboarding is rolled back
+ */
+export function cancelAccountDeletion(deletionId: string, cancelledBy: string, reason?: string): PendingDeletion {
+  const deletion = pendingDeletions.get(deletionId);
+  if (!deletion) {
+    throw new Error(`Pending deletion not found: ${deletionId}`);
+  }
+  if (deletion.status === 'cancelled') return deletion;
+  if (deletion.status === 'deleted') {
+    throw new Error(`Account ${deletion.userPrincipalName} has already been deleted`);
+  }
+
+  clearDeletionTimers(deletion);
+  deletion.status = 'cancelled';
+  deletion.cancelledAt = now();
+  deletion.cancelledBy = cancelledBy;
+  pendingDeletions.set(deletion.id, deletion);
+
+  createAuditLog(
+    deletion.sessionId,
+    cancelledBy,
+    cancelledBy,
+    'cancelled',
+    'account_deletion',
+    deletion.id,
+    { userId: deletion.userId, userPrincipalName: deletion.userPrincipalName, reason },
+    COMPLIANCE_FLAGS
+  );
+
+  return deletion;
+}
+
+/**
+ * Get pending deletion by ID
+ */
+export function getPendingDeletion(deletionId: string): PendingDeletion | undefined {
+  return pendingDeletions.get(deletionId);
+}
+
+/**
+ * List pending deletions, soonest first
+ */
+export function listPendingDeletions(filters?: {
+  status?: PendingDeletion['status'];
+  userId?: string;
+  sessionId?: string;
+}): PendingDeletion[] {
+  let results = pendingDeletions.values();
+
+  if (filters?.status) {
+    results = results.filter(d => d.status === filters.status);
+  }
+  if (filters?.userId) {
+    results = results.filter(d => d.userId === filters.userId);
+  }
+  if (filters?.sessionId) {
+    results = results.filter(d => d.sessionId === filters.sessionId);
+  }
+
+  return results.sort((a, b) => a.deleteAt.getTime() - b.deleteAt.getTime());
+}
+
+/**
+ * Place a legal hold on an account. Deletions of held accounts are blocked when due.
+ */
+export function placeLegalHold(
+  userId: string,
+  caseReference: string,
+  reason: string,
+  placedBy: string
+): LegalHold {
+  if (!userId || !caseReference) {
+    throw new Error('userId and caseReference are required');
+  }
+
+  const hold: LegalHold = {
+    id: uuidv4(),
+    userId,
+    caseReference,
+    reason,
+    placedBy,
+    placedAt: now(),
+    status: 'active'
+  };
+  legalHolds.set(hold.id, hold);
+
+  const affected = listPendingDeletions({ userId }).filter(d => d.status === 'scheduled' || d.status === 'blocked');
+  createAuditLog(
+    affected[0]?.sessionId ?? 'legal-hold',
+    placedBy,
+    placedBy,
+    'placed',
+    'legal_hold',
+    hold.id,
+    { userId, caseReference, reason, blockedDeletions: affected.map(d => d.id) },
+    COMPLIANCE_FLAGS
+  );
+
+  return hold;
+}
+
+/**
+ * Release a legal hold. Deletions it blocked are rescheduled once no other hold
+ * applies, with a grace period so the recipients are reminded first.
+ */
+export function releaseLegalHold(holdId: string, releasedBy: string): LegalHold {
+  const hold = legalHolds.get(holdId);
+  if (!hold) {
+    throw new Error(`Legal hold not found: ${holdId}`);
+  }
+  if (hold.status === 'released') return hold;
+
+  hold.status = 'released';
+  hold.releasedBy = releasedBy;
+  hold.releasedAt = now();
+  legalHolds.set(hold.id, hold);
+
+  const rescheduled: PendingDeletion[] = [];
+  if (getActiveLegalHolds(hold.userId).length === 0) {
+    for (const deletion of listPendingDeletions({ userId: hold.userId, status: 'blocked' })) {
+      const deleteAt = new Date(Math.max(deletion.deleteAt.getTime(), now().getTime() + RELEASE_GRACE_DAYS * DAY_MS));
+      deletion.status = 'scheduled';
+      delete deletion.blockedBy;
+      scheduleDeletionTimers(deletion, deleteAt);
+      pendingDeletions.set(deletion.id, deletion);
+      rescheduled.push(deletion);
+    }
+  }
+
+  createAuditLog(
+    rescheduled[0]?.sessionId ?? 'legal-hold',
+    releasedBy,
+    releasedBy,
+    'released',
+    'legal_hold',
+    hold.id,
+    {
+      userId: hold.userId,
+      caseReference: hold.caseReference,
+      rescheduledDeletions: rescheduled.map(d => ({ id: d.id, deleteAt: d.deleteAt }))
+    },
+    COMPLIANCE_FLAGS
+  );
+
+  return hold;
+}
+
+/**
+ * List legal holds
+ */
+export function listLegalHolds(filters?: {
+  userId?: string;
+  status?: LegalHold['status'];
+}): LegalHold[] {
+  let results = legalHolds.values();
+
+  if (filters?.userId) {
+    results = results.filter(h => h.userId === filters.userId);
+  }
+  if (filters?.status) {
+    results = results.filter(h => h.status === filters.status);
+  }
+
+  return results.sort((a, b) => a.placedAt.getTime() - b.placedAt.getTime());
+}
+
+/**
+ * Active legal holds on an account
+ */
+export function getActiveLegalHolds(userId: string): LegalHold[] {
+  return listLegalHolds({ userId, status: 'active' });
+}
+
+/**
+ * Shortest retention period a deletion can be scheduled with (RETENTION_MIN_DELETE_AFTER_DAYS, default 30)
+ */
+function getMinDeleteAfterDays(): number {
+  const configured = Number(process.env.RETENTION_MIN_DELETE_AFTER_DAYS);
+  return process.env.RETENTION_MIN_DELETE_AFTER_DAYS && configured >= 0 ? configured : DEFAULT_MIN_DELETE_AFTER_DAYS;
+}
+
+/**
+ * Schedule the deletion timer and a reminder for each reminder day still ahead
+ */
+function scheduleDeletionTimers(deletion: PendingDeletion, deleteAt: Date): void {
+  deletion.deleteAt = deleteAt;
+  deletion.timerIds = [scheduleTimer(DELETION_TIMER, deleteAt, { deletionId: deletion.id }).id];
+
+  for (const daysBefore of deletion.reminderDaysBefore) {
+    const remindAt = new Date(deleteAt.getTime() - daysBefore * DAY_MS);
+    if (remindAt > now()) {
+      deletion.timerIds.push(scheduleTimer(REMINDER_TIMER, remindAt, { deletionId: deletion.id, daysBefore }).id);
+    }
+  }
+}
+
+function clearDeletionTimers(deletion: PendingDeletion): void {
+  deletion.timerIds.forEach(timerId => cancelTimer(timerId));
+  deletion.timerIds = [];
+}
+
+async function notifyRecipients(
+  deletion: PendingDeletion,
+  subject: string,
+  message: string,
+  priority: 'normal' | 'high' = 'normal'
+): Promise<void> {
+  try {
+    await sendNotification('email', deletion.notifyRecipients, message, {
+      subject,
+      priority,
+      metadata: { deletionId: deletion.id, sessionId: deletion.sessionId }
+    });
+  } catch (error) {
+    console.error(`[RETENTION] Failed to notify about deletion ${deletion.id}:`, error);
+  }
+}
+
+/**
+ * Delete the account through Graph, or simulate it when the real API is not enabled
+ */
+async function runDeletion(deletion: PendingDeletion): Promise<void> {
+  const holds = getActiveLegalHolds(deletion.userId);
+  if (holds.length > 0) {
+    clearDeletionTimers(deletion);
+    deletion.status = 'blocked';
+    deletion.blockedBy = holds.map(h => h.id);
+    pendingDeletions.set(deletion.id, deletion);
+
+    createAuditLog(
+      deletion.sessionId,
+      'system',
+      'Retention Scheduler',
+      'blocked',
+      'account_deletion',
+      deletion.id,
+      { userId: deletion.userId, userPrincipalName: deletion.userPrincipalName, legalHolds: holds.map(h => h.caseReference) },
+      COMPLIANCE_FLAGS
+    );
+    await notifyRecipients(
+      deletion,
+      `Account deletion blocked: ${deletion.displayName}`,
+      `${deletion.userPrincipalName} was due for deletion but is under legal hold (${holds.map(h => h.caseReference).join(', ')}). ` +
+        'The deletion will be rescheduled when the hold is released.'
+    );
+    return;
+  }
+
+  const simulated = process.env.USE_REAL_GRAPH_API !== 'true';
+  deletion.attempts += 1;
+
+  try {
+    if (!simulated) {
+      await deleteUser(deletion.userId);
+    }
+  } catch (error) {
+    deletion.error = error instanceof Error ? error.message : 'Unknown error';
+    const retrying = deletion.attempts < MAX_DELETE_ATTEMPTS;
+    deletion.timerIds = retrying
+      ? [scheduleTimer(DELETION_TIMER, new Date(now().getTime() + RETRY_DELAY_MS), { deletionId: deletion.id }).id]
+      : [];
+    deletion.status = retrying ? 'scheduled' : 'failed';
+    pendingDeletions.set(deletion.id, deletion);
+
+    createAuditLog(
+      deletion.sessionId,
+      'system',
+      'Retention Scheduler',
+      'failed',
+      'account_deletion',
+      deletion.id,
+      { userId: deletion.userId, userPrincipalName: deletion.userPrincipalName, attempt: deletion.attempts, error: deletion.error, retrying },
+      COMPLIANCE_FLAGS
+    );
+    if (!retrying) {
+      await notifyRecipients(
+        deletion,
+        `Account deletion failed: ${deletion.displayName}`,
+        `Deleting ${deletion.userPrincipalName} failed after ${deletion.attempts} attempts: ${deletion.error}. Delete the account manually.`,
+        'high'
+      );
+    }
+    return;
+  }
+
+  deletion.status = 'deleted';
+  deletion.deletedAt = now();
+  deletion.timerIds = [];
+  delete deletion.error;
+  pendingDeletions.set(deletion.id, deletion);
+
+  createAuditLog(
+    deletion.sessionId,
+    'system',
+    'Retention Scheduler',
+    'deleted',
+    'account_deletion',
+    deletion.id,
+    { userId: deletion.userId, userPrincipalName: deletion.userPrincipalName, attempt: deletion.attempts, simulated },
+    COMPLIANCE_FLAGS
+  );
+}
+
+// Delete accounts when their retention period ends
+registerTimerHandler(DELETION_TIMER, async timer => {
+  const deletion = pendingDeletions.get(timer.payload.deletionId);
+  if (!deletion || deletion.status !== 'scheduled') return;
+
+  deletion.timerIds = deletion.timerIds.filter(id => id !== timer.id);
+  await runDeletion(deletion);
+});
+
+// Remind recipients ahead of the deadline
+registerTimerHandler(REMINDER_TIMER, async timer => {
+  const deletion = pendingDeletions.get(timer.payload.deletionId);
+  if (!deletion || deletion.status !== 'scheduled') return;
+
+  deletion.timerIds = deletion.timerIds.filter(id => id !== timer.id);
+  pendingDeletions.set(deletion.id, deletion);
+
+  const holds = getActiveLegalHolds(deletion.userId);
+  const days = timer.payload.daysBefore;
+  await notifyRecipients(
+    deletion,
+    `Account deletion in ${days} day${days === 1 ? '' : 's'}: ${deletion.displayName}`,
+    `${deletion.userPrincipalName} will be deleted on ${deletion.deleteAt.toISOString().slice(0, 10)}. ` +
+      (holds.length > 0
+        ? `It is under legal hold (${holds.map(h => h.caseReference).join(', ')}), so the deletion will be blocked unless the hold is released.`
+        : 'Place a legal hold before then if the account must be preserved.')
+  );
+});
@@ -0,0 +1,294 @@
+/**
+ * Offboarding Session Service
+ *
+ * Server-side store for offboarding sessions, shared by the bot's agent tools
+ * and the Tab app (through the /api/sessions routes in src/index.ts).
+ * Features:
+ * - Sessions created from chat get the default checklist; the Tab stores its own task list
+ * - Sessions use the Tab's types; clients can only set the fields the Tab records
+ * - Creation and status changes written to the compliance audit log
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { OffboardingSession as TabOffboardingSession, OffboardingTask } from '../Tab/types/offboarding';
+import { SESSION_DATE_FIELDS } from '../Tab/types/offboarding';
+import { createRepository } from './repository';
+import { createAuditLog } from './complianceService';
+
+export type { OffboardingTask };
+
+// Stored sessions always record who created them and where
+export type OffboardingSession = TabOffboardingSession & Required<Pick<TabOffboardingSession, 'createdBy' | 'source'>>;
+export type SessionStatus = OffboardingSession['status'];
+
+export interface CreateSessionRequest {
+  userId: string;
+  userDisplayName?: string;
+  userPrincipalName?: string;
+  createdBy: string;
+  source?: OffboardingSession['source'];
+  reason?: string;
+  lastWorkingDay?: string;
+  notes?: string;
+  config?: OffboardingSession['config'];
+  tasks?: OffboardingTask[]; // Defaults to the standard checklist
+  backupLocations?: OffboardingSession['backupLocations'];
+  blockingIssues?: OffboardingSession['blockingIssues'];
+  ownershipAnalysis?: OffboardingSession['ownershipAnalysis'];
+}
+
+export type SessionUpdate = Partial<Pick<OffboardingSession, typeof UPDATABLE_FIELDS[number]>>;
+
+export interface SessionProgress {
+  totalTasks: number;
+  completedTasks: number;
+  failedTasks: number;
+  currentTask?: string;
+  progressPercentage: number;
+}
+
+const SESSION_STATUSES: SessionStatus[] = ['created', 'in-progress', 'completed', 'failed', 'rolled-back'];
+// Fields clients may change; the store sets identity, ownership and timestamps itself
+const UPDATABLE_FIELDS = [
+  'userDisplayName', 'userPrincipalName', 'status', 'tasks', 'startedAt', 'completedAt', 'reason', 'lastWorkingDay',
+  'notes', 'config', 'backupLocations', 'rollback', 'blockingIssues', 'ownershipAnalysis',
+  'ownershipOverride'
+] as const;
+const COMPLIANCE_FLAGS = ['SOX'];
+const DATE_FIELDS = new Set(SESSION_DATE_FIELDS);
+
+// Task IDs match the Tab's, so a session started from chat can be run from the Tab
+const DEFAULT_CHECKLIST: Omit<OffboardingTask, 'status'>[] = [
+  {
+    id: 'disable-account',
+    name: 'Disable User Account',
+    description: 'Immediately disable the user account to prevent new sign-ins',
+    category: 'access',
+    priority: 'high'
+  },
+  {
+    id: 'revoke-sessions',
+    name: 'Revoke All Active Sessions',
+    description: 'Sign the user out of all devices and applications',
+    category: 'access',
+    priority: 'high'
+  },
+  {
+    id: 'remove-from-groups',
+    name: 'Remove from Security Groups',
+    description: 'Remove the user from security and distribution groups',
+    category: 'groups',
+    priority: 'high'
+  },
+  {
+    id: 'remove-from-teams',
+    name: 'Remove from Microsoft Teams',
+    description: 'Remove the user from teams and channels, handing over teams they solely own',
+    category: 'groups',
+    priority: 'medium'
+  },
+  {
+    id: 'remove-licenses',
+    name: 'Remove License Assignments',
+    description: 'Reclaim Microsoft 365 licenses assigned to the user',
+    category: 'licenses',
+    priority: 'medium'
+  },
+  {
+    id: 'backup-onedrive',
+    name: 'Inventory OneDrive Data',
+    description: 'Record what is in the user\'s OneDrive before it is handed off',
+    category: 'data',
+    priority: 'medium'
+  },
+  {
+    id: 'convert-mailbox',
+    name: 'Convert to Shared Mailbox',
+    description: 'Convert the user mailbox to a shared mailbox to retain access',
+    category: 'mailbox',
+    priority: 'low'
+  },
+  {
+    id: 'notify-manager',
+    name: 'Notify Manager',
+    description: 'Inform the user\'s manager that offboarding has started',
+    category: 'cleanup',
+    priority: 'low'
+  },
+  {
+    id: 'schedule-deletion',
+    name: 'Schedule Account Deletion',
+    description: 'Schedule permanent deletion once the retention period has passed',
+    category: 'cleanup',
+    priority: 'low'
+  }
+];
+
+// Persistent storage
+const sessions = createRepository<OffboardingSession>('offboarding-sessions');
+
+/**
+ * Create an offboarding session
+ */
+export function createSession(request: CreateSessionRequest): OffboardingSession {
+  if (!request.userId) {
+    throw new Error('userId is required');
+  }
+  if (!request.createdBy) {
+    throw new Error('createdBy is required');
+  }
+  if (request.tasks !== undefined && !Array.isArray(request.tasks)) {
+    throw new Error('tasks must be an array');
+  }
+
+  // Only the fields the Tab records are taken from the request
+  const createdAt = new Date();
+  const session = revive<OffboardingSession>({
+    id: uuidv4(),
+    userId: request.userId,
+    userDisplayName: request.userDisplayName || request.userId,
+    userPrincipalName: request.userPrincipalName || '',
+    status: 'created',
+    tasks: request.tasks?.length
+      ? request.tasks.map(validateTask)
+      : DEFAULT_CHECKLIST.map((task): OffboardingTask => ({ ...task, status: 'pending' })),
+    createdAt,
+    createdBy: request.createdBy,
+    source: request.source || 'tab',
+    lastUpdated: createdAt,
+    reason: request.reason,
+    lastWorkingDay: request.lastWorkingDay,
+    notes: request.notes,
+    config: request.config,
+    backupLocations: request.backupLocations,
+    blockingIssues: request.blockingIssues,
+    ownershipAnalysis: request.ownershipAnalysis
+  });
+  sessions.set(session.id, session);
+
+  createAuditLog(
+    session.id,
+    session.createdBy,
+    session.createdBy,
+    'created',
+    'offboarding_session',
+    session.id,
+    {
+      userId: session.userId,
+      userPrincipalName: session.userPrincipalName,
+      source: session.source,
+      reason: session.reason,
+      lastWorkingDay: session.lastWorkingDay,
+      taskCount: session.tasks.length
+    },
+    COMPLIANCE_FLAGS
+  );
+
+  return session;
+}
+
+/**
+ * Get an offboarding session by ID
+ */
+export function getSession(sessionId: string): OffboardingSession | undefined {
+  return sessions.get(sessionId);
+}
+
+/**
+ * List offboarding sessions, newest first
+ */
+export function listSessions(filters?: {
+  status?: SessionStatus;
+  userId?: string;
+  source?: OffboardingSession['source'];
+}): OffboardingSession[] {
+  let results = sessions.values();
+
+  if (filters?.status) {
+    results = results.filter(s => s.status === filters.status);
+  }
+  if (filters?.userId) {
+    results = results.filter(s => s.userId === filters.userId);
+  }
+  if (filters?.source) {
+    results = results.filter(s => s.source === filters.source);
+  }
+
+  return results.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Update an offboarding session. Who the session is for, and who created it, cannot change.
+ */
+export function updateSession(sessionId: string, updates: SessionUpdate, updatedBy: string): OffboardingSession {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    throw new Error(`Offboarding session not found: ${sessionId}`);
+  }
+  if (updates.status !== undefined && !SESSION_STATUSES.includes(updates.status)) {
+    throw new Error(`Invalid session status: ${updates.status}`);
+  }
+  if (updates.tasks !== undefined && !Array.isArray(updates.tasks)) {
+    throw new Error('tasks must be an array');
+  }
+
+  const changes = revive(Object.fromEntries(
+    UPDATABLE_FIELDS.filter(field => updates[field] !== undefined).map(field => [field, updates[field]])
+  ) as SessionUpdate);
+  const updated: OffboardingSession = {
+    ...session,
+    ...changes,
+    tasks: changes.tasks ? changes.tasks.map(validateTask) : session.tasks,
+    lastUpdated: new Date()
+  };
+  sessions.set(sessionId, updated);
+
+  if (updated.status !== session.status) {
+    createAuditLog(
+      sessionId,
+      updatedBy,
+      updatedBy,
+      'status_changed',
+      'offboarding_session',
+      sessionId,
+      {
+        from: session.status,
+        to: updated.status,
+        failedTasks: updated.tasks.filter(t => t.status === 'failed').map(t => t.id)
+      },
+      COMPLIANCE_FLAGS
+    );
+  }
+
+  return updated;
+}
+
+/**
+ * Summarize task progress for a session
+ */
+export function getSessionProgress(session: OffboardingSession): SessionProgress {
+  const totalTasks = session.tasks.length;
+  const completedTasks = session.tasks.filter(t => t.status === 'completed').length;
+
+  return {
+    totalTasks,
+    completedTasks,
+    failedTasks: session.tasks.filter(t => t.status === 'failed').length,
+    currentTask: session.tasks.find(t => t.status === 'in-progress')?.name,
+    progressPercentage: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0
+  };
+}
+
+function validateTask(task: OffboardingTask): OffboardingTask {
+  if (!task?.id || !task.name) {
+    throw new Error('Every task needs an id and a name');
+  }
+  return task;
+}
+
+// Sessions posted over HTTP carry ISO strings rather than dates; only the session's date fields are revived
+function revive<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value), (key, field) =>
+    DATE_FIELDS.has(key) && typeof field === 'string' ? new Date(field) : field
+  );
+}
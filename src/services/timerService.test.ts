@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { listTimers, processDueTimers, registerTimerHandler, scheduleTimer, useSystemClock, useTestClock } from './timerService';
+import { createWorkflow, executeWorkflow, getWorkflowExecution, publishWorkflow, updateWorkflowStep } from './workflowService';
+
+afterEach(() => {
+  useSystemClock();
+});
+
+describe('TestClock', () => {
+  it('runs a 30-day delayed workflow, with relative-date conditions on the same clock', async () => {
+    const clock = useTestClock(new Date('2030-01-01T00:00:00.000Z'));
+
+    const workflow = createWorkflow('Retention check', 'Purge data once retention has ended', 'test', { basedOnTemplate: 'template-retirement' });
+    updateWorkflowStep(workflow.id, 'step-1', { type: 'delay', name: 'Wait 30 days', config: { delayDays: 30 } });
+    updateWorkflowStep(workflow.id, 'step-2', {
+      type: 'condition',
+      name: 'Retention ended?',
+      config: { condition: { field: 'retentionEndsAt', operator: 'before', value: 'now', trueStep: 'step-7', falseStep: 'step-3' } },
+      connections: ['step-3', 'step-7']
+    });
+    publishWorkflow(workflow.id, 'test');
+
+    const execution = await executeWorkflow(workflow.id, 'session-test-clock', { retentionEndsAt: '2030-01-21T00:00:00.000Z' });
+    expect(execution.stepRuns['step-1'].status).toBe('waiting');
+
+    await clock.advance({ days: 29 });
+    expect(getWorkflowExecution(execution.id)!.stepRuns['step-1'].status).toBe('waiting');
+
+    await clock.advance({ days: 1 });
+    const resumed = getWorkflowExecution(execution.id)!;
+    expect(resumed.stepRuns['step-1'].status).toBe('completed');
+    expect(resumed.stepRuns['step-2'].output).toEqual({ result: true, nextStepId: 'step-7' });
+    expect(resumed.skippedSteps).toEqual(['step-3', 'step-4', 'step-5', 'step-6']);
+    expect(resumed.status).toBe('completed');
+  });
+});
+
+describe('processDueTimers', () => {
+  it('fires each due timer once when callers overlap', async () => {
+    useTestClock(new Date('2030-06-01T00:00:00.000Z'));
+    const dueAt = new Date('2030-05-31T00:00:00.000Z');
+    const fired: string[] = [];
+    registerTimerHandler('test-overlap', async timer => {
+      fired.push(timer.id);
+      await new Promise(resolve => setTimeout(resolve, 5));
+    });
+
+    // Two callers queue up behind a run that is still firing, while more timers fall due
+    const scheduled = [scheduleTimer('test-overlap', dueAt)];
+    const running = processDueTimers();
+    scheduled.push(...[1, 2, 3].map(() => scheduleTimer('test-overlap', dueAt)));
+    const counts = await Promise.all([running, processDueTimers(), processDueTimers()]);
+
+    expect(fired.sort()).toEqual(scheduled.map(t => t.id).sort());
+    expect(counts.reduce((sum, count) => sum + count, 0)).toBe(4);
+    expect(listTimers({ kind: 'test-overlap', status: 'fired' })).toHaveLength(4);
+  });
+});
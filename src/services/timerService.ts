@@ -0,0 +1,267 @@
+/**
+ * Timer Service
+ *
+ * Durable timers for anything that has to happen later (workflow delay
+ * steps, reminders). Due times are stored in the repository, so timers
+ * scheduled before a restart still fire afterwards.
+ * Features:
+ * - Handlers registered per timer kind
+ * - Background scheduler that fires due timers
+ * - Swappable clock, including a fast-forward test clock
+ *
+ * Example (unit test):
+ *   const clock = useTestClock(new Date('2026-01-01'));
+ *   const execution = await executeWorkflow('template-resignation', 'session-1', {});
+ *   ...complete task steps...
+ *   await clock.advance({ days: 30 }); // fires every delay due in the next 30 days
+ *   useSystemClock();
+ */
+
+import { createRepository } from './repository';
+
+export interface Timer {
+  id: string;
+  kind: string; // Handler key, e.g. 'workflow-delay'
+  dueAt: Date;
+  payload: Record<string, any>;
+  status: 'scheduled' | 'fired' | 'cancelled' | 'failed';
+  createdAt: Date;
+  firedAt?: Date;
+  error?: string;
+}
+
+export type TimerHandler = (timer: Timer) => void | Promise<void>;
+
+export interface Clock {
+  now(): Date;
+}
+
+// Persistent storage
+const timers = createRepository<Timer>('timers');
+const handlers = new Map<string, TimerHandler>();
+
+const systemClock: Clock = { now: () => new Date() };
+let clock: Clock = systemClock;
+let schedulerHandle: NodeJS.Timeout | null = null;
+let processing: Promise<number> = Promise.resolve(0);
+
+/**
+ * Fast-forward clock for tests
+ *
+ * Time only moves when `advance` is called. Timers that fall due inside the
+ * advanced window fire in due-time order, with the clock set to each
+ * timer's due time, so chained delays behave as they would in real time.
+ */
+export class TestClock implements Clock {
+  private current: Date;
+
+  constructor(start: Date = new Date()) {
+    this.current = new Date(start);
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  /**
+   * Move the clock forward, firing every timer that falls due on the way
+   */
+  async advance(by: { days?: number; hours?: number; minutes?: number }): Promise<number> {
+    const ms =
+      (by.days ?? 0) * 24 * 60 * 60 * 1000 +
+      (by.hours ?? 0) * 60 * 60 * 1000 +
+      (by.minutes ?? 0) * 60 * 1000;
+    return this.advanceTo(new Date(this.current.getTime() + ms));
+  }
+
+  /**
+   * Move the clock to a point in time, firing due timers on the way
+   */
+  async advanceTo(target: Date): Promise<number> {
+    let fired = 0;
+
+    for (;;) {
+      const next = getScheduledTimers()
+        .filter(t => t.dueAt <= target)
+        .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())[0];
+      if (!next) break;
+
+      if (next.dueAt > this.current) {
+        this.current = new Date(next.dueAt);
+      }
+      fired += await processDueTimers();
+    }
+
+    this.current = new Date(target);
+    return fired;
+  }
+}
+
+/**
+ * Current time according to the active clock
+ */
+export function now(): Date {
+  return clock.now();
+}
+
+/**
+ * Replace the system clock with a fast-forward test clock
+ */
+export function useTestClock(start?: Date): TestClock {
+  const testClock = new TestClock(start);
+  clock = testClock;
+  return testClock;
+}
+
+/**
+ * Restore the system clock
+ */
+export function useSystemClock(): void {
+  clock = systemClock;
+}
+
+/**
+ * Register the handler that runs when timers of a kind fire
+ */
+export function registerTimerHandler(kind: string, handler: TimerHandler): void {
+  handlers.set(kind, handler);
+}
+
+/**
+ * Schedule a durable timer
+ */
+export function scheduleTimer(
+  kind: string,
+  dueAt: Date,
+  payload: Record<string, any> = {}
+): Timer {
+  const timer: Timer = {
+    id: `timer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    kind,
+    dueAt,
+    payload,
+    status: 'scheduled',
+    createdAt: now()
+  };
+
+  timers.set(timer.id, timer);
+  return timer;
+}
+
+/**
+ * Cancel a scheduled timer
+ */
+export function cancelTimer(timerId: string): Timer {
+  const timer = timers.get(timerId);
+  if (!timer) {
+    throw new Error(`Timer not found: ${timerId}`);
+  }
+
+  if (timer.status === 'scheduled') {
+    timer.status = 'cancelled';
+    timers.set(timer.id, timer);
+  }
+
+  return timer;
+}
+
+/**
+ * Get timer by ID
+ */
+export function getTimer(timerId: string): Timer | undefined {
+  return timers.get(timerId);
+}
+
+/**
+ * List timers
+ */
+export function listTimers(filters?: {
+  kind?: string;
+  status?: Timer['status'];
+}): Timer[] {
+  let results = timers.values();
+
+  if (filters?.kind) {
+    results = results.filter(t => t.kind === filters.kind);
+  }
+  if (filters?.status) {
+    results = results.filter(t => t.status === filters.status);
+  }
+
+  return results.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+/**
+ * Fire every scheduled timer that is due according to the active clock
+ */
+export function processDueTimers(): Promise<number> {
+  // Runs one at a time in call order, so the scheduler and a caller never overlap.
+  // Handlers must not wait on processDueTimers themselves.
+  const run = processing.catch(() => 0).then(fireDueTimers);
+  processing = run;
+  return run;
+}
+
+/**
+ * Start the background scheduler (also fires timers that fell due while stopped)
+ */
+export function startTimerScheduler(intervalMs: number = 60 * 1000): void {
+  if (schedulerHandle) return;
+
+  const tick = () => {
+    processDueTimers().catch(error => console.error('[TIMER] Failed to process due timers:', error));
+  };
+
+  schedulerHandle = setInterval(tick, intervalMs);
+  schedulerHandle.unref();
+  tick();
+}
+
+/**
+ * Stop the background scheduler
+ */
+export function stopTimerScheduler(): void {
+  if (schedulerHandle) {
+    clearInterval(schedulerHandle);
+    schedulerHandle = null;
+  }
+}
+
+async function fireDueTimers(): Promise<number> {
+  const currentTime = now();
+  const due = getScheduledTimers()
+    .filter(t => t.dueAt <= currentTime)
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  let fired = 0;
+
+  for (const { id } of due) {
+    // A handler earlier in the list may have cancelled or fired this one
+    const timer = timers.get(id);
+    if (!timer || timer.status !== 'scheduled') continue;
+
+    const handler = handlers.get(timer.kind);
+    fired++;
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for timer kind: ${timer.kind}`);
+      }
+      // Claim the timer before its handler runs, so nothing else can fire it again
+      timer.status = 'fired';
+      timer.firedAt = currentTime;
+      timers.set(timer.id, timer);
+      await handler(timer);
+    } catch (error) {
+      timer.status = 'failed';
+      timer.error = error instanceof Error ? error.message : 'Unknown error';
+      timers.set(timer.id, timer);
+      console.error(`[TIMER] Timer ${timer.id} (${timer.kind}) failed:`, error);
+    }
+  }
+
+  return fired;
+}
+
+function getScheduledTimers(): Timer[] {
+  return timers.values().filter(t => t.status === 'scheduled');
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { exportWorkflow, importWorkflow, validateWorkflowDocument } from './workflowDocumentService';
+import { WorkflowStep, createWorkflow, getWorkflow, publishWorkflow, updateWorkflowDraft } from './workflowService';
+
+const steps: WorkflowStep[] = [
+  {
+    id: 'check',
+    type: 'condition',
+    name: 'Remote employee?',
+    config: { condition: { field: 'employee.location', operator: 'equals', value: 'remote', trueStep: 'ship', falseStep: 'collect' } },
+    position: { x: 0, y: 0 },
+    connections: ['ship', 'collect']
+  },
+  { id: 'ship', type: 'task', name: 'Ship return box', config: { taskType: 'collect_asset', dueInDays: 3 }, position: { x: -100, y: 120 }, connections: [] },
+  { id: 'collect', type: 'task', name: 'Collect laptop', config: { taskType: 'collect_asset' }, position: { x: 100, y: 120 }, connections: [] }
+];
+
+/** Create a published workflow with the shared steps */
+function createSource(id: string) {
+  createWorkflow(`Document ${id}`, 'Round-trip test', 'test', { id, department: 'Engineering' });
+  updateWorkflowDraft(id, { startStepId: 'check', steps });
+  return publishWorkflow(id, 'test');
+}
+
+describe('exportWorkflow and importWorkflow', () => {
+  it.each(['json', 'yaml'] as const)('round-trips a workflow through %s', format => {
+    createSource(`wf-test-doc-${format}`);
+    const content = exportWorkflow(`wf-test-doc-${format}`, format);
+
+    const result = importWorkflow(content, 'admin@contoso.com', { onConflict: 'copy' });
+    expect(result).toMatchObject({ success: true, isValid: true, errors: [], warnings: [] });
+    expect(result.workflow!.id).not.toBe(`wf-test-doc-${format}`);
+    expect(result.workflow).toMatchObject({ status: 'draft', department: 'Engineering', startStepId: 'check', steps });
+    expect(exportWorkflow(result.workflow!.id, format)).toContain(format === 'yaml' ? 'name: Remote employee?' : '"name": "Remote employee?"');
+  });
+
+  it('rejects an existing workflow ID unless a conflict mode is given', () => {
+    createSource('wf-test-doc-conflict');
+    const content = exportWorkflow('wf-test-doc-conflict', 'yaml');
+
+    const rejected = importWorkflow(content, 'admin@contoso.com');
+    expect(rejected.success).toBe(false);
+    expect(rejected.errors).toEqual([
+      'line 5, column 7: workflow.id: workflow ID "wf-test-doc-conflict" already exists ("Document wf-test-doc-conflict"); import with onConflict "copy" or "new-version"'
+    ]);
+
+    const updated = importWorkflow(content.replace('Collect laptop', 'Collect laptop and badge'), 'admin@contoso.com', { onConflict: 'new-version' });
+    expect(updated.workflow).toMatchObject({ id: 'wf-test-doc-conflict', version: 2, status: 'draft' });
+    expect(getWorkflow('wf-test-doc-conflict')!.steps[2].name).toBe('Collect laptop and badge');
+  });
+
+  it('regenerates step IDs and rewrites every reference to them', () => {
+    createSource('wf-test-doc-ids');
+    const result = importWorkflow(exportWorkflow('wf-test-doc-ids'), 'admin@contoso.com', { onConflict: 'copy', regenerateStepIds: true });
+
+    const { idMap, workflow } = result;
+    expect(idMap.check).not.toBe('check');
+    expect(idMap['wf-test-doc-ids']).toBe(workflow!.id);
+    expect(workflow!.startStepId).toBe(idMap.check);
+    expect(workflow!.steps[0].connections).toEqual([idMap.ship, idMap.collect]);
+    expect(workflow!.steps[0].config.condition).toMatchObject({ trueStep: idMap.ship, falseStep: idMap.collect });
+  });
+});
+
+describe('validateWorkflowDocument', () => {
+  it('reports schema errors with their line and column', () => {
+    const result = validateWorkflowDocument([
+      'schemaVersion: 1',
+      'kind: offboarding-workflow',
+      'workflow:',
+      '  id: broken',
+      '  name: Broken',
+      '  startStepId: a',
+      '  owner: it',
+      '  steps:',
+      '    - id: a',
+      '      type: email',
+      '      name: Notify',
+      '      config: { delayDays: -1 }',
+      '    - id: a',
+      '      type: task',
+      '      name: Duplicate'
+    ].join('\n'));
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      'line 10, column 13: workflow.steps[0].type: must be one of: task, approval, notification, integration, condition, delay',
+      'line 12, column 28: workflow.steps[0].config.delayDays: must be a non-negative number',
+      'line 13, column 11: workflow.steps[1].id: duplicate step ID "a" (also used by workflow.steps[0])'
+    ]);
+    expect(result.warnings).toEqual(['line 7, column 10: workflow.owner: unknown field is ignored']);
+  });
+
+  it('reports JSON syntax and graph problems against the document', () => {
+    expect(validateWorkflowDocument('{\n  "schemaVersion": 1,\n}').errors[0]).toMatch(/^line 3, column 1: invalid JSON/);
+
+    const document = JSON.parse(exportWorkflow(createSource('wf-test-doc-graph').id));
+    document.workflow.steps[1].connections = ['missing'];
+    expect(validateWorkflowDocument(JSON.stringify(document, null, 2)).errors).toEqual([
+      expect.stringMatching(/^line \d+, column \d+: workflow\.steps\[1\]: Step "Ship return box" \(ship\) connects to non-existent step missing$/),
+      expect.stringMatching(/^line \d+, column \d+: workflow\.steps\[1\]: Step "Ship return box" \(ship\) has no path to a final step/)
+    ]);
+  });
+});
@@ -0,0 +1,624 @@
+/**
+ * Workflow Document Service
+ *
+ * Exports workflows to versioned JSON / YAML documents and imports them back,
+ * so workflows can be kept in git next to m365agents.yml.
+ * Features:
+ * - JSON and YAML documents with the same schema
+ * - Schema validation with line and column references
+ * - Workflow and step ID remapping
+ * - Conflict detection against existing workflows and templates
+ *
+ * Example document (YAML):
+ *   schemaVersion: 1
+ *   kind: offboarding-workflow
+ *   workflow:
+ *     id: engineering-resignation
+ *     name: Engineering Resignation
+ *     startStepId: notify-manager
+ *     steps:
+ *       - id: notify-manager
+ *         type: notification
+ *         name: Notify Manager
+ *         connections: [revoke-access]
+ *         config: { notificationType: teams, recipients: ['{{managerEmail}}'] }
+ *       - id: revoke-access
+ *         type: task
+ *         name: Revoke Access
+ *         config: { taskType: revoke_access, assignedTo: it-admin }
+ */
+
+import { Document, LineCounter, parseDocument, stringify } from 'yaml';
+import { validateCondition } from './conditionEvaluator';
+import {
+  analyzeWorkflow,
+  createWorkflow,
+  getWorkflow,
+  getWorkflowVersion,
+  listWorkflows,
+  updateWorkflowDraft,
+  Workflow,
+  WorkflowStep
+} from './workflowService';
+
+export const WORKFLOW_DOCUMENT_SCHEMA_VERSION = 1;
+export const WORKFLOW_DOCUMENT_KIND = 'offboarding-workflow';
+
+export type WorkflowDocumentFormat = 'json' | 'yaml';
+
+export interface WorkflowDocument {
+  schemaVersion: number;
+  kind: typeof WORKFLOW_DOCUMENT_KIND;
+  exportedAt?: string;
+  workflow: {
+    id: string;
+    name: string;
+    description: string;
+    department?: string;
+    offboardingReason?: Workflow['offboardingReason'];
+    isTemplate?: boolean;
+    version?: number; // Informational; imports always start a new draft
+    startStepId: string;
+    steps: WorkflowStep[];
+    metadata?: Record<string, any>;
+  };
+}
+
+export interface WorkflowDocumentIssue {
+  severity: 'error' | 'warning';
+  path: string; // e.g. "workflow.steps[2].type"
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface WorkflowDocumentValidationResult {
+  isValid: boolean;
+  errors: string[]; // Formatted as "line 12, column 9: workflow.steps[2].type: ..."
+  warnings: string[];
+  issues: WorkflowDocumentIssue[];
+  document?: WorkflowDocument;
+}
+
+export interface WorkflowImportResult extends WorkflowDocumentValidationResult {
+  success: boolean;
+  workflow?: Workflow;
+  idMap: Record<string, string>; // Document ID -> stored ID (workflow and steps)
+}
+
+export interface WorkflowImportOptions {
+  format?: WorkflowDocumentFormat; // Detected from the content when omitted
+  // What to do when the document's workflow ID already exists:
+  // - error: reject the import (default)
+  // - copy: import as a new workflow with a fresh ID
+  // - new-version: replace the steps of the existing workflow in a new draft
+  onConflict?: 'error' | 'copy' | 'new-version';
+  regenerateStepIds?: boolean; // Give steps fresh IDs instead of the document's IDs
+}
+
+type DocumentPath = (string | number)[];
+type Reporter = (severity: WorkflowDocumentIssue['severity'], path: DocumentPath, message: string) => void;
+
+const STEP_TYPES: WorkflowStep['type'][] = ['task', 'approval', 'notification', 'integration', 'condition', 'delay'];
+const OFFBOARDING_REASONS = ['resignation', 'termination', 'retirement', 'contract_end'];
+const WORKFLOW_KEYS = ['id', 'name', 'description', 'department', 'offboardingReason', 'isTemplate', 'version', 'startStepId', 'steps', 'metadata'];
+const STEP_KEYS = ['id', 'type', 'name', 'description', 'config', 'position', 'connections', 'loopConnections'];
+const CONFIG_ENUMS: Record<string, string[]> = {
+  taskType: ['revoke_access', 'transfer_data', 'collect_asset', 'custom'],
+  notificationType: ['email', 'teams', 'slack', 'sms'],
+  integrationType: ['workday', 'servicenow', 'bamboohr', 'slack', 'custom'],
+  method: ['GET', 'POST', 'PUT', 'DELETE']
+};
+const CONFIG_STRINGS = ['assignedTo', 'approvalTemplate', 'template', 'endpoint'];
+const CONFIG_NUMBERS = ['dueInDays', 'delayDays', 'delayHours'];
+const CONFIG_STRING_ARRAYS = ['requiredApprovers', 'recipients'];
+
+/**
+ * Export a workflow as a JSON or YAML document
+ *
+ * Exports the current draft or published head unless a published version is given.
+ */
+export function exportWorkflow(
+  workflowId: string,
+  format: WorkflowDocumentFormat = 'json',
+  version?: number
+): string {
+  const workflow = version === undefined ? getWorkflow(workflowId) : getWorkflowVersion(workflowId, version);
+  if (!workflow) {
+    throw new Error(version === undefined
+      ? `Workflow not found: ${workflowId}`
+      : `Workflow ${workflowId} has no published version ${version}`);
+  }
+
+  const document: WorkflowDocument = {
+    schemaVersion: WORKFLOW_DOCUMENT_SCHEMA_VERSION,
+    kind: WORKFLOW_DOCUMENT_KIND,
+    exportedAt: new Date().toISOString(),
+    workflow: {
+      id: workflow.id,
+      name: workflow.name,
+      description: workflow.description,
+      department: workflow.department,
+      offboardingReason: workflow.offboardingReason,
+      isTemplate: workflow.isTemplate,
+      version: workflow.version,
+      startStepId: workflow.startStepId,
+      steps: workflow.steps,
+      metadata: workflow.metadata
+    }
+  };
+
+  // Drop undefined fields so documents stay tidy in git diffs
+  const plain = JSON.parse(JSON.stringify(document));
+  return format === 'yaml' ? stringify(plain) : `${JSON.stringify(plain, null, 2)}\n`;
+}
+
+/**
+ * Parse and validate a workflow document without importing it
+ */
+export function validateWorkflowDocument(
+  content: string,
+  format?: WorkflowDocumentFormat
+): WorkflowDocumentValidationResult {
+  const issues: WorkflowDocumentIssue[] = [];
+  const resolvedFormat = format || detectFormat(content);
+  const lineCounter = new LineCounter();
+
+  if (resolvedFormat === 'json') {
+    const syntaxError = checkJsonSyntax(content);
+    if (syntaxError) {
+      return toValidationResult([syntaxError]);
+    }
+  }
+
+  // YAML is a superset of JSON, so one parser gives positions for both formats
+  const yamlDocument = parseDocument(content, { lineCounter });
+  yamlDocument.errors.forEach(error => {
+    const [start] = error.linePos || [];
+    issues.push({
+      severity: 'error',
+      path: '',
+      message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+      line: start?.line,
+      column: start?.col
+    });
+  });
+  if (issues.length > 0) {
+    return toValidationResult(issues);
+  }
+
+  const raw = yamlDocument.toJS();
+  const report: Reporter = (severity, path, message) => {
+    const position = locate(yamlDocument, lineCounter, path);
+    issues.push({ severity, path: formatPath(path), message, ...position });
+  };
+
+  checkDocument(raw, report);
+
+  // Graph checks (dangling connections, cycles, ...) only make sense on a well-formed document
+  if (!issues.some(i => i.severity === 'error')) {
+    const steps: any[] = raw.workflow.steps;
+    const analysis = analyzeWorkflow(toWorkflow(raw as WorkflowDocument, 'import'));
+    analysis.diagnostics.forEach(diagnostic => {
+      const index = steps.findIndex(s => s.id === diagnostic.stepId);
+      const path: DocumentPath = index === -1 ? ['workflow', 'startStepId'] : ['workflow', 'steps', index];
+      report(diagnostic.severity, path, diagnostic.message);
+    });
+  }
+
+  const result = toValidationResult(issues);
+  if (result.isValid) {
+    result.document = normalizeDocument(raw as WorkflowDocument);
+  }
+  return result;
+}
+
+/**
+ * Import a workflow document as a draft
+ *
+ * Imported workflows always land as drafts and have to be published before
+ * they can run, so a bad document never changes running offboardings.
+ */
+export function importWorkflow(
+  content: string,
+  importedBy: string,
+  options: WorkflowImportOptions = {}
+): WorkflowImportResult {
+  const validation = validateWorkflowDocument(content, options.format);
+  const idMap: Record<string, string> = {};
+  if (!validation.isValid || !validation.document) {
+    return { ...validation, success: false, idMap };
+  }
+
+  const source = validation.document.workflow;
+  const onConflict = options.onConflict || 'error';
+  const existing = getWorkflow(source.id);
+  const conflicts = findConflicts(source);
+
+  if (conflicts.length > 0 && onConflict === 'error') {
+    const issues: WorkflowDocumentIssue[] = [
+      ...validation.issues,
+      ...conflicts.map(conflict => ({
+        severity: 'error' as const,
+        path: formatPath(conflict.path),
+        message: `${conflict.message}; import with onConflict "copy" or "new-version"`,
+        ...locateInContent(content, conflict.path)
+      }))
+    ];
+    return { ...toValidationResult(issues), success: false, idMap };
+  }
+
+  const steps = remapSteps(source.steps, options.regenerateStepIds ?? false, idMap);
+  const startStepId = idMap[source.startStepId] || source.startStepId;
+  const details = {
+    name: source.name,
+    description: source.description,
+    department: source.department,
+    offboardingReason: source.offboardingReason,
+    metadata: { ...source.metadata, importedBy, importedAt: new Date().toISOString() },
+    steps,
+    startStepId
+  };
+
+  let workflow: Workflow;
+  if (existing && onConflict === 'new-version') {
+    workflow = updateWorkflowDraft(existing.id, details);
+  } else {
+    // Keep the document's ID unless it is taken, so re-imports update the same workflow
+    workflow = createWorkflow(source.name, source.description, importedBy, {
+      id: existing ? undefined : source.id,
+      department: source.department,
+      offboardingReason: source.offboardingReason,
+      isTemplate: source.isTemplate
+    });
+    workflow = updateWorkflowDraft(workflow.id, details);
+  }
+  idMap[source.id] = workflow.id;
+
+  return { ...validation, success: true, workflow, idMap };
+}
+
+function checkDocument(
+  raw: any,
+  report: Reporter
+): void {
+  if (!isObject(raw)) {
+    report('error', [], 'document must be an object');
+    return;
+  }
+
+  if (raw.schemaVersion !== WORKFLOW_DOCUMENT_SCHEMA_VERSION) {
+    report('error', ['schemaVersion'], raw.schemaVersion === undefined
+      ? `required (current schema version is ${WORKFLOW_DOCUMENT_SCHEMA_VERSION})`
+      : `unsupported schema version ${JSON.stringify(raw.schemaVersion)} (expected ${WORKFLOW_DOCUMENT_SCHEMA_VERSION})`);
+  }
+  if (raw.kind !== WORKFLOW_DOCUMENT_KIND) {
+    report('error', ['kind'], `must be "${WORKFLOW_DOCUMENT_KIND}"`);
+  }
+
+  const workflow = raw.workflow;
+  if (!isObject(workflow)) {
+    report('error', ['workflow'], 'must be an object');
+    return;
+  }
+
+  Object.keys(workflow)
+    .filter(key => !WORKFLOW_KEYS.includes(key))
+    .forEach(key => report('warning', ['workflow', key], 'unknown field is ignored'));
+
+  requireString(workflow, ['workflow'], 'id', report);
+  requireString(workflow, ['workflow'], 'name', report);
+  optionalType(workflow, ['workflow'], 'description', 'string', report);
+  optionalType(workflow, ['workflow'], 'department', 'string', report);
+  optionalType(workflow, ['workflow'], 'isTemplate', 'boolean', report);
+  optionalType(workflow, ['workflow'], 'version', 'number', report);
+  if (workflow.metadata !== undefined && !isObject(workflow.metadata)) {
+    report('error', ['workflow', 'metadata'], 'must be an object');
+  }
+  if (workflow.offboardingReason !== undefined && !OFFBOARDING_REASONS.includes(workflow.offboardingReason)) {
+    report('error', ['workflow', 'offboardingReason'], `must be one of: ${OFFBOARDING_REASONS.join(', ')}`);
+  }
+
+  if (!Array.isArray(workflow.steps)) {
+    report('error', ['workflow', 'steps'], 'must be an array of steps');
+    return;
+  }
+
+  const seen = new Map<string, number>();
+  workflow.steps.forEach((step: any, index: number) => {
+    const path: DocumentPath = ['workflow', 'steps', index];
+    checkStep(step, path, report);
+
+    if (typeof step?.id === 'string') {
+      if (seen.has(step.id)) {
+        report('error', [...path, 'id'], `duplicate step ID "${step.id}" (also used by workflow.steps[${seen.get(step.id)}])`);
+      } else {
+        seen.set(step.id, index);
+      }
+    }
+  });
+
+  if (workflow.steps.length > 0) {
+    requireString(workflow, ['workflow'], 'startStepId', report);
+  }
+}
+
+function checkStep(
+  step: any,
+  path: DocumentPath,
+  report: Reporter
+): void {
+  if (!isObject(step)) {
+    report('error', path, 'step must be an object');
+    return;
+  }
+
+  Object.keys(step)
+    .filter(key => !STEP_KEYS.includes(key))
+    .forEach(key => report('warning', [...path, key], 'unknown field is ignored'));
+
+  requireString(step, path, 'id', report);
+  requireString(step, path, 'name', report);
+  optionalType(step, path, 'description', 'string', report);
+
+  if (!STEP_TYPES.includes(step.type)) {
+    report('error', [...path, 'type'], `must be one of: ${STEP_TYPES.join(', ')}`);
+  }
+
+  if (step.position !== undefined &&
+      (!isObject(step.position) || typeof step.position.x !== 'number' || typeof step.position.y !== 'number')) {
+    report('error', [...path, 'position'], 'must be an object with numeric x and y');
+  }
+
+  ['connections', 'loopConnections'].forEach(key => {
+    if (step[key] !== undefined && !isStringArray(step[key])) {
+      report('error', [...path, key], 'must be an array of step IDs');
+    }
+  });
+
+  if (step.config === undefined) return;
+  if (!isObject(step.config)) {
+    report('error', [...path, 'config'], 'must be an object');
+    return;
+  }
+
+  const configPath = [...path, 'config'];
+  Object.entries(step.config).forEach(([key, value]) => {
+    const keyPath = [...configPath, key];
+
+    if (CONFIG_ENUMS[key]) {
+      if (!CONFIG_ENUMS[key].includes(value as string)) {
+        report('error', keyPath, `must be one of: ${CONFIG_ENUMS[key].join(', ')}`);
+      }
+    } else if (CONFIG_STRINGS.includes(key)) {
+      if (typeof value !== 'string') report('error', keyPath, 'must be a string');
+    } else if (CONFIG_NUMBERS.includes(key)) {
+      if (typeof value !== 'number' || value < 0) report('error', keyPath, 'must be a non-negative number');
+    } else if (CONFIG_STRING_ARRAYS.includes(key)) {
+      if (!isStringArray(value)) report('error', keyPath, 'must be an array of strings');
+    } else if (key === 'optional') {
+      if (typeof value !== 'boolean') report('error', keyPath, 'must be a boolean');
+    } else if (key === 'payload') {
+      if (!isObject(value)) report('error', keyPath, 'must be an object');
+    } else if (key === 'condition') {
+      checkCondition(value, keyPath, report);
+    } else {
+      report('warning', keyPath, 'unknown config field is ignored');
+    }
+  });
+}
+
+function checkCondition(
+  condition: any,
+  path: DocumentPath,
+  report: Reporter
+): void {
+  if (!isObject(condition)) {
+    report('error', path, 'must be a condition expression with trueStep and falseStep');
+    return;
+  }
+
+  requireString(condition, path, 'trueStep', report);
+  requireString(condition, path, 'falseStep', report);
+
+  const { trueStep, falseStep, ...expression } = condition;
+  validateCondition(expression, 'condition').forEach(message => {
+    // "condition.and[0].field: ..." -> point at the offending node
+    const [location, ...rest] = message.split(': ');
+    const subPath = parsePath(location).slice(1);
+    report('error', [...path, ...subPath], rest.join(': '));
+  });
+}
+
+function requireString(
+  target: Record<string, any>,
+  path: DocumentPath,
+  key: string,
+  report: Reporter
+): void {
+  if (typeof target[key] !== 'string' || target[key].trim() === '') {
+    report('error', target[key] === undefined ? path : [...path, key],
+      target[key] === undefined ? `missing required field "${key}"` : 'must be a non-empty string');
+  }
+}
+
+function optionalType(
+  target: Record<string, any>,
+  path: DocumentPath,
+  key: string,
+  type: 'string' | 'number' | 'boolean',
+  report: Reporter
+): void {
+  if (target[key] !== undefined && typeof target[key] !== type) {
+    report('error', [...path, key], `must be a ${type}`);
+  }
+}
+
+/**
+ * Fill in optional fields so the document matches the Workflow model
+ */
+function normalizeDocument(raw: WorkflowDocument): WorkflowDocument {
+  return {
+    ...raw,
+    workflow: {
+      ...raw.workflow,
+      description: raw.workflow.description ?? '',
+      steps: raw.workflow.steps.map((step, index) => ({
+        ...step,
+        config: step.config ?? {},
+        position: step.position ?? { x: 0, y: index * 120 },
+        connections: step.connections ?? []
+      }))
+    }
+  };
+}
+
+function toWorkflow(document: WorkflowDocument, createdBy: string): Workflow {
+  const normalized = normalizeDocument(document).workflow;
+  return {
+    ...normalized,
+    isTemplate: normalized.isTemplate ?? false,
+    isActive: true,
+    version: 1,
+    status: 'draft',
+    createdBy,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+function findConflicts(source: WorkflowDocument['workflow']): { path: DocumentPath; message: string }[] {
+  const conflicts: { path: DocumentPath; message: string }[] = [];
+  const existing = getWorkflow(source.id);
+
+  if (existing) {
+    conflicts.push({
+      path: ['workflow', 'id'],
+      message: `workflow ID "${source.id}" already exists${existing.isTemplate ? ' as a template' : ''} ("${existing.name}")`
+    });
+  }
+
+  listWorkflows({ isTemplate: true })
+    .filter(t => t.id !== source.id && t.name.toLowerCase() === source.name.toLowerCase())
+    .forEach(t => conflicts.push({
+      path: ['workflow', 'name'],
+      message: `workflow name "${source.name}" is already used by template ${t.id}`
+    }));
+
+  return conflicts;
+}
+
+/**
+ * Copy steps, optionally giving them fresh IDs and rewriting every reference
+ */
+function remapSteps(
+  steps: WorkflowStep[],
+  regenerate: boolean,
+  idMap: Record<string, string>
+): WorkflowStep[] {
+  const prefix = `step-${Date.now()}`;
+  steps.forEach((step, index) => {
+    idMap[step.id] = regenerate ? `${prefix}-${index + 1}` : step.id;
+  });
+
+  const mapId = (id: string) => idMap[id] || id;
+  return steps.map(step => {
+    const copy: WorkflowStep = JSON.parse(JSON.stringify(step));
+    copy.id = mapId(step.id);
+    copy.connections = copy.connections.map(mapId);
+    if (copy.loopConnections) {
+      copy.loopConnections = copy.loopConnections.map(mapId);
+    }
+    if (copy.config.condition) {
+      copy.config.condition.trueStep = mapId(copy.config.condition.trueStep);
+      copy.config.condition.falseStep = mapId(copy.config.condition.falseStep);
+    }
+    return copy;
+  });
+}
+
+function detectFormat(content: string): WorkflowDocumentFormat {
+  return /^\s*[{[]/.test(content) ? 'json' : 'yaml';
+}
+
+/**
+ * Strict JSON check, since the YAML parser also accepts things JSON does not
+ */
+function checkJsonSyntax(content: string): WorkflowDocumentIssue | undefined {
+  try {
+    JSON.parse(content);
+    return undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const position = /position (\d+)/.exec(message);
+    const location = position ? lineAndColumn(content, Number(position[1])) : {};
+    return { severity: 'error', path: '', message: `invalid JSON: ${message.replace(/ in JSON at position \d+.*$/, '')}`, ...location };
+  }
+}
+
+/**
+ * Find the line and column of the closest node that exists on a path
+ */
+function locate(
+  document: Document.Parsed,
+  lineCounter: LineCounter,
+  path: DocumentPath
+): { line?: number; column?: number } {
+  for (let length = path.length; length >= 0; length--) {
+    const node = length === 0 ? document.contents : document.getIn(path.slice(0, length), true);
+    const range = (node as { range?: [number, number, number] } | undefined)?.range;
+    if (range) {
+      const { line, col } = lineCounter.linePos(range[0]);
+      return { line, column: col };
+    }
+  }
+  return {};
+}
+
+function locateInContent(content: string, path: DocumentPath): { line?: number; column?: number } {
+  const lineCounter = new LineCounter();
+  return locate(parseDocument(content, { lineCounter }), lineCounter, path);
+}
+
+function lineAndColumn(content: string, offset: number): { line: number; column: number } {
+  const before = content.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+function formatPath(path: DocumentPath): string {
+  return path.reduce<string>(
+    (result, key) => (typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${key}` : key),
+    ''
+  );
+}
+
+function parsePath(path: string): DocumentPath {
+  return path
+    .split('.')
+    .flatMap(part => {
+      const [key, ...indexes] = part.split(/[[\]]/).filter(Boolean);
+      return [key, ...indexes.map(Number)];
+    });
+}
+
+function toValidationResult(issues: WorkflowDocumentIssue[]): WorkflowDocumentValidationResult {
+  const format = (issue: WorkflowDocumentIssue) => {
+    const location = issue.line ? `line ${issue.line}, column ${issue.column}: ` : '';
+    return `${location}${issue.path ? `${issue.path}: ` : ''}${issue.message}`;
+  };
+
+  return {
+    isValid: !issues.some(i => i.severity === 'error'),
+    errors: issues.filter(i => i.severity === 'error').map(format),
+    warnings: issues.filter(i => i.severity === 'warning').map(format),
+    issues
+  };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
@@ -0,0 +1,253 @@
+import { describe, expect, it, vi } from 'vitest';
+import { approveRequest, getApprovalRequest } from './approvalService';
+import { getAuditLogs } from './complianceService';
+import {
+  Workflow,
+  WorkflowExecution,
+  WorkflowStep,
+  addWorkflowStep,
+  analyzeWorkflow,
+  completeWorkflowStep,
+  connectWorkflowSteps,
+  discardWorkflowDraft,
+  executeWorkflow,
+  getPublishedWorkflow,
+  getWorkflow,
+  getWorkflowExecution,
+  listWorkflowVersions,
+  migrateExecution,
+  publishWorkflow,
+  removeWorkflowStep,
+  updateWorkflowStep,
+  validateWorkflow
+} from './workflowService';
+
+const step = (id: string, type: WorkflowStep['type'], connections: string[], config: WorkflowStep['config'] = {}): WorkflowStep =>
+  ({ id, type, name: id, config, position: { x: 0, y: 0 }, connections });
+
+/** A workflow made of the given steps, starting at the first */
+function graph(steps: WorkflowStep[], startStepId = steps[0].id): Workflow {
+  return {
+    id: 'wf-test', name: 'Test workflow', description: 'Test workflow', isTemplate: false, isActive: true, version: 1, status: 'draft',
+    steps, startStepId, createdBy: 'test', createdAt: new Date(), updatedAt: new Date()
+  };
+}
+
+/** Approve every level of an approval request, each approver in listed order */
+function approveAll(requestId: string) {
+  let request = getApprovalRequest(requestId)!;
+  while (request.status === 'pending') {
+    const level = request.currentLevel;
+    for (const approver of request.levels[level - 1].approvers) {
+      request = approveRequest(requestId, approver.id, approver.name);
+      if (request.status !== 'pending' || request.currentLevel !== level) break;
+    }
+  }
+}
+
+/** Approve the termination template's legal and HR approval and wait for the workflow to move on */
+async function approveTermination(execution: WorkflowExecution): Promise<WorkflowExecution> {
+  approveAll(execution.stepRuns['step-1'].waitingFor!.approvalRequestId!);
+  await vi.waitFor(() => {
+    const { stepRuns } = getWorkflowExecution(execution.id)!;
+    expect(stepRuns['step-1'].status).toBe('completed');
+    expect(Object.values(stepRuns).map(run => run.status)).not.toContain('running');
+  });
+  return getWorkflowExecution(execution.id)!;
+}
+
+describe('workflow engine', () => {
+  it('runs the termination template through its approval, risk branch, tasks and optional legal hold', async () => {
+    const execution = await executeWorkflow('template-termination', 'session-test-termination', { riskLevel: 'high' });
+    expect(execution.stepRuns['step-1'].waitingFor).toMatchObject({ kind: 'approval' });
+
+    const approved = await approveTermination(execution);
+    expect(approved.stepRuns['step-2'].output).toEqual({ result: true, nextStepId: 'step-3' });
+    expect(approved.skippedSteps).toEqual(['step-5']);
+    expect(approved.stepRuns['step-3'].waitingFor).toMatchObject({ kind: 'task', assignedTo: 'security-team' });
+
+    const revoked = await completeWorkflowStep(execution.id, 'step-3', 'admin@contoso.com', { revokedSessions: 3 });
+    expect(revoked.stepRuns['step-3'].output).toEqual({ revokedSessions: 3, completedBy: 'admin@contoso.com' });
+    expect(revoked.stepRuns['step-6'].status).toBe('waiting');
+
+    // No legal hold integration is registered, and the step is optional
+    const finished = await completeWorkflowStep(execution.id, 'step-6', 'facilities@contoso.com');
+    expect(finished.status).toBe('completed');
+    expect(finished.stepRuns['step-7'].output).toMatchObject({ skipped: true });
+    expect(getAuditLogs('session-test-termination', { action: 'step_completed' }).map(log => [log.actor, log.details.stepId]))
+      .toEqual([['admin@contoso.com', 'step-3'], ['facilities@contoso.com', 'step-6']]);
+  });
+
+  it('takes the false branch of a condition and joins it back into the shared steps', async () => {
+    const execution = await executeWorkflow('template-termination', 'session-test-low-risk', { riskLevel: 'low' });
+
+    const approved = await approveTermination(execution);
+    expect(approved.stepRuns['step-2'].output).toEqual({ result: false, nextStepId: 'step-5' });
+    expect(approved.skippedSteps).toEqual(['step-3', 'step-4']);
+
+    const scheduled = await completeWorkflowStep(execution.id, 'step-5', 'admin@contoso.com');
+    expect(scheduled.stepRuns['step-6'].status).toBe('waiting');
+  });
+
+  it('only completes steps that wait on a task', async () => {
+    const execution = await executeWorkflow('template-termination', 'session-test-not-task', { riskLevel: 'high' });
+
+    await expect(completeWorkflowStep(execution.id, 'step-1', 'admin@contoso.com'))
+      .rejects.toThrow('Step step-1 is not waiting on a task');
+    await expect(completeWorkflowStep(execution.id, 'step-3', 'admin@contoso.com'))
+      .rejects.toThrow('Step step-3 is not waiting on a task');
+    expect(getWorkflowExecution(execution.id)!.stepRuns['step-1'].status).toBe('waiting');
+  });
+});
+
+describe('analyzeWorkflow', () => {
+  const codes = (workflow: Workflow) =>
+    analyzeWorkflow(workflow).diagnostics.map(d => `${d.severity}:${d.code}:${d.stepId}`);
+
+  it('reports unmarked cycles with the path and the loop marker that would allow them', () => {
+    const result = analyzeWorkflow(graph([step('a', 'task', ['b']), step('b', 'task', ['a', 'end']), step('end', 'task', [])]));
+    expect(result.isValid).toBe(false);
+    expect(result.diagnostics).toEqual([{
+      code: 'cycle',
+      severity: 'error',
+      message: 'Cycle detected: a -> b -> a. Add "a" to loopConnections of b if the loop is intentional',
+      stepId: 'b',
+      relatedStepIds: ['a', 'b']
+    }]);
+  });
+
+  it('accepts loops marked in loopConnections that can still reach a final step', () => {
+    const workflow = graph([
+      step('a', 'task', ['b']),
+      { ...step('b', 'task', ['a', 'end']), loopConnections: ['a'] },
+      step('end', 'task', [])
+    ]);
+
+    expect(analyzeWorkflow(workflow)).toMatchObject({ isValid: true, errors: [], warnings: [] });
+  });
+
+  it('reports loops with no way out once per step that cannot complete', () => {
+    const workflow = graph([
+      step('a', 'task', ['b']),
+      { ...step('b', 'task', ['a']), loopConnections: ['a'] }
+    ]);
+
+    expect(codes(workflow)).toEqual(['error:no-completion-path:a', 'error:no-completion-path:b']);
+  });
+
+  it('reports broken connections, branches and loop markers', () => {
+    const workflow = graph([
+      step('check', 'condition', ['yes', 'ghost', 'extra'], {
+        condition: { field: 'employee.level', operator: 'greater_than', value: 'high', trueStep: 'yes', falseStep: 'nowhere' }
+      }),
+      { ...step('yes', 'task', []), loopConnections: ['check'] },
+      step('extra', 'task', []),
+      step('orphan', 'task', [])
+    ]);
+
+    expect(codes(workflow)).toEqual([
+      'error:dangling-connection:check',
+      'warning:invalid-loop-marker:yes',
+      'error:invalid-condition:check',
+      'error:missing-branch-target:check',
+      'warning:unused-connection:check',
+      'warning:unused-connection:check',
+      'error:unreachable-step:orphan'
+    ]);
+    expect(analyzeWorkflow(workflow).errors).toContain(
+      'Condition step "check" (check) falseStep targets non-existent step nowhere'
+    );
+  });
+
+  it('reports a missing workflow or start step', () => {
+    expect(validateWorkflow('wf-test-none').diagnostics.map(d => d.code)).toEqual(['workflow-not-found']);
+    expect(codes(graph([step('a', 'task', [])], 'gone'))).toEqual(['error:missing-start-step:gone']);
+  });
+
+  it('accepts the built-in templates', () => {
+    ['template-resignation', 'template-termination', 'template-retirement'].forEach(id => {
+      expect(validateWorkflow(id)).toMatchObject({ isValid: true, errors: [] });
+    });
+  });
+});
+
+// Each test edits the retirement template further, starting from the version the previous one published
+describe('workflow versions', () => {
+  const RETIREMENT = 'template-retirement';
+  const delayDays = (workflow: Workflow) => workflow.steps.find(s => s.id === 'step-5')!.config.delayDays;
+
+  it('freezes published versions and edits a new draft with the next version number', () => {
+    expect(() => publishWorkflow(RETIREMENT, 'test')).toThrow('has no draft to publish');
+
+    updateWorkflowStep(RETIREMENT, 'step-5', { config: { delayDays: 30 } });
+    expect(getWorkflow(RETIREMENT)).toMatchObject({ version: 2, status: 'draft' });
+    expect(delayDays(getPublishedWorkflow(RETIREMENT)!)).toBe(60);
+
+    expect(discardWorkflowDraft(RETIREMENT)).toMatchObject({ version: 1, status: 'published' });
+
+    connectWorkflowSteps(RETIREMENT, 'step-7', 'missing');
+    expect(() => publishWorkflow(RETIREMENT, 'test')).toThrow('connects to non-existent step missing');
+    discardWorkflowDraft(RETIREMENT);
+
+    updateWorkflowStep(RETIREMENT, 'step-5', { config: { delayDays: 30 } });
+    publishWorkflow(RETIREMENT, 'test');
+    expect(listWorkflowVersions(RETIREMENT).map(w => [w.version, delayDays(w)])).toEqual([[1, 60], [2, 30]]);
+  });
+
+  it('keeps running executions on the version they started with', async () => {
+    const execution = await executeWorkflow(RETIREMENT, 'session-test-pinned', {});
+    expect(execution.stepRuns['step-2'].status).toBe('waiting');
+
+    removeWorkflowStep(RETIREMENT, 'step-3');
+    connectWorkflowSteps(RETIREMENT, 'step-2', 'step-4');
+    publishWorkflow(RETIREMENT, 'test');
+
+    const resumed = await completeWorkflowStep(execution.id, 'step-2', 'hr@contoso.com');
+    expect(resumed.workflowVersion).toBe(2);
+    expect(resumed.stepRuns['step-3'].status).toBe('waiting');
+  });
+
+  it('migrates an execution to a newer version through a step mapping', async () => {
+    const execution = await executeWorkflow(RETIREMENT, 'session-test-migrate', {});
+    expect(execution.workflowVersion).toBe(3);
+
+    removeWorkflowStep(RETIREMENT, 'step-2');
+    const party = addWorkflowStep(RETIREMENT, {
+      type: 'task',
+      name: 'Plan Retirement Lunch',
+      config: { taskType: 'custom', assignedTo: 'hr-team', dueInDays: 14 },
+      position: { x: 300, y: 100 },
+      connections: ['step-4']
+    });
+    connectWorkflowSteps(RETIREMENT, 'step-1', party.id);
+    publishWorkflow(RETIREMENT, 'test');
+
+    await expect(migrateExecution(execution.id, 3, 'admin@contoso.com'))
+      .rejects.toThrow('can only migrate to a newer version');
+    await expect(migrateExecution(execution.id, 4, 'admin@contoso.com'))
+      .rejects.toThrow('step step-2 does not exist in version 4; map it to a step or to null');
+    await expect(migrateExecution(execution.id, 4, 'admin@contoso.com', { 'step-2': null }))
+      .rejects.toThrow('step step-2 is still waiting and cannot be dropped');
+    expect(getWorkflowExecution(execution.id)!.workflowVersion).toBe(3);
+
+    const migrated = await migrateExecution(execution.id, 4, 'admin@contoso.com', { 'step-2': party.id });
+    expect(migrated.workflowVersion).toBe(4);
+    expect(migrated.stepRuns[party.id].status).toBe('waiting');
+    expect(migrated.stepRuns['step-2']).toBeUndefined();
+    expect(migrated.migrations).toMatchObject([{ fromVersion: 3, toVersion: 4, stepMapping: { 'step-2': party.id } }]);
+
+    const resumed = await completeWorkflowStep(execution.id, party.id, 'hr@contoso.com');
+    expect(resumed.stepRuns['step-4'].status).toBe('waiting');
+  });
+
+  it('only maps waiting steps to steps of the same type', async () => {
+    const execution = await executeWorkflow(RETIREMENT, 'session-test-migrate-type', {});
+    const waiting = Object.values(execution.stepRuns).find(run => run.status === 'waiting')!;
+
+    updateWorkflowStep(RETIREMENT, 'step-7', { name: 'Send Retirement Card' });
+    publishWorkflow(RETIREMENT, 'test');
+
+    await expect(migrateExecution(execution.id, 5, 'admin@contoso.com', { [waiting.stepId]: 'step-5' }))
+      .rejects.toThrow(`step ${waiting.stepId} is waiting as a task step but step-5 is a delay step`);
+  });
+});
@@ -7,8 +7,17 @@
  * - Conditional logic (if-then rules)
  * - Department-specific templates
  * - Parallel and sequential execution
+ * - Draft / published versions; executions stay pinned to the version they started on
  */
 
+import { cancelApprovalRequest, createApprovalRequest, getApprovalRequest, getApprovalTemplate, onApprovalDecision } from './approvalService';
+import { createAuditLog } from './complianceService';
+import { ConditionExpression, evaluateCondition, validateCondition } from './conditionEvaluator';
+import { executeIntegrationAction, listIntegrations } from './integrationService';
+import { sendNotification } from './notificationService';
+import { createRepository } from './repository';
+import { cancelTimer, now, registerTimerHandler, scheduleTimer } from './timerService';
+
 export interface WorkflowStep {
   id: string;
   type: 'task' | 'approval' | 'notification' | 'integration' | 'condition' | 'delay';
@@ -17,6 +26,7 @@ export interface WorkflowStep {
   config: WorkflowStepConfig;
   position: { x: number; y: number };
   connections: string[]; // IDs of next steps
+  loopConnections?: string[]; // Connections that intentionally loop back to an earlier step
 }
 
 export interface WorkflowStepConfig {
@@ -39,12 +49,10 @@ export interface WorkflowStepConfig {
   endpoint?: string;
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   payload?: Record<string, any>;
+  optional?: boolean; // Skip the step instead of failing when no such integration is enabled
   
-  // Condition config
-  condition?: {
-    field: string;
-    operator: 'equals' | 'not_equals' | 'contains' | 'greater_than' | 'less_than';
-    value: any;
+  // Condition config: a comparison or and/or/not expression plus branch targets
+  condition?: ConditionExpression & {
     trueStep: string; // Next step if true
     falseStep: string; // Next step if false
   };
@@ -63,6 +71,9 @@ export interface Workflow {
   isTemplate: boolean;
   isActive: boolean;
   version: number;
+  status: 'draft' | 'published';
+  publishedAt?: Date;
+  publishedBy?: string;
   steps: WorkflowStep[];
   startStepId: string;
   createdBy: string;
@@ -71,8 +82,15 @@ export interface Workflow {
   metadata?: Record<string, any>;
 }
 
-// In-memory storage
-const workflows = new Map<string, Workflow>();
+// Persistent storage
+const workflows = createRepository<Workflow>('workflows'); // Latest draft or published version
+const workflowVersions = createRepository<Workflow>('workflow-versions'); // Frozen published versions
+const executions = createRepository<WorkflowExecution>('workflow-executions');
+
+const WORKFLOW_DELAY_TIMER = 'workflow-delay';
+const MAX_LOOP_ITERATIONS = 25;
+const STEP_TYPES: WorkflowStep['type'][] = ['task', 'approval', 'notification', 'integration', 'condition', 'delay'];
+const STEP_FIELDS = ['type', 'name', 'description', 'config', 'position', 'connections', 'loopConnections'] as const;
 
 /**
  * Initialize default workflow templates
@@ -87,6 +105,7 @@ export function initializeWorkflowTemplates() {
     isTemplate: true,
     isActive: true,
     version: 1,
+    status: 'published',
     startStepId: 'step-1',
     createdBy: 'system',
     createdAt: new Date(),
@@ -205,6 +224,7 @@ export function initializeWorkflowTemplates() {
     isTemplate: true,
     isActive: true,
     version: 1,
+    status: 'published',
     startStepId: 'step-1',
     createdBy: 'system',
     createdAt: new Date(),
@@ -302,7 +322,8 @@ export function initializeWorkflowTemplates() {
           integrationType: 'custom',
           endpoint: '/api/legal-hold',
           method: 'POST',
-          payload: { action: 'create', duration: 90 }
+          payload: { action: 'create', duration: 90 },
+          optional: true
         }
       },
       {
@@ -330,6 +351,7 @@ export function initializeWorkflowTemplates() {
     isTemplate: true,
     isActive: true,
     version: 1,
+    status: 'published',
     startStepId: 'step-1',
     createdBy: 'system',
     createdAt: new Date(),
@@ -427,9 +449,15 @@ export function initializeWorkflowTemplates() {
     ]
   };
 
-  workflows.set(resignationWorkflow.id, resignationWorkflow);
-  workflows.set(terminationWorkflow.id, terminationWorkflow);
-  workflows.set(retirementWorkflow.id, retirementWorkflow);
+  // Keep templates that were edited and republished since the last start
+  [resignationWorkflow, terminationWorkflow, retirementWorkflow]
+    .filter(template => !workflows.has(template.id))
+    .forEach(template => {
+      template.publishedAt = template.createdAt;
+      template.publishedBy = template.createdBy;
+      workflows.set(template.id, template);
+      workflowVersions.set(versionKey(template.id, template.version), cloneWorkflow(template));
+    });
 }
 
 /**
@@ -440,14 +468,19 @@ export function createWorkflow(
   description: string,
   createdBy: string,
   options?: {
+    id?: string;
     department?: string;
     offboardingReason?: 'resignation' | 'termination' | 'retirement' | 'contract_end';
     isTemplate?: boolean;
     basedOnTemplate?: string;
   }
 ): Workflow {
+  if (options?.id && workflows.has(options.id)) {
+    throw new Error(`Workflow already exists: ${options.id}`);
+  }
+
   const workflow: Workflow = {
-    id: `workflow-${Date.now()}`,
+    id: options?.id || `workflow-${Date.now()}`,
     name,
     description,
     department: options?.department,
@@ -455,6 +488,7 @@ export function createWorkflow(
     isTemplate: options?.isTemplate || false,
     isActive: true,
     version: 1,
+    status: 'draft',
     steps: [],
     startStepId: '',
     createdBy,
@@ -482,15 +516,16 @@ export function addWorkflowStep(
   workflowId: string,
   step: Omit<WorkflowStep, 'id'>
 ): WorkflowStep {
-  const workflow = workflows.get(workflowId);
-  if (!workflow) {
-    throw new Error(`Workflow not found: ${workflowId}`);
-  }
+  const fields = toStepFields(step, false);
+  const workflow = getEditableWorkflow(workflowId);
 
   const newStep: WorkflowStep = {
-    ...step,
-    id: `step-${Date.now()}`
-  };
+    config: {},
+    position: { x: 0, y: 0 },
+    connections: [],
+    ...fields,
+    id: `step-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+  } as WorkflowStep;
 
   workflow.steps.push(newStep);
   workflow.updatedAt = new Date();
@@ -499,21 +534,21 @@ export function addWorkflowStep(
     workflow.startStepId = newStep.id;
   }
 
+  workflows.set(workflow.id, workflow);
+
   return newStep;
 }
 
 /**
- * Update workflow step
+ * Update workflow step (the step ID cannot be changed)
  */
 export function updateWorkflowStep(
   workflowId: string,
   stepId: string,
-  updates: Partial<WorkflowStep>
+  updates: Partial<Omit<WorkflowStep, 'id'>>
 ): WorkflowStep {
-  const workflow = workflows.get(workflowId);
-  if (!workflow) {
-    throw new Error(`Workflow not found: ${workflowId}`);
-  }
+  const fields = toStepFields(updates, true);
+  const workflow = getEditableWorkflow(workflowId);
 
   const stepIndex = workflow.steps.findIndex(s => s.id === stepId);
   if (stepIndex === -1) {
@@ -522,9 +557,10 @@ export function updateWorkflowStep(
 
   workflow.steps[stepIndex] = {
     ...workflow.steps[stepIndex],
-    ...updates
+    ...fields
   };
   workflow.updatedAt = new Date();
+  workflows.set(workflow.id, workflow);
 
   return workflow.steps[stepIndex];
 }
@@ -533,10 +569,7 @@ export function updateWorkflowStep(
  * Remove workflow step
  */
 export function removeWorkflowStep(workflowId: string, stepId: string): void {
-  const workflow = workflows.get(workflowId);
-  if (!workflow) {
-    throw new Error(`Workflow not found: ${workflowId}`);
-  }
+  const workflow = getEditableWorkflow(workflowId);
 
   workflow.steps = workflow.steps.filter(s => s.id !== stepId);
   
@@ -546,6 +579,7 @@ export function removeWorkflowStep(workflowId: string, stepId: string): void {
   });
 
   workflow.updatedAt = new Date();
+  workflows.set(workflow.id, workflow);
 }
 
 /**
@@ -556,10 +590,7 @@ export function connectWorkflowSteps(
   fromStepId: string,
   toStepId: string
 ): void {
-  const workflow = workflows.get(workflowId);
-  if (!workflow) {
-    throw new Error(`Workflow not found: ${workflowId}`);
-  }
+  const workflow = getEditableWorkflow(workflowId);
 
   const fromStep = workflow.steps.find(s => s.id === fromStepId);
   if (!fromStep) {
@@ -571,6 +602,23 @@ export function connectWorkflowSteps(
   }
 
   workflow.updatedAt = new Date();
+  workflows.set(workflow.id, workflow);
+}
+
+/**
+ * Replace workflow details and steps in one change (e.g. when importing a document)
+ */
+export function updateWorkflowDraft(
+  workflowId: string,
+  updates: Partial<Pick<Workflow, 'name' | 'description' | 'department' | 'offboardingReason' | 'steps' | 'startStepId' | 'metadata'>>
+): Workflow {
+  const workflow = getEditableWorkflow(workflowId);
+
+  Object.assign(workflow, updates);
+  workflow.updatedAt = new Date();
+  workflows.set(workflow.id, workflow);
+
+  return workflow;
 }
 
 /**
@@ -603,104 +651,1320 @@ export function listWorkflows(filters?: {
   return result;
 }
 
+/**
+ * Publish the current draft of a workflow
+ *
+ * The published version is frozen: later edits start a new draft with the
+ * next version number and never change what running executions see.
+ */
+export function publishWorkflow(workflowId: string, publishedBy: string): Workflow {
+  const workflow = workflows.get(workflowId);
+  if (!workflow) {
+    throw new Error(`Workflow not found: ${workflowId}`);
+  }
+
+  if (workflow.status === 'published') {
+    throw new Error(`Workflow ${workflowId} has no draft to publish (version ${workflow.version} is already published)`);
+  }
+
+  const validation = analyzeWorkflow(workflow);
+  if (!validation.isValid) {
+    throw new Error(`Cannot publish workflow ${workflowId}: ${validation.errors.join('; ')}`);
+  }
+
+  workflow.status = 'published';
+  workflow.publishedAt = now();
+  workflow.publishedBy = publishedBy;
+  workflow.updatedAt = new Date();
+  workflows.set(workflow.id, workflow);
+  workflowVersions.set(versionKey(workflow.id, workflow.version), cloneWorkflow(workflow));
+
+  return workflow;
+}
+
+/**
+ * Discard the current draft and go back to the latest published version
+ */
+export function discardWorkflowDraft(workflowId: string): Workflow {
+  const workflow = workflows.get(workflowId);
+  if (!workflow) {
+    throw new Error(`Workflow not found: ${workflowId}`);
+  }
+
+  if (workflow.status !== 'draft') {
+    throw new Error(`Workflow ${workflowId} has no draft to discard`);
+  }
+
+  const published = getPublishedWorkflow(workflowId);
+  if (!published) {
+    throw new Error(`Workflow ${workflowId} has never been published; delete it instead`);
+  }
+
+  const restored = cloneWorkflow(published);
+  workflows.set(workflowId, restored);
+  return restored;
+}
+
+/**
+ * Get a published version of a workflow
+ */
+export function getWorkflowVersion(workflowId: string, version: number): Workflow | undefined {
+  return workflowVersions.get(versionKey(workflowId, version));
+}
+
+/**
+ * Get the latest published version of a workflow
+ */
+export function getPublishedWorkflow(workflowId: string): Workflow | undefined {
+  const versions = listWorkflowVersions(workflowId);
+  return versions[versions.length - 1];
+}
+
+/**
+ * List the published versions of a workflow, oldest first
+ */
+export function listWorkflowVersions(workflowId: string): Workflow[] {
+  return workflowVersions
+    .values()
+    .filter(w => w.id === workflowId)
+    .sort((a, b) => a.version - b.version);
+}
+
 /**
  * Execute workflow for a session
+ *
+ * Runs the latest published version; the execution stays on that version
+ * until it finishes or is explicitly migrated with migrateExecution.
+ * Starts at the workflow's start step and advances through `connections`
+ * until every branch has completed or is waiting on an external signal
+ * (a human task, an approval decision or a delay).
  */
-export function executeWorkflow(
+export async function executeWorkflow(
   workflowId: string,
   sessionId: string,
   context: Record<string, any>
-): WorkflowExecution {
-  const workflow = workflows.get(workflowId);
-  if (!workflow) {
+): Promise<WorkflowExecution> {
+  if (!workflows.has(workflowId)) {
     throw new Error(`Workflow not found: ${workflowId}`);
   }
 
+  const workflow = getPublishedWorkflow(workflowId);
+  if (!workflow) {
+    throw new Error(`Workflow ${workflowId} has no published version`);
+  }
+
+  if (!workflow.steps.find(s => s.id === workflow.startStepId)) {
+    throw new Error(`Workflow ${workflowId} has no valid start step`);
+  }
+
   const execution: WorkflowExecution = {
-    id: `exec-${Date.now()}`,
+    id: `exec-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     workflowId,
+    workflowVersion: workflow.version,
     sessionId,
-    startedAt: new Date(),
+    startedAt: now(),
     status: 'running',
     currentStepId: workflow.startStepId,
     completedSteps: [],
+    skippedSteps: [],
+    stepRuns: {},
     context
   };
 
-  return execution;
+  executions.set(execution.id, execution);
+
+  return runSteps(execution, workflow, [workflow.startStepId]);
 }
 
 export interface WorkflowExecution {
   id: string;
   workflowId: string;
+  workflowVersion: number; // Published version the execution runs on
   sessionId: string;
   startedAt: Date;
   completedAt?: Date;
-  status: 'running' | 'completed' | 'failed' | 'paused';
+  status: 'running' | 'completed' | 'failed' | 'paused' | 'cancelled';
   currentStepId: string;
   completedSteps: string[];
+  skippedSteps: string[];
+  stepRuns: Record<string, WorkflowStepRun>;
   context: Record<string, any>;
   error?: string;
+  loopIterations?: Record<string, number>; // "fromStepId->toStepId" -> times taken
+  pause?: {
+    pausedAt: Date;
+    pausedBy: string;
+    reason?: string;
+  };
+  cancellation?: {
+    cancelledAt: Date;
+    cancelledBy: string;
+    reason: string;
+  };
+  migrations?: WorkflowMigration[];
+}
+
+export interface WorkflowMigration {
+  fromVersion: number;
+  toVersion: number;
+  migratedAt: Date;
+  migratedBy: string;
+  stepMapping: Record<string, string | null>; // Old step ID -> new step ID (null = dropped)
+}
+
+export interface WorkflowStepRun {
+  stepId: string;
+  status: 'running' | 'waiting' | 'completed' | 'failed';
+  startedAt: Date;
+  completedAt?: Date;
+  waitingFor?: {
+    kind: 'task' | 'approval' | 'delay';
+    assignedTo?: string;
+    dueAt?: Date;
+    approvalRequestId?: string;
+    timerId?: string;
+    resumeAt?: Date;
+  };
+  output?: Record<string, any>;
+  error?: string;
 }
 
+type StepOutcome =
+  | { status: 'completed'; output?: Record<string, any>; next?: string[] }
+  | { status: 'waiting'; waitingFor: NonNullable<WorkflowStepRun['waitingFor']> };
+
 /**
- * Validate workflow (check for cycles, unreachable steps, etc.)
+ * Complete a step that is waiting on a human task
  */
-export function validateWorkflow(workflowId: string): {
-  isValid: boolean;
-  errors: string[];
-} {
+export async function completeWorkflowStep(
+  executionId: string,
+  stepId: string,
+  completedBy: string,
+  output?: Record<string, any>
+): Promise<WorkflowExecution> {
+  const execution = executions.get(executionId);
+  if (!execution) {
+    throw new Error(`Workflow execution not found: ${executionId}`);
+  }
+
+  if (execution.status !== 'running' && execution.status !== 'paused') {
+    throw new Error(`Cannot complete step in execution with status: ${execution.status}`);
+  }
+
+  // Approvals and delays finish through their decision or timer, never by hand
+  const run = execution.stepRuns[stepId];
+  if (!run || run.status !== 'waiting' || run.waitingFor?.kind !== 'task') {
+    throw new Error(`Step ${stepId} is not waiting on a task in execution ${executionId}`);
+  }
+
+  createAuditLog(
+    execution.sessionId,
+    completedBy,
+    completedBy,
+    'step_completed',
+    'workflow_execution',
+    execution.id,
+    { workflowId: execution.workflowId, stepId, assignedTo: run.waitingFor.assignedTo }
+  );
+
+  return resumeStep(execution, stepId, { status: 'completed', output: { ...output, completedBy } });
+}
+
+/**
+ * Pause a running execution
+ *
+ * The current step and context are kept. Steps that finish while paused
+ * (task completions, approval decisions) are recorded, but no further
+ * steps start until the execution is resumed.
+ */
+export function pauseExecution(
+  executionId: string,
+  pausedBy: string,
+  reason?: string
+): WorkflowExecution {
+  const execution = executions.get(executionId);
+  if (!execution) {
+    throw new Error(`Workflow execution not found: ${executionId}`);
+  }
+
+  if (execution.status !== 'running') {
+    throw new Error(`Cannot pause execution with status: ${execution.status}`);
+  }
+
+  execution.status = 'paused';
+  execution.pause = { pausedAt: now(), pausedBy, reason };
+  executions.set(execution.id, execution);
+
+  createAuditLog(
+    execution.sessionId,
+    pausedBy,
+    pausedBy,
+    'paused',
+    'workflow_execution',
+    execution.id,
+    { workflowId: execution.workflowId, currentStepId: execution.currentStepId, reason }
+  );
+
+  return execution;
+}
+
+/**
+ * Resume a paused execution from where it stopped
+ */
+export async function resumeExecution(
+  executionId: string,
+  resumedBy: string
+): Promise<WorkflowExecution> {
+  const execution = executions.get(executionId);
+  if (!execution) {
+    throw new Error(`Workflow execution not found: ${executionId}`);
+  }
+
+  if (execution.status !== 'paused') {
+    throw new Error(`Cannot resume execution with status: ${execution.status}`);
+  }
+
+  const workflow = getExecutionWorkflow(execution);
+
+  const pausedFor = execution.pause ? now().getTime() - execution.pause.pausedAt.getTime() : 0;
+  execution.status = 'running';
+  delete execution.pause;
+
+  createAuditLog(
+    execution.sessionId,
+    resumedBy,
+    resumedBy,
+    'resumed',
+    'workflow_execution',
+    execution.id,
+    { workflowId: execution.workflowId, currentStepId: execution.currentStepId, pausedForMs: pausedFor }
+  );
+
+  // Continue with every step whose predecessors finished while paused
+  const ready = workflow.steps
+    .map(s => s.id)
+    .filter(id => isStepReady(execution, workflow, id));
+  return runSteps(execution, workflow, ready);
+}
+
+/**
+ * Cancel an execution, recording who cancelled it and why
+ */
+export function cancelExecution(
+  executionId: string,
+  cancelledBy: string,
+  reason: string
+): WorkflowExecution {
+  const execution = executions.get(executionId);
+  if (!execution) {
+    throw new Error(`Workflow execution not found: ${executionId}`);
+  }
+
+  if (execution.status !== 'running' && execution.status !== 'paused') {
+    throw new Error(`Cannot cancel execution with status: ${execution.status}`);
+  }
+
+  execution.status = 'cancelled';
+  execution.cancellation = { cancelledAt: now(), cancelledBy, reason };
+  execution.completedAt = now();
+  delete execution.pause;
+  executions.set(execution.id, execution);
+
+  // Pending delays must not fire, and approvers must not be asked, for a cancelled execution
+  Object.values(execution.stepRuns).forEach(run => {
+    if (run.status !== 'waiting') return;
+    if (run.waitingFor?.timerId) {
+      cancelTimer(run.waitingFor.timerId);
+    }
+    const approvalRequestId = run.waitingFor?.approvalRequestId;
+    const request = approvalRequestId ? getApprovalRequest(approvalRequestId) : undefined;
+    if (request && (request.status === 'pending' || request.status === 'escalated')) {
+      cancelApprovalRequest(request.id, cancelledBy, `Workflow execution cancelled: ${reason}`);
+    }
+  });
+
+  createAuditLog(
+    execution.sessionId,
+    cancelledBy,
+    cancelledBy,
+    'cancelled',
+    'workflow_execution',
+    execution.id,
+    { workflowId: execution.workflowId, currentStepId: execution.currentStepId, reason }
+  );
+
+  return execution;
+}
+
+/**
+ * Move a running or paused execution to a newer published version
+ *
+ * Step runs, completed and skipped steps are carried over by step ID.
+ * `stepMapping` renames steps whose ID changed between versions, or drops
+ * them with `null`. Every step that has run must either exist in the target
+ * version or be mapped; waiting steps must map to a step of the same type,
+ * so pending tasks, approvals and delays keep their place in the new graph.
+ */
+export async function migrateExecution(
+  executionId: string,
+  toVersion: number,
+  migratedBy: string,
+  stepMapping: Record<string, string | null> = {}
+): Promise<WorkflowExecution> {
+  const execution = executions.get(executionId);
+  if (!execution) {
+    throw new Error(`Workflow execution not found: ${executionId}`);
+  }
+
+  if (execution.status !== 'running' && execution.status !== 'paused') {
+    throw new Error(`Cannot migrate execution with status: ${execution.status}`);
+  }
+
+  const fromVersion = execution.workflowVersion ?? 1;
+  if (toVersion <= fromVersion) {
+    throw new Error(`Execution ${executionId} is on version ${fromVersion}; can only migrate to a newer version`);
+  }
+
+  const source = getExecutionWorkflow(execution);
+  const target = getWorkflowVersion(execution.workflowId, toVersion);
+  if (!target) {
+    throw new Error(`Workflow ${execution.workflowId} has no published version ${toVersion}`);
+  }
+
+  const mapStep = (stepId: string): string | null | undefined => {
+    if (stepId in stepMapping) return stepMapping[stepId];
+    return target.steps.some(s => s.id === stepId) ? stepId : undefined;
+  };
+
+  // Check the whole mapping before touching the execution
+  const problems: string[] = [];
+  const mappedTo = new Map<string, string>();
+  Object.values(execution.stepRuns).forEach(run => {
+    const mapped = mapStep(run.stepId);
+    const pending = run.status === 'waiting' || run.status === 'running';
+
+    if (mapped === undefined) {
+      problems.push(`step ${run.stepId} does not exist in version ${toVersion}; map it to a step or to null`);
+      return;
+    }
+    if (mapped === null) {
+      if (pending) problems.push(`step ${run.stepId} is still ${run.status} and cannot be dropped`);
+      return;
+    }
+
+    const targetStep = target.steps.find(s => s.id === mapped);
+    if (!targetStep) {
+      problems.push(`step ${run.stepId} is mapped to ${mapped}, which does not exist in version ${toVersion}`);
+      return;
+    }
+    if (mappedTo.has(mapped)) {
+      problems.push(`steps ${mappedTo.get(mapped)} and ${run.stepId} are both mapped to ${mapped}`);
+    }
+    mappedTo.set(mapped, run.stepId);
+
+    const sourceStep = source.steps.find(s => s.id === run.stepId);
+    if (pending && sourceStep && sourceStep.type !== targetStep.type) {
+      problems.push(`step ${run.stepId} is waiting as a ${sourceStep.type} step but ${mapped} is a ${targetStep.type} step`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Cannot migrate execution ${executionId} to version ${toVersion}: ${problems.join('; ')}`);
+  }
+
+  const remapIds = (ids: string[]) =>
+    ids.map(mapStep).filter((id): id is string => typeof id === 'string');
+
+  const stepRuns: Record<string, WorkflowStepRun> = {};
+  Object.values(execution.stepRuns).forEach(run => {
+    const mapped = mapStep(run.stepId);
+    if (mapped) stepRuns[mapped] = { ...run, stepId: mapped };
+  });
+
+  const loopIterations: Record<string, number> = {};
+  Object.entries(execution.loopIterations || {}).forEach(([edge, count]) => {
+    const [from, to] = edge.split('->').map(mapStep);
+    if (from && to) loopIterations[`${from}->${to}`] = count;
+  });
+
+  execution.stepRuns = stepRuns;
+  execution.completedSteps = remapIds(execution.completedSteps);
+  execution.skippedSteps = remapIds(execution.skippedSteps);
+  execution.loopIterations = loopIterations;
+  execution.currentStepId = mapStep(execution.currentStepId) || target.startStepId;
+  execution.workflowVersion = toVersion;
+  execution.migrations = [
+    ...(execution.migrations || []),
+    { fromVersion, toVersion, migratedAt: now(), migratedBy, stepMapping }
+  ];
+
+  // Steps added behind branches that were already skipped are skipped too
+  target.steps
+    .filter(step => getPredecessors(target, step.id).length > 0)
+    .forEach(step => skipStep(execution, target, step.id));
+
+  createAuditLog(
+    execution.sessionId,
+    migratedBy,
+    migratedBy,
+    'migrated',
+    'workflow_execution',
+    execution.id,
+    { workflowId: execution.workflowId, fromVersion, toVersion, stepMapping }
+  );
+
+  if (execution.status === 'paused') {
+    executions.set(execution.id, execution);
+    return execution;
+  }
+
+  // Start steps that the new version made ready (e.g. inserted after completed steps)
+  const ready = target.steps
+    .map(s => s.id)
+    .filter(id => isStepReady(execution, target, id));
+  return runSteps(execution, target, ready);
+}
+
+/**
+ * Get workflow execution by ID
+ */
+export function getWorkflowExecution(executionId: string): WorkflowExecution | undefined {
+  return executions.get(executionId);
+}
+
+/**
+ * List workflow executions
+ */
+export function listWorkflowExecutions(filters?: {
+  workflowId?: string;
+  sessionId?: string;
+  status?: WorkflowExecution['status'];
+}): WorkflowExecution[] {
+  let result = Array.from(executions.values());
+
+  if (filters?.workflowId) {
+    result = result.filter(e => e.workflowId === filters.workflowId);
+  }
+  if (filters?.sessionId) {
+    result = result.filter(e => e.sessionId === filters.sessionId);
+  }
+  if (filters?.status) {
+    result = result.filter(e => e.status === filters.status);
+  }
+
+  return result;
+}
+
+/**
+ * Get the draft of a workflow for editing, starting a new version if needed
+ */
+function getEditableWorkflow(workflowId: string): Workflow {
   const workflow = workflows.get(workflowId);
   if (!workflow) {
-    return { isValid: false, errors: ['Workflow not found'] };
+    throw new Error(`Workflow not found: ${workflowId}`);
   }
 
-  const errors: string[] = [];
+  if (workflow.status === 'draft') {
+    return workflow;
+  }
 
-  // Check if start step exists
-  if (!workflow.startStepId) {
-    errors.push('No start step defined');
-  } else if (!workflow.steps.find(s => s.id === workflow.startStepId)) {
-    errors.push('Start step does not exist in workflow');
+  const draft: Workflow = {
+    ...cloneWorkflow(workflow),
+    version: workflow.version + 1,
+    status: 'draft',
+    publishedAt: undefined,
+    publishedBy: undefined
+  };
+  workflows.set(draft.id, draft);
+  return draft;
+}
+
+/**
+ * Get the workflow version an execution is pinned to
+ */
+function getExecutionWorkflow(execution: WorkflowExecution): Workflow {
+  const version = execution.workflowVersion ?? 1;
+  const workflow = getWorkflowVersion(execution.workflowId, version);
+  if (!workflow) {
+    throw new Error(`Workflow not found: ${execution.workflowId} (version ${version})`);
   }
+  return workflow;
+}
+
+/**
+ * Check the fields of a step added or updated through the builder API and keep only known ones.
+ * The ID is never taken from the input. Throws when a field has the wrong shape.
+ */
+function toStepFields(input: unknown, partial: boolean): Partial<Omit<WorkflowStep, 'id'>> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Invalid step: must be an object');
+  }
+
+  const step = input as Record<string, any>;
+  const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+  const given = (key: string) => step[key] !== undefined;
+  const problems: string[] = [];
+
+  if ((!partial || given('type')) && !STEP_TYPES.includes(step.type)) {
+    problems.push(`type must be one of: ${STEP_TYPES.join(', ')}`);
+  }
+  if ((!partial || given('name')) && (typeof step.name !== 'string' || !step.name.trim())) {
+    problems.push('name must be a non-empty string');
+  }
+  if (given('description') && typeof step.description !== 'string') {
+    problems.push('description must be a string');
+  }
+  if (given('config') && !isObject(step.config)) {
+    problems.push('config must be an object');
+  }
+  if (given('position') &&
+      (!isObject(step.position) || typeof step.position.x !== 'number' || typeof step.position.y !== 'number')) {
+    problems.push('position must be an object with numeric x and y');
+  }
+  ['connections', 'loopConnections'].forEach(key => {
+    if (given(key) && !isStringArray(step[key])) {
+      problems.push(`${key} must be an array of step IDs`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid step: ${problems.join('; ')}`);
+  }
+
+  const fields: Record<string, any> = {};
+  STEP_FIELDS.filter(given).forEach(key => {
+    fields[key] = step[key];
+  });
+  return fields;
+}
+
+function versionKey(workflowId: string, version: number): string {
+  return `${workflowId}@${version}`;
+}
+
+function cloneWorkflow(workflow: Workflow): Workflow {
+  return structuredClone(workflow);
+}
+
+/**
+ * Finish a waiting step and continue with its successors
+ */
+async function resumeStep(
+  execution: WorkflowExecution,
+  stepId: string,
+  outcome: { status: 'completed'; output?: Record<string, any> } | { status: 'failed'; error: string }
+): Promise<WorkflowExecution> {
+  const workflow = getExecutionWorkflow(execution);
+
+  const step = workflow.steps.find(s => s.id === stepId);
+  const run = execution.stepRuns[stepId];
+  if (!step || !run) {
+    throw new Error(`Step ${stepId} has not run in execution ${execution.id}`);
+  }
+
+  if (outcome.status === 'failed') {
+    failStep(execution, run, outcome.error);
+    executions.set(execution.id, execution);
+    return execution;
+  }
+
+  run.output = { ...run.output, ...outcome.output };
+  const next = finishStep(execution, workflow, step, run, getStepSuccessors(step));
+
+  // Successors are picked up again by resumeExecution
+  if (execution.status === 'paused') {
+    executions.set(execution.id, execution);
+    return execution;
+  }
+
+  return runSteps(execution, workflow, next);
+}
+
+/**
+ * Run ready steps breadth-first until every branch is finished or waiting.
+ * Returns the execution as saved, which may have changed while a step ran.
+ */
+async function runSteps(
+  execution: WorkflowExecution,
+  workflow: Workflow,
+  initial: string[]
+): Promise<WorkflowExecution> {
+  const queue = [...initial];
+
+  while (queue.length > 0 && execution.status === 'running') {
+    const stepId = queue.shift()!;
+    if (execution.stepRuns[stepId]) continue;
 
-  // Check for unreachable steps
-  const reachable = new Set<string>();
-  const visited = new Set<string>();
-  
-  function traverse(stepId: string) {
-    if (visited.has(stepId) || !workflow) return;
-    visited.add(stepId);
-    reachable.add(stepId);
-    
     const step = workflow.steps.find(s => s.id === stepId);
+    if (!step) {
+      execution.status = 'failed';
+      execution.error = `Step not found: ${stepId}`;
+      execution.completedAt = now();
+      break;
+    }
+
+    const run: WorkflowStepRun = {
+      stepId,
+      status: 'running',
+      startedAt: now()
+    };
+    execution.stepRuns[stepId] = run;
+    execution.currentStepId = stepId;
+
+    // Save before the step runs: while it awaits, the execution can be paused or
+    // cancelled, or another branch resumed by a timer or approval decision
+    executions.set(execution.id, execution);
+
+    let outcome: StepOutcome | undefined;
+    let stepError: unknown;
+    try {
+      outcome = await executeStep(execution, step);
+    } catch (error) {
+      stepError = error;
+    }
+
+    execution = executions.get(execution.id) || execution;
+    execution.stepRuns[stepId] = run;
+
+    if (!outcome) {
+      failStep(execution, run, stepError instanceof Error ? stepError.message : 'Unknown error');
+      break;
+    }
+
+    if (outcome.status === 'waiting') {
+      run.status = 'waiting';
+      run.waitingFor = outcome.waitingFor;
+      continue;
+    }
+
+    run.output = outcome.output;
+    try {
+      queue.push(...finishStep(execution, workflow, step, run, outcome.next ?? getStepSuccessors(step)));
+    } catch (error) {
+      failStep(execution, run, error instanceof Error ? error.message : 'Unknown error');
+      break;
+    }
+  }
+
+  updateExecutionStatus(execution);
+  executions.set(execution.id, execution);
+  return execution;
+}
+
+/**
+ * Mark a step completed, skip untaken branches and return successors that are ready
+ */
+function finishStep(
+  execution: WorkflowExecution,
+  workflow: Workflow,
+  step: WorkflowStep,
+  run: WorkflowStepRun,
+  next: string[]
+): string[] {
+  run.status = 'completed';
+  run.completedAt = now();
+  delete run.waitingFor;
+  execution.completedSteps.push(step.id);
+
+  const loopTargets = next.filter(id => step.loopConnections?.includes(id));
+  if (loopTargets.length > 0) {
+    // Taking a loop is not a final branch decision, so nothing is skipped yet
+    loopTargets.forEach(targetId => restartLoop(execution, workflow, step, targetId));
+    return loopTargets;
+  }
+
+  getStepSuccessors(step)
+    .filter(id => !next.includes(id))
+    .forEach(id => skipStep(execution, workflow, id));
+
+  const candidates = new Set<string>(next);
+  execution.skippedSteps.forEach(skippedId => {
+    const skipped = workflow.steps.find(s => s.id === skippedId);
+    if (skipped) {
+      getStepSuccessors(skipped).forEach(id => candidates.add(id));
+    }
+  });
+
+  return Array.from(candidates).filter(id => isStepReady(execution, workflow, id));
+}
+
+/**
+ * Clear the runs of every step in a loop body so the loop can run again
+ */
+function restartLoop(
+  execution: WorkflowExecution,
+  workflow: Workflow,
+  fromStep: WorkflowStep,
+  targetId: string
+): void {
+  const key = `${fromStep.id}->${targetId}`;
+  execution.loopIterations = execution.loopIterations || {};
+  execution.loopIterations[key] = (execution.loopIterations[key] || 0) + 1;
+  if (execution.loopIterations[key] > MAX_LOOP_ITERATIONS) {
+    throw new Error(`Loop ${key} exceeded ${MAX_LOOP_ITERATIONS} iterations`);
+  }
+
+  const forward = collectForward(workflow, targetId);
+  const backward = collectBackward(workflow, fromStep.id);
+  forward
+    .filter(id => backward.has(id))
+    .forEach(id => delete execution.stepRuns[id]);
+}
+
+/**
+ * Skip a step on an untaken branch, and any step only reachable through it
+ */
+function skipStep(execution: WorkflowExecution, workflow: Workflow, stepId: string): void {
+  if (execution.stepRuns[stepId] || execution.skippedSteps.includes(stepId)) return;
+
+  const predecessors = getPredecessors(workflow, stepId);
+  const allSkipped = predecessors.every(id => execution.skippedSteps.includes(id) || isUntaken(execution, workflow, id, stepId));
+  if (!allSkipped) return;
+
+  execution.skippedSteps.push(stepId);
+  const step = workflow.steps.find(s => s.id === stepId);
+  if (step) {
+    getStepSuccessors(step).forEach(id => skipStep(execution, workflow, id));
+  }
+}
+
+/**
+ * Whether a finished step chose not to continue to the given successor
+ */
+function isUntaken(execution: WorkflowExecution, workflow: Workflow, fromId: string, toId: string): boolean {
+  const run = execution.stepRuns[fromId];
+  if (!run || run.status !== 'completed') return false;
+
+  const step = workflow.steps.find(s => s.id === fromId);
+  return step?.type === 'condition' && run.output?.nextStepId !== toId;
+}
+
+/**
+ * A step is ready once every forward predecessor has completed or was skipped,
+ * and at least one predecessor (or loop) actually led to it
+ */
+function isStepReady(execution: WorkflowExecution, workflow: Workflow, stepId: string): boolean {
+  if (execution.stepRuns[stepId] || execution.skippedSteps.includes(stepId)) return false;
+
+  const settled = getPredecessors(workflow, stepId).every(id =>
+    execution.skippedSteps.includes(id) || execution.stepRuns[id]?.status === 'completed'
+  );
+  const reached = getPredecessors(workflow, stepId, true).some(id =>
+    execution.stepRuns[id]?.status === 'completed' && !isUntaken(execution, workflow, id, stepId)
+  );
+
+  return settled && reached;
+}
+
+/**
+ * Next steps of a step: its connections plus any condition branch targets
+ */
+function getStepSuccessors(step: WorkflowStep): string[] {
+  const successors = [...step.connections];
+  const condition = step.type === 'condition' ? step.config.condition : undefined;
+  if (condition) {
+    [condition.trueStep, condition.falseStep].forEach(id => {
+      if (id && !successors.includes(id)) {
+        successors.push(id);
+      }
+    });
+  }
+  return successors;
+}
+
+function getForwardSuccessors(step: WorkflowStep): string[] {
+  return getStepSuccessors(step).filter(id => !step.loopConnections?.includes(id));
+}
+
+/**
+ * Steps leading to a step; loop-back edges are only included on request
+ */
+function getPredecessors(workflow: Workflow, stepId: string, includeLoops: boolean = false): string[] {
+  return workflow.steps
+    .filter(s => (includeLoops ? getStepSuccessors(s) : getForwardSuccessors(s)).includes(stepId))
+    .map(s => s.id);
+}
+
+function collectForward(workflow: Workflow, startId: string): string[] {
+  const seen = new Set<string>();
+  const stack = [startId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const step = workflow.steps.find(s => s.id === id);
     if (step) {
-      step.connections.forEach(connId => traverse(connId));
+      stack.push(...getForwardSuccessors(step));
     }
   }
-  
-  if (workflow.startStepId) {
-    traverse(workflow.startStepId);
+  return Array.from(seen);
+}
+
+function collectBackward(workflow: Workflow, endId: string): Set<string> {
+  const seen = new Set<string>();
+  const stack = [endId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...getPredecessors(workflow, id));
   }
+  return seen;
+}
 
-  workflow.steps.forEach(step => {
-    if (!reachable.has(step.id)) {
-      errors.push(`Step "${step.name}" (${step.id}) is unreachable`);
+function failStep(execution: WorkflowExecution, run: WorkflowStepRun, error: string): void {
+  run.status = 'failed';
+  run.error = error;
+  run.completedAt = now();
+  if (execution.status === 'cancelled') return;
+
+  execution.status = 'failed';
+  execution.error = `Step ${run.stepId} failed: ${error}`;
+  execution.completedAt = now();
+}
+
+function updateExecutionStatus(execution: WorkflowExecution): void {
+  if (execution.status !== 'running') return;
+
+  const outstanding = Object.values(execution.stepRuns).some(
+    r => r.status === 'running' || r.status === 'waiting'
+  );
+  if (!outstanding) {
+    execution.status = 'completed';
+    execution.completedAt = now();
+  }
+}
+
+/**
+ * Run a single step according to its type
+ */
+async function executeStep(execution: WorkflowExecution, step: WorkflowStep): Promise<StepOutcome> {
+  switch (step.type) {
+    case 'task':
+      return executeTaskStep(step);
+    case 'approval':
+      return executeApprovalStep(execution, step);
+    case 'notification':
+      return executeNotificationStep(execution, step);
+    case 'integration':
+      return executeIntegrationStep(execution, step);
+    case 'condition':
+      return executeConditionStep(execution, step);
+    case 'delay':
+      return executeDelayStep(execution, step);
+    default:
+      throw new Error(`Unsupported step type: ${step.type}`);
+  }
+}
+
+/**
+ * Task steps are human work: they wait until completeWorkflowStep is called
+ */
+async function executeTaskStep(step: WorkflowStep): Promise<StepOutcome> {
+  const dueInDays = step.config.dueInDays ?? 0;
+  return {
+    status: 'waiting',
+    waitingFor: {
+      kind: 'task',
+      assignedTo: step.config.assignedTo,
+      dueAt: new Date(now().getTime() + dueInDays * 24 * 60 * 60 * 1000)
+    }
+  };
+}
+
+/**
+ * Approval steps open an approval request and wait for its final decision
+ */
+async function executeApprovalStep(execution: WorkflowExecution, step: WorkflowStep): Promise<StepOutcome> {
+  const request = createApprovalRequest(
+    execution.sessionId,
+    `${execution.id}:${step.id}`,
+    step.name,
+    'workflow-engine',
+    step.config.approvalTemplate,
+    { workflowId: execution.workflowId, executionId: execution.id, stepId: step.id }
+  );
+
+  return {
+    status: 'waiting',
+    waitingFor: { kind: 'approval', approvalRequestId: request.id }
+  };
+}
+
+async function executeNotificationStep(execution: WorkflowExecution, step: WorkflowStep): Promise<StepOutcome> {
+  const notification = await sendNotification(
+    step.config.notificationType || 'email',
+    step.config.recipients || [],
+    step.description || step.name,
+    {
+      subject: step.name,
+      template: step.config.template,
+      variables: toTemplateVariables(execution),
+      metadata: { workflowId: execution.workflowId, executionId: execution.id, stepId: step.id }
+    }
+  );
+
+  if (notification.status === 'failed') {
+    throw new Error(notification.error || 'Notification failed');
+  }
+
+  return { status: 'completed', output: { notificationId: notification.id } };
+}
+
+async function executeIntegrationStep(execution: WorkflowExecution, step: WorkflowStep): Promise<StepOutcome> {
+  const integrationType = step.config.integrationType || 'custom';
+  const integration = listIntegrations({ type: integrationType, enabled: true })[0];
+  if (!integration) {
+    if (step.config.optional) {
+      return { status: 'completed', output: { skipped: true, reason: `No enabled ${integrationType} integration registered` } };
+    }
+    throw new Error(`No enabled ${integrationType} integration registered`);
+  }
+
+  const action = await executeIntegrationAction(
+    integration.id,
+    step.config.endpoint ? `${step.config.method || 'POST'} ${step.config.endpoint}` : step.name,
+    { ...step.config.payload, sessionId: execution.sessionId }
+  );
+
+  if (action.status === 'failed') {
+    throw new Error(action.error || 'Integration action failed');
+  }
+
+  return { status: 'completed', output: { integrationActionId: action.id, response: action.response } };
+}
+
+async function executeConditionStep(execution: WorkflowExecution, step: WorkflowStep): Promise<StepOutcome> {
+  const condition = step.config.condition;
+  if (!condition) {
+    throw new Error(`Condition step ${step.id} has no condition configured`);
+  }
+
+  // Relative dates ("now+7d") follow the timer clock, so a test clock moves them along with delays
+  const result = evaluateCondition(condition, execution.context, now());
+  const nextStepId = result ? condition.trueStep : condition.falseStep;
+  return { status: 'completed', output: { result, nextStepId }, next: [nextStepId] };
+}
+
+/**
+ * Delay steps schedule a durable timer that resumes the execution when due
+ */
+async function executeDelayStep(execution: WorkflowExecution, step: WorkflowStep): Promise<StepOutcome> {
+  const delayMs =
+    (step.config.delayDays ?? 0) * 24 * 60 * 60 * 1000 +
+    (step.config.delayHours ?? 0) * 60 * 60 * 1000;
+  const resumeAt = new Date(now().getTime() + delayMs);
+
+  const timer = scheduleTimer(WORKFLOW_DELAY_TIMER, resumeAt, {
+    executionId: execution.id,
+    stepId: step.id
+  });
+
+  return {
+    status: 'waiting',
+    waitingFor: { kind: 'delay', timerId: timer.id, resumeAt }
+  };
+}
+
+function toTemplateVariables(execution: WorkflowExecution): Record<string, string> {
+  const variables: Record<string, string> = { sessionId: execution.sessionId };
+  Object.entries(execution.context).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && typeof value !== 'object') {
+      variables[key] = String(value);
     }
   });
+  return variables;
+}
+
+function findWaitingStep(
+  execution: WorkflowExecution,
+  predicate: (waitingFor: NonNullable<WorkflowStepRun['waitingFor']>) => boolean
+): string | undefined {
+  return Object.values(execution.stepRuns).find(
+    run => run.status === 'waiting' && run.waitingFor && predicate(run.waitingFor)
+  )?.stepId;
+}
+
+// Continue delay steps when their timer fires
+registerTimerHandler(WORKFLOW_DELAY_TIMER, async timer => {
+  const execution = executions.get(timer.payload.executionId);
+  if (!execution || (execution.status !== 'running' && execution.status !== 'paused')) return;
 
-  // Check for invalid connections
+  // Look the step up by timer, since migration may have renamed it
+  const stepId = findWaitingStep(execution, waitingFor => waitingFor.timerId === timer.id);
+  if (!stepId) return;
+
+  await resumeStep(execution, stepId, { status: 'completed', output: { resumedAt: timer.firedAt } });
+});
+
+// Continue approval steps when their request is decided
+onApprovalDecision(async request => {
+  const executionId = request.metadata?.executionId;
+  const execution = executionId ? executions.get(executionId) : undefined;
+  if (!execution || (execution.status !== 'running' && execution.status !== 'paused')) return;
+
+  const stepId = findWaitingStep(execution, waitingFor => waitingFor.approvalRequestId === request.id);
+  if (!stepId) return;
+
+  if (request.status === 'approved') {
+    await resumeStep(execution, stepId, { status: 'completed', output: { approvalRequestId: request.id } });
+  } else if (request.status === 'rejected') {
+    await resumeStep(execution, stepId, { status: 'failed', error: `Approval rejected: ${request.reason || 'no reason given'}` });
+  }
+});
+
+export interface WorkflowDiagnostic {
+  code:
+    | 'workflow-not-found'
+    | 'missing-start-step'
+    | 'unreachable-step'
+    | 'dangling-connection'
+    | 'cycle'
+    | 'invalid-loop-marker'
+    | 'no-completion-path'
+    | 'missing-condition'
+    | 'invalid-condition'
+    | 'missing-branch-target'
+    | 'unused-connection'
+    | 'unknown-approval-template'
+    | 'default-approval-template';
+  severity: 'error' | 'warning';
+  message: string;
+  stepId?: string;
+  relatedStepIds?: string[];
+}
+
+export interface WorkflowValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  diagnostics: WorkflowDiagnostic[];
+}
+
+/**
+ * Validate workflow (check for cycles, unreachable steps, invalid conditions, etc.)
+ */
+export function validateWorkflow(workflowId: string): WorkflowValidationResult {
+  const workflow = workflows.get(workflowId);
+  if (!workflow) {
+    return toValidationResult([
+      { code: 'workflow-not-found', severity: 'error', message: 'Workflow not found' }
+    ]);
+  }
+
+  return analyzeWorkflow(workflow);
+}
+
+/**
+ * Run structural analysis on a workflow graph
+ *
+ * Edges are `connections` plus condition `trueStep`/`falseStep` targets.
+ * Edges listed in a step's `loopConnections` are intentional loops and are
+ * exempt from cycle detection.
+ */
+export function analyzeWorkflow(workflow: Workflow): WorkflowValidationResult {
+  const diagnostics: WorkflowDiagnostic[] = [];
+  const stepIds = new Set(workflow.steps.map(s => s.id));
+  const label = (step: WorkflowStep) => `Step "${step.name}" (${step.id})`;
+
+  // Check if start step exists
+  if (!workflow.startStepId) {
+    diagnostics.push({ code: 'missing-start-step', severity: 'error', message: 'No start step defined' });
+  } else if (!stepIds.has(workflow.startStepId)) {
+    diagnostics.push({
+      code: 'missing-start-step',
+      severity: 'error',
+      message: 'Start step does not exist in workflow',
+      stepId: workflow.startStepId
+    });
+  }
+
+  // Check for invalid connections and loop markers
   workflow.steps.forEach(step => {
-    step.connections.forEach(connId => {
-      if (!workflow.steps.find(s => s.id === connId)) {
-        errors.push(`Step "${step.name}" connects to non-existent step ${connId}`);
+    step.connections
+      .filter(connId => !stepIds.has(connId))
+      .forEach(connId => diagnostics.push({
+        code: 'dangling-connection',
+        severity: 'error',
+        message: `${label(step)} connects to non-existent step ${connId}`,
+        stepId: step.id,
+        relatedStepIds: [connId]
+      }));
+
+    (step.loopConnections || [])
+      .filter(loopId => !getStepSuccessors(step).includes(loopId))
+      .forEach(loopId => diagnostics.push({
+        code: 'invalid-loop-marker',
+        severity: 'warning',
+        message: `${label(step)} marks ${loopId} as a loop, but does not connect to it`,
+        stepId: step.id,
+        relatedStepIds: [loopId]
+      }));
+  });
+
+  // Check condition steps: expression and branch targets
+  workflow.steps
+    .filter(step => step.type === 'condition')
+    .forEach(step => {
+      const condition = step.config.condition;
+      if (!condition) {
+        diagnostics.push({
+          code: 'missing-condition',
+          severity: 'error',
+          message: `Condition step "${step.name}" (${step.id}) has no condition configured`,
+          stepId: step.id
+        });
+        return;
       }
+
+      validateCondition(condition).forEach(error => diagnostics.push({
+        code: 'invalid-condition',
+        severity: 'error',
+        message: `Condition step "${step.name}" (${step.id}) is invalid: ${error}`,
+        stepId: step.id
+      }));
+
+      (['trueStep', 'falseStep'] as const).forEach(branch => {
+        const target = condition[branch];
+        if (!target || !stepIds.has(target)) {
+          diagnostics.push({
+            code: 'missing-branch-target',
+            severity: 'error',
+            message: `Condition step "${step.name}" (${step.id}) ${branch} ${target ? `targets non-existent step ${target}` : 'is not set'}`,
+            stepId: step.id,
+            relatedStepIds: target ? [target] : undefined
+          });
+        }
+      });
+
+      step.connections
+        .filter(connId => connId !== condition.trueStep && connId !== condition.falseStep)
+        .forEach(connId => diagnostics.push({
+          code: 'unused-connection',
+          severity: 'warning',
+          message: `Condition step "${step.name}" (${step.id}) connects to ${connId}, which is neither branch target and will never run from here`,
+          stepId: step.id,
+          relatedStepIds: [connId]
+        }));
     });
+
+  // Check approval templates exist
+  workflow.steps
+    .filter(step => step.type === 'approval')
+    .forEach(step => {
+      if (!step.config.approvalTemplate) {
+        diagnostics.push({
+          code: 'default-approval-template',
+          severity: 'warning',
+          message: `Approval step "${step.name}" (${step.id}) has no approvalTemplate and will use "standard-offboarding"`,
+          stepId: step.id
+        });
+      } else if (!getApprovalTemplate(step.config.approvalTemplate)) {
+        diagnostics.push({
+          code: 'unknown-approval-template',
+          severity: 'error',
+          message: `Approval step "${step.name}" (${step.id}) uses unknown approval template "${step.config.approvalTemplate}"`,
+          stepId: step.id
+        });
+      }
+    });
+
+  // Check for unreachable steps
+  if (stepIds.has(workflow.startStepId)) {
+    const reachable = new Set<string>();
+    const stack = [workflow.startStepId];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      const step = workflow.steps.find(s => s.id === id);
+      if (reachable.has(id) || !step) continue;
+      reachable.add(id);
+      stack.push(...getStepSuccessors(step));
+    }
+
+    workflow.steps
+      .filter(step => !reachable.has(step.id))
+      .forEach(step => diagnostics.push({
+        code: 'unreachable-step',
+        severity: 'error',
+        message: `${label(step)} is unreachable`,
+        stepId: step.id
+      }));
+  }
+
+  // Check for cycles that are not marked as loops
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+  const reportedCycles = new Set<string>();
+
+  function visit(stepId: string) {
+    const step = workflow.steps.find(s => s.id === stepId);
+    if (!step) return;
+
+    state.set(stepId, 'visiting');
+    path.push(stepId);
+
+    getForwardSuccessors(step).forEach(nextId => {
+      if (state.get(nextId) === 'visiting') {
+        const cycle = path.slice(path.indexOf(nextId));
+        const key = [...cycle].sort().join(',');
+        if (!reportedCycles.has(key)) {
+          reportedCycles.add(key);
+          diagnostics.push({
+            code: 'cycle',
+            severity: 'error',
+            message: `Cycle detected: ${[...cycle, nextId].join(' -> ')}. Add "${nextId}" to loopConnections of ${stepId} if the loop is intentional`,
+            stepId,
+            relatedStepIds: cycle
+          });
+        }
+      } else if (!state.has(nextId)) {
+        visit(nextId);
+      }
+    });
+
+    path.pop();
+    state.set(stepId, 'done');
+  }
+
+  workflow.steps.forEach(step => {
+    if (!state.has(step.id)) {
+      visit(step.id);
+    }
   });
 
+  // Check every step can still reach a terminal step
+  const terminals = workflow.steps.filter(step => getStepSuccessors(step).length === 0).map(s => s.id);
+  const canComplete = new Set<string>();
+  const pending = [...terminals];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (canComplete.has(id)) continue;
+    canComplete.add(id);
+    pending.push(...getPredecessors(workflow, id, true));
+  }
+
+  workflow.steps
+    .filter(step => !canComplete.has(step.id))
+    .forEach(step => diagnostics.push({
+      code: 'no-completion-path',
+      severity: 'error',
+      message: `${label(step)} has no path to a final step, so the workflow can never complete from it`,
+      stepId: step.id
+    }));
+
+  return toValidationResult(diagnostics);
+}
+
+function toValidationResult(diagnostics: WorkflowDiagnostic[]): WorkflowValidationResult {
+  const errors = diagnostics.filter(d => d.severity === 'error').map(d => d.message);
+  const warnings = diagnostics.filter(d => d.severity === 'warning').map(d => d.message);
+
   return {
     isValid: errors.length === 0,
-    errors
+    errors,
+    warnings,
+    diagnostics
   };
 }
 